@@ -0,0 +1,155 @@
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from './chacha20poly1305';
+import { CryptoKey, SubtleCrypto } from './types';
+
+// Cipher suite IDs (u16, sent in handshake messages)
+export const CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM = 0x0001;
+export const CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305 = 0x0002;
+export const CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV = 0x0003; // Reserved, not implemented yet
+
+/** Suite used when the peer does not negotiate one (handshakes from before negotiation existed) */
+export const DEFAULT_CIPHER_SUITE = CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM;
+
+export type CipherSuiteAead = 'AES-GCM' | 'ChaCha20-Poly1305' | 'AES-GCM-SIV';
+
+export interface CipherSuite {
+  id: number;
+  name: string;
+  hash: 'SHA-256' | 'SHA-512'; // HKDF hash
+  aead: CipherSuiteAead;
+  keyLength: number; // bytes
+  nonceLength: number; // bytes
+  tagLength: number; // bytes
+  implemented: boolean; // Unimplemented suites are known by ID but never negotiated
+}
+
+/**
+ * Symmetric key of a cipher suite's AEAD
+ */
+export interface AeadKey {
+  encrypt(nonce: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array>;
+  decrypt(nonce: Uint8Array, ciphertext: Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array>;
+}
+
+const CIPHER_SUITES: Record<number, CipherSuite> = {
+  [CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM]: {
+    id: CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+    name: 'X25519_HKDF_SHA256_AES_256_GCM',
+    hash: 'SHA-256',
+    aead: 'AES-GCM',
+    keyLength: 32,
+    nonceLength: 12,
+    tagLength: 16,
+    implemented: true,
+  },
+  [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305]: {
+    id: CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305,
+    name: 'X25519_HKDF_SHA512_CHACHA20_POLY1305',
+    hash: 'SHA-512',
+    aead: 'ChaCha20-Poly1305',
+    keyLength: 32,
+    nonceLength: 12,
+    tagLength: 16,
+    implemented: true,
+  },
+  [CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV]: {
+    id: CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV,
+    name: 'X25519_HKDF_SHA256_AES_256_GCM_SIV',
+    hash: 'SHA-256',
+    aead: 'AES-GCM-SIV',
+    keyLength: 32,
+    nonceLength: 12,
+    tagLength: 16,
+    implemented: false,
+  },
+};
+
+/** Suites offered by default, most preferred first */
+export const DEFAULT_CIPHER_SUITES: readonly number[] = [
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+  CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305,
+];
+
+/**
+ * Look up a cipher suite
+ * @param id Cipher suite ID
+ * @returns CipherSuite
+ * @throws {Error} If the ID is unknown or the suite is not implemented
+ */
+export function getCipherSuite(id: number): CipherSuite {
+  const suite = CIPHER_SUITES[id];
+  if (!suite || !suite.implemented) {
+    throw new Error(`Unsupported cipher suite: ${formatId(id)}`);
+  }
+  return suite;
+}
+
+/**
+ * List the implemented cipher suites
+ * @returns CipherSuite[]
+ */
+export function listCipherSuites(): CipherSuite[] {
+  return Object.values(CIPHER_SUITES).filter(suite => suite.implemented);
+}
+
+/**
+ * Pick the suite to use: the first of ours, in our order of preference, that the peer offers.
+ * Unknown IDs in the offer are ignored, so peers can advertise suites we do not have yet.
+ * @param offered IDs advertised by the peer
+ * @param supported Our IDs, most preferred first
+ * @returns CipherSuite
+ * @throws {Error} If there is no suite in common
+ */
+export function negotiateCipherSuite(offered: readonly number[], supported: readonly number[] = DEFAULT_CIPHER_SUITES): CipherSuite {
+  const id = supported.find(candidate => offered.includes(candidate) && CIPHER_SUITES[candidate]?.implemented);
+  if (id === undefined) {
+    throw new Error(`No cipher suite in common: offered [${offered.map(formatId).join(', ')}]`);
+  }
+  return CIPHER_SUITES[id]!;
+}
+
+/**
+ * Create the AEAD key of a suite from raw key material
+ * @param suite Cipher suite
+ * @param raw Key bytes, suite.keyLength long
+ * @param subtle SubtleCrypto used by Web Crypto based AEADs
+ * @returns Promise<AeadKey>
+ */
+export async function importAeadKey(suite: CipherSuite, raw: Uint8Array, subtle: SubtleCrypto): Promise<AeadKey> {
+  if (raw.length !== suite.keyLength) {
+    throw new Error(`${suite.name} key must be ${suite.keyLength} bytes, got ${raw.length}`);
+  }
+
+  switch (suite.aead) {
+    case 'AES-GCM': {
+      const key: CryptoKey = await subtle.importKey(
+        "raw", raw as any, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+      );
+      return {
+        encrypt: async (nonce, plaintext, additionalData) => new Uint8Array(await subtle.encrypt(
+          { name: 'AES-GCM', iv: nonce as any, ...(additionalData ? { additionalData } : {}) },
+          key,
+          plaintext as any
+        )),
+        decrypt: async (nonce, ciphertext, additionalData) => new Uint8Array(await subtle.decrypt(
+          { name: 'AES-GCM', iv: nonce as any, ...(additionalData ? { additionalData } : {}) },
+          key,
+          ciphertext as any
+        )),
+      };
+    }
+    case 'ChaCha20-Poly1305': {
+      // No Web Crypto implementation exists, so the key bytes stay in memory
+      const key = raw.slice();
+      return {
+        encrypt: async (nonce, plaintext, additionalData) => chacha20Poly1305Seal(key, nonce, plaintext, additionalData),
+        decrypt: async (nonce, ciphertext, additionalData) => chacha20Poly1305Open(key, nonce, ciphertext, additionalData),
+      };
+    }
+    default:
+      throw new Error(`Unsupported cipher suite: ${formatId(suite.id)}`);
+  }
+}
+
+function formatId(id: number): string {
+  return `0x${id.toString(16).padStart(4, '0')}`;
+}
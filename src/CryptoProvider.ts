@@ -0,0 +1,25 @@
+import { CryptoProvider } from './types';
+
+let configuredProvider: CryptoProvider | null = null;
+
+/**
+ * Make every class in the package use this crypto implementation instead of the platform
+ * Web Crypto API, e.g. an HSM-backed shim or a deterministic provider for tests.
+ * Instances that already exist keep the implementation they were created with,
+ * so configure the provider before calling getInstance() or createSession().
+ * @param provider Provider to use, or null to go back to the platform Web Crypto API
+ */
+export function setCryptoProvider(provider: CryptoProvider | null): void {
+  if (provider && typeof provider.subtle?.importKey !== 'function') {
+    throw new Error('Crypto provider must implement SubtleCrypto');
+  }
+  configuredProvider = provider;
+}
+
+/**
+ * Get the provider set with setCryptoProvider()
+ * @returns CryptoProvider, or null when the platform Web Crypto API is used
+ */
+export function getCryptoProvider(): CryptoProvider | null {
+  return configuredProvider;
+}
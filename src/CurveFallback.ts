@@ -0,0 +1,340 @@
+import { ed25519PublicKey, ed25519Sign, ed25519Verify, x25519, x25519PublicKey } from './curve25519';
+import { NotInitializedError } from './errors';
+import { byteArrayToBase64Url, base64UrlToByteArr, concatBytes } from './helpers';
+import { SubtleCrypto } from './types';
+
+type Curve = 'X25519' | 'Ed25519';
+
+interface KeyMaterial {
+  curve: Curve;
+  secret?: Uint8Array; // X25519 scalar or Ed25519 seed; absent for public keys
+  publicKey: Uint8Array;
+}
+
+/** Key object handed out for keys held by the fallback, shaped like a Web Crypto CryptoKey */
+interface FallbackKey {
+  readonly type: 'private' | 'public';
+  readonly extractable: boolean;
+  readonly algorithm: { name: Curve };
+  readonly usages: string[];
+}
+
+// DER prefixes; the 32-byte key follows
+const PKCS8_PREFIX: Record<Curve, Uint8Array> = {
+  X25519: new Uint8Array([0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20]),
+  Ed25519: new Uint8Array([0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20]),
+};
+const SPKI_PREFIX: Record<Curve, Uint8Array> = {
+  X25519: new Uint8Array([0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x03, 0x21, 0x00]),
+  Ed25519: new Uint8Array([0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00]),
+};
+
+const PRIVATE_USAGES: Record<Curve, string[]> = { X25519: ['deriveBits', 'deriveKey'], Ed25519: ['sign'] };
+const PUBLIC_USAGES: Record<Curve, string[]> = { X25519: [], Ed25519: ['verify'] };
+
+/**
+ * SubtleCrypto that adds X25519 and Ed25519 to a Web Crypto implementation lacking them.
+ *
+ * Each curve is first tried natively; once the platform rejects it as unsupported, keys for that
+ * curve are generated and imported by the pure TypeScript implementation in curve25519.ts, and
+ * every operation on those keys stays there. Everything else goes to the native implementation.
+ */
+export class CurveFallbackSubtle implements SubtleCrypto {
+  private readonly unsupported = new Set<Curve>();
+  private readonly keys = new WeakMap<object, KeyMaterial>();
+
+  /**
+   * @param native Platform SubtleCrypto
+   * @param randomBytes Random source for generated keys
+   */
+  constructor(
+    private readonly native: SubtleCrypto,
+    private readonly randomBytes: (length: number) => Promise<Uint8Array>
+  ) {}
+
+  /**
+   * Whether a curve is served by the pure TypeScript implementation.
+   * Only known after the first key for that curve was generated or imported.
+   */
+  public usesFallback(curve: Curve): boolean {
+    return this.unsupported.has(curve);
+  }
+
+  public async generateKey(algorithm: any, extractable: boolean, keyUsages: string[]): Promise<any> {
+    const curve = curveOf(algorithm);
+    if (!curve) return this.native.generateKey(algorithm, extractable, keyUsages);
+
+    return this.withFallback(curve, () => this.native.generateKey(algorithm, extractable, keyUsages), async () => {
+      checkUsages(curve, keyUsages, [...PRIVATE_USAGES[curve], ...PUBLIC_USAGES[curve]]);
+      const secret = await this.randomBytes(32);
+      const publicKey = await this.publicKeyFor(curve, secret);
+      return {
+        privateKey: this.createKey('private', { curve, secret, publicKey }, extractable,
+          keyUsages.filter(usage => PRIVATE_USAGES[curve].includes(usage))),
+        publicKey: this.createKey('public', { curve, publicKey }, true,
+          keyUsages.filter(usage => PUBLIC_USAGES[curve].includes(usage))),
+      };
+    });
+  }
+
+  public async importKey(format: string, keyData: any, algorithm: any, extractable: boolean, keyUsages: string[]): Promise<any> {
+    const curve = curveOf(algorithm);
+    if (!curve) return this.native.importKey(format, keyData, algorithm, extractable, keyUsages);
+
+    return this.withFallback(curve, () => this.native.importKey(format, keyData, algorithm, extractable, keyUsages), async () => {
+      switch (format) {
+        case 'raw':
+          return this.importPublic(curve, toBytes(keyData), extractable, keyUsages);
+        case 'spki':
+          return this.importPublic(curve, stripPrefix(toBytes(keyData), SPKI_PREFIX[curve], 'SPKI'), extractable, keyUsages);
+        case 'pkcs8':
+          return this.importPrivate(curve, stripPrefix(toBytes(keyData), PKCS8_PREFIX[curve], 'PKCS#8'), extractable, keyUsages);
+        case 'jwk':
+          return this.importJwk(curve, keyData, extractable, keyUsages);
+        default:
+          throw new Error(`Unsupported key format for ${curve}: ${format}`);
+      }
+    });
+  }
+
+  public async exportKey(format: string, key: any): Promise<any> {
+    const material = this.keys.get(key);
+    if (!material) return this.native.exportKey(format, key);
+    if (!key.extractable) {
+      throw new Error('Key is not extractable');
+    }
+
+    const isPrivate = key.type === 'private';
+    switch (format) {
+      case 'raw':
+        if (isPrivate) break;
+        return copyBuffer(material.publicKey);
+      case 'spki':
+        if (isPrivate) break;
+        return copyBuffer(concatBytes(SPKI_PREFIX[material.curve], material.publicKey));
+      case 'pkcs8':
+        if (!isPrivate) break;
+        return copyBuffer(concatBytes(PKCS8_PREFIX[material.curve], material.secret!));
+      case 'jwk': {
+        const jwk: Record<string, unknown> = { kty: 'OKP', crv: material.curve, x: byteArrayToBase64Url(material.publicKey) };
+        if (isPrivate) jwk.d = byteArrayToBase64Url(material.secret!);
+        jwk.key_ops = key.usages;
+        jwk.ext = true;
+        return jwk;
+      }
+    }
+    throw new Error(`Cannot export ${key.type} ${material.curve} key as ${format}`);
+  }
+
+  public async deriveBits(algorithm: any, baseKey: any, length: number): Promise<ArrayBuffer> {
+    const material = this.keys.get(baseKey);
+    if (!material) return this.native.deriveBits(algorithm, baseKey, length);
+    return copyBuffer(this.x25519Bits(algorithm, baseKey, material, length ?? 256, 'deriveBits'));
+  }
+
+  public async deriveKey(algorithm: any, baseKey: any, derivedKeyAlgorithm: any, extractable: boolean, keyUsages: string[]): Promise<any> {
+    const material = this.keys.get(baseKey);
+    if (!material) return this.native.deriveKey(algorithm, baseKey, derivedKeyAlgorithm, extractable, keyUsages);
+
+    const length = derivedKeyAlgorithm?.length ?? 256;
+    const bits = this.x25519Bits(algorithm, baseKey, material, length, 'deriveKey');
+    return this.native.importKey('raw', bits, derivedKeyAlgorithm, extractable, keyUsages);
+  }
+
+  public async sign(algorithm: any, key: any, data: any): Promise<ArrayBuffer> {
+    const material = this.keys.get(key);
+    if (!material) return this.native.sign(algorithm, key, data);
+    checkOperation(key, material, 'Ed25519', 'private', 'sign', algorithm);
+
+    return copyBuffer(await ed25519Sign(material.secret!, toBytes(data), this.sha512));
+  }
+
+  public async verify(algorithm: any, key: any, signature: any, data: any): Promise<boolean> {
+    const material = this.keys.get(key);
+    if (!material) return this.native.verify(algorithm, key, signature, data);
+    checkOperation(key, material, 'Ed25519', 'public', 'verify', algorithm);
+
+    return ed25519Verify(material.publicKey, toBytes(data), toBytes(signature), this.sha512);
+  }
+
+  public encrypt(algorithm: any, key: any, data: any): Promise<ArrayBuffer> {
+    return this.native.encrypt(algorithm, key, data);
+  }
+
+  public decrypt(algorithm: any, key: any, data: any): Promise<ArrayBuffer> {
+    return this.native.decrypt(algorithm, key, data);
+  }
+
+  public digest(algorithm: any, data: any): Promise<ArrayBuffer> {
+    return this.native.digest(algorithm, data);
+  }
+
+  public async wrapKey(format: string, key: any, wrappingKey: any, wrapAlgorithm: any): Promise<ArrayBuffer> {
+    if (!this.native.wrapKey) throw new NotInitializedError('Key wrapping not supported by this crypto provider');
+    return this.native.wrapKey(format, key, wrappingKey, wrapAlgorithm);
+  }
+
+  public async unwrapKey(
+    format: string,
+    wrappedKey: any,
+    unwrappingKey: any,
+    unwrapAlgorithm: any,
+    unwrappedKeyAlgorithm: any,
+    extractable: boolean,
+    keyUsages: string[]
+  ): Promise<any> {
+    if (!this.native.unwrapKey) throw new NotInitializedError('Key wrapping not supported by this crypto provider');
+    return this.native.unwrapKey(format, wrappedKey, unwrappingKey, unwrapAlgorithm, unwrappedKeyAlgorithm, extractable, keyUsages);
+  }
+
+  private readonly sha512 = async (data: Uint8Array): Promise<Uint8Array> => {
+    return new Uint8Array(await this.native.digest('SHA-512', data as any));
+  };
+
+  private async withFallback<T>(curve: Curve, native: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    if (!this.unsupported.has(curve)) {
+      try {
+        return await native();
+      } catch (error) {
+        if (!isNotSupported(error)) throw error;
+        this.unsupported.add(curve);
+      }
+    }
+    return fallback();
+  }
+
+  private x25519Bits(algorithm: any, baseKey: any, material: KeyMaterial, length: number, usage: string): Uint8Array {
+    checkOperation(baseKey, material, 'X25519', 'private', usage, algorithm);
+
+    const peer = this.keys.get(algorithm.public);
+    if (!peer || peer.curve !== 'X25519' || algorithm.public.type !== 'public') {
+      throw new Error('X25519 public key must be an X25519 public key from the same implementation');
+    }
+    if (length % 8 !== 0 || length < 0 || length > 256) {
+      throw new Error(`Invalid X25519 output length: ${length}`);
+    }
+
+    const shared = x25519(material.secret!, peer.publicKey);
+    if (shared.every(byte => byte === 0)) {
+      throw new Error('X25519 shared secret is all zero');
+    }
+    return shared.slice(0, length / 8);
+  }
+
+  private async publicKeyFor(curve: Curve, secret: Uint8Array): Promise<Uint8Array> {
+    return curve === 'X25519' ? x25519PublicKey(secret) : ed25519PublicKey(secret, this.sha512);
+  }
+
+  private importPublic(curve: Curve, publicKey: Uint8Array, extractable: boolean, keyUsages: string[]): FallbackKey {
+    if (publicKey.length !== 32) {
+      throw new Error(`Invalid ${curve} public key length: ${publicKey.length}`);
+    }
+    checkUsages(curve, keyUsages, PUBLIC_USAGES[curve]);
+    return this.createKey('public', { curve, publicKey: publicKey.slice() }, extractable, keyUsages);
+  }
+
+  private async importPrivate(curve: Curve, secret: Uint8Array, extractable: boolean, keyUsages: string[]): Promise<FallbackKey> {
+    if (secret.length !== 32) {
+      throw new Error(`Invalid ${curve} private key length: ${secret.length}`);
+    }
+    checkUsages(curve, keyUsages, PRIVATE_USAGES[curve]);
+    const material = { curve, secret: secret.slice(), publicKey: await this.publicKeyFor(curve, secret) };
+    return this.createKey('private', material, extractable, keyUsages);
+  }
+
+  private async importJwk(curve: Curve, jwk: any, extractable: boolean, keyUsages: string[]): Promise<FallbackKey> {
+    if (!jwk || jwk.kty !== 'OKP' || jwk.crv !== curve || typeof jwk.x !== 'string') {
+      throw new Error(`Invalid ${curve} JWK`);
+    }
+    if (typeof jwk.d !== 'string') {
+      return this.importPublic(curve, base64UrlToByteArr(jwk.x), extractable, keyUsages);
+    }
+
+    const key = await this.importPrivate(curve, base64UrlToByteArr(jwk.d), extractable, keyUsages);
+    const publicKey = base64UrlToByteArr(jwk.x);
+    const derived = this.keys.get(key)!.publicKey;
+    if (publicKey.length !== derived.length || publicKey.some((byte, i) => byte !== derived[i])) {
+      throw new Error(`${curve} JWK public key does not match its private key`);
+    }
+    return key;
+  }
+
+  private createKey(type: 'private' | 'public', material: KeyMaterial, extractable: boolean, usages: string[]): FallbackKey {
+    const key: FallbackKey = Object.freeze({ type, extractable, algorithm: Object.freeze({ name: material.curve }), usages: [...usages] });
+    this.keys.set(key, material);
+    return key;
+  }
+}
+
+const wrapped = new WeakMap<SubtleCrypto, CurveFallbackSubtle>();
+
+/**
+ * Add the X25519/Ed25519 fallback to a SubtleCrypto. Wrapping the same object twice returns the
+ * same wrapper, so keys created through one call keep working with the next.
+ * @param native SubtleCrypto to wrap, e.g. a custom provider's
+ * @param randomBytes Random source for generated keys
+ * @returns CurveFallbackSubtle
+ */
+export function withCurveFallback(native: SubtleCrypto, randomBytes: (length: number) => Promise<Uint8Array>): CurveFallbackSubtle {
+  if (native instanceof CurveFallbackSubtle) return native;
+
+  let subtle = wrapped.get(native);
+  if (!subtle) {
+    subtle = new CurveFallbackSubtle(native, randomBytes);
+    wrapped.set(native, subtle);
+  }
+  return subtle;
+}
+
+function curveOf(algorithm: any): Curve | null {
+  const name = typeof algorithm === 'string' ? algorithm : algorithm?.name;
+  if (typeof name !== 'string') return null;
+  switch (name.toUpperCase()) {
+    case 'X25519':
+      return 'X25519';
+    case 'ED25519':
+      return 'Ed25519';
+    default:
+      return null;
+  }
+}
+
+// Platforms report a missing algorithm as a NotSupportedError, or as a TypeError/SyntaxError naming it
+function isNotSupported(error: unknown): boolean {
+  const { name, message } = (error ?? {}) as { name?: unknown; message?: unknown };
+  return name === 'NotSupportedError'
+    || (typeof message === 'string' && /not supported|unrecognized|unknown algorithm/i.test(message));
+}
+
+function checkUsages(curve: Curve, keyUsages: string[], allowed: string[]): void {
+  const invalid = keyUsages.find(usage => !allowed.includes(usage));
+  if (invalid) {
+    throw new Error(`Invalid key usage for ${curve}: ${invalid}`);
+  }
+}
+
+function checkOperation(key: FallbackKey, material: KeyMaterial, curve: Curve, type: 'private' | 'public', usage: string, algorithm: any): void {
+  if (material.curve !== curve || curveOf(algorithm) !== curve) {
+    throw new Error(`Key does not match algorithm ${curveOf(algorithm) ?? 'unknown'}`);
+  }
+  if (key.type !== type || !key.usages.includes(usage)) {
+    throw new Error(`Key does not support ${usage}`);
+  }
+}
+
+function stripPrefix(data: Uint8Array, prefix: Uint8Array, format: string): Uint8Array {
+  if (data.length !== prefix.length + 32 || prefix.some((byte, i) => data[i] !== byte)) {
+    throw new Error(`Invalid ${format} key data`);
+  }
+  return data.slice(prefix.length);
+}
+
+function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Uint8Array(data);
+}
+
+function copyBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
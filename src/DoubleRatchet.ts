@@ -0,0 +1,416 @@
+import { AuthenticationFailedError } from './errors';
+import {
+  byteArrayToBase64,
+  base64StringToByteArr,
+  concatBytes,
+  getSubtleCrypto,
+  uint32ToBytes
+} from './helpers';
+import { CryptoKey, CryptoKeyPair, SubtleCrypto } from './types';
+
+export interface RatchetHeader {
+  publicKey: Uint8Array; // Sender's current ratchet public key
+  previousChainLength: number; // Messages in the sender's previous sending chain
+  messageNumber: number; // Index of this message in the current sending chain
+}
+
+export interface RatchetMessage {
+  header: RatchetHeader;
+  ciphertext: Uint8Array;
+}
+
+export interface DoubleRatchetOptions {
+  maxSkip?: number; // Max message keys skipped in one chain
+  maxStoredKeys?: number; // Max skipped message keys kept for out-of-order delivery
+}
+
+/**
+ * JSON-serializable snapshot of a ratchet. Contains secret key material:
+ * store it encrypted.
+ */
+export interface RatchetState {
+  version: 1;
+  sendPrivateKey: string; // PKCS#8, base64
+  sendPublicKey: string;
+  receivePublicKey: string | null;
+  rootKey: string;
+  sendChainKey: string | null;
+  receiveChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: { publicKey: string; messageNumber: number; messageKey: string }[];
+  maxSkip: number;
+  maxStoredKeys: number;
+}
+
+const HEADER_LENGTH = 40; // public key (32) + previous chain length (4) + message number (4)
+const DEFAULT_MAX_SKIP = 1000;
+const DEFAULT_MAX_STORED_KEYS = 2000;
+
+const ROOT_INFO = new TextEncoder().encode('secure-channel double-ratchet root');
+const MESSAGE_INFO = new TextEncoder().encode('secure-channel double-ratchet message');
+const MESSAGE_KEY_SEED = new Uint8Array([0x01]);
+const CHAIN_KEY_SEED = new Uint8Array([0x02]);
+
+/**
+ * Double Ratchet (Signal specification) for asynchronous messaging
+ * X25519 DH ratchet, HKDF-SHA256 root chain, HMAC-SHA256 symmetric chains and AES-256-GCM.
+ * Each message gets its own key (forward secrecy) and every reply introduces a fresh DH
+ * output (post-compromise security). Out-of-order messages are handled with stored skipped keys.
+ * Calls to encrypt() and decrypt() on one instance must not overlap.
+ */
+export class DoubleRatchet {
+  private sendKeyPair: CryptoKeyPair | null = null;
+  private sendPublicKey: Uint8Array = new Uint8Array(0);
+  private receivePublicKey: Uint8Array | null = null;
+  private rootKey: Uint8Array = new Uint8Array(0);
+  private sendChainKey: Uint8Array | null = null;
+  private receiveChainKey: Uint8Array | null = null;
+  private sendCount = 0;
+  private receiveCount = 0;
+  private previousSendCount = 0;
+  private skippedKeys = new Map<string, Uint8Array>();
+  private readonly maxSkip: number;
+  private readonly maxStoredKeys: number;
+
+  private constructor(private readonly subtle: SubtleCrypto, options: DoubleRatchetOptions) {
+    this.maxSkip = options.maxSkip ?? DEFAULT_MAX_SKIP;
+    this.maxStoredKeys = options.maxStoredKeys ?? DEFAULT_MAX_STORED_KEYS;
+  }
+
+  /**
+   * Generate an X25519 ratchet key pair. The private key is extractable so the state can be exported.
+   * @returns Promise<CryptoKeyPair>
+   */
+  public static async generateKeyPair(): Promise<CryptoKeyPair> {
+    const subtle = await getSubtleCrypto();
+    return subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as Promise<CryptoKeyPair>;
+  }
+
+  /**
+   * Start a ratchet as the party that sends first
+   * @param sharedSecret 32-byte secret agreed with the peer (e.g. from a handshake)
+   * @param receiverPublicKey Peer's raw X25519 ratchet public key
+   * @param options Skipped-key limits
+   * @returns Promise<DoubleRatchet>
+   */
+  public static async initSender(sharedSecret: Uint8Array, receiverPublicKey: Uint8Array, options: DoubleRatchetOptions = {}): Promise<DoubleRatchet> {
+    const ratchet = new DoubleRatchet(await getSubtleCrypto(), options);
+    await ratchet.setSendKeyPair(await DoubleRatchet.generateKeyPair());
+    ratchet.receivePublicKey = receiverPublicKey.slice();
+    [ratchet.rootKey, ratchet.sendChainKey] = await ratchet.kdfRoot(sharedSecret, await ratchet.dh(receiverPublicKey));
+    return ratchet;
+  }
+
+  /**
+   * Start a ratchet as the party that receives first
+   * @param sharedSecret 32-byte secret agreed with the peer
+   * @param keyPair Our X25519 ratchet key pair, whose public key the sender used
+   * @param options Skipped-key limits
+   * @returns Promise<DoubleRatchet>
+   */
+  public static async initReceiver(sharedSecret: Uint8Array, keyPair: CryptoKeyPair, options: DoubleRatchetOptions = {}): Promise<DoubleRatchet> {
+    const ratchet = new DoubleRatchet(await getSubtleCrypto(), options);
+    await ratchet.setSendKeyPair(keyPair);
+    ratchet.rootKey = sharedSecret.slice();
+    return ratchet;
+  }
+
+  /**
+   * Restore a ratchet from exportState()
+   * @param state Previously exported state
+   * @returns Promise<DoubleRatchet>
+   */
+  public static async fromState(state: RatchetState): Promise<DoubleRatchet> {
+    if (state.version !== 1) {
+      throw new Error(`Unsupported ratchet state version: ${state.version}`);
+    }
+
+    const subtle = await getSubtleCrypto();
+    const ratchet = new DoubleRatchet(subtle, { maxSkip: state.maxSkip, maxStoredKeys: state.maxStoredKeys });
+    const sendPublicKey = base64StringToByteArr(state.sendPublicKey);
+
+    ratchet.sendKeyPair = {
+      privateKey: await subtle.importKey('pkcs8', base64StringToByteArr(state.sendPrivateKey) as any, { name: 'X25519' }, true, ['deriveBits']),
+      publicKey: await subtle.importKey('raw', sendPublicKey as any, { name: 'X25519' }, true, []),
+    };
+    ratchet.sendPublicKey = sendPublicKey;
+    ratchet.receivePublicKey = state.receivePublicKey === null ? null : base64StringToByteArr(state.receivePublicKey);
+    ratchet.rootKey = base64StringToByteArr(state.rootKey);
+    ratchet.sendChainKey = state.sendChainKey === null ? null : base64StringToByteArr(state.sendChainKey);
+    ratchet.receiveChainKey = state.receiveChainKey === null ? null : base64StringToByteArr(state.receiveChainKey);
+    ratchet.sendCount = state.sendCount;
+    ratchet.receiveCount = state.receiveCount;
+    ratchet.previousSendCount = state.previousSendCount;
+    for (const skipped of state.skippedKeys) {
+      ratchet.skippedKeys.set(
+        skippedKeyId(base64StringToByteArr(skipped.publicKey), skipped.messageNumber),
+        base64StringToByteArr(skipped.messageKey)
+      );
+    }
+    return ratchet;
+  }
+
+  /**
+   * Our current ratchet public key
+   */
+  public get publicKey(): Uint8Array {
+    return this.sendPublicKey.slice();
+  }
+
+  /**
+   * Encrypt the next message in the sending chain
+   * @param plaintext String or Uint8Array to encrypt
+   * @param associatedData Optional data authenticated with the message (e.g. both identities)
+   * @returns Promise<RatchetMessage> Header and ciphertext to send
+   */
+  public async encrypt(plaintext: string | Uint8Array, associatedData: Uint8Array = new Uint8Array(0)): Promise<RatchetMessage> {
+    if (!this.sendChainKey) {
+      throw new Error('Cannot send before receiving the first message');
+    }
+
+    const [chainKey, messageKey] = await this.kdfChain(this.sendChainKey);
+    const header: RatchetHeader = {
+      publicKey: this.sendPublicKey.slice(),
+      previousChainLength: this.previousSendCount,
+      messageNumber: this.sendCount,
+    };
+    this.sendChainKey = chainKey;
+    this.sendCount++;
+
+    const data = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+    const ciphertext = await this.seal(messageKey, data, concatBytes(associatedData, serializeRatchetHeader(header)));
+    return { header, ciphertext };
+  }
+
+  /**
+   * Decrypt a message, advancing the ratchet. On failure the state is left unchanged.
+   * @param message Header and ciphertext from the peer's encrypt()
+   * @param associatedData Data passed to the peer's encrypt(), if any
+   * @returns Promise<Uint8Array> Decrypted plaintext
+   * @throws {AuthenticationFailedError} If the ciphertext, header or associated data fails authentication
+   */
+  public async decrypt(message: RatchetMessage, associatedData: Uint8Array = new Uint8Array(0)): Promise<Uint8Array> {
+    const { header } = message;
+    const aad = concatBytes(associatedData, serializeRatchetHeader(header));
+
+    const skippedId = skippedKeyId(header.publicKey, header.messageNumber);
+    const skippedKey = this.skippedKeys.get(skippedId);
+    if (skippedKey) {
+      const plaintext = await this.open(skippedKey, message.ciphertext, aad);
+      this.skippedKeys.delete(skippedId);
+      return plaintext;
+    }
+
+    const snapshot = this.snapshot();
+    try {
+      if (!this.receivePublicKey || !bytesEqual(header.publicKey, this.receivePublicKey)) {
+        await this.skipMessageKeys(header.previousChainLength);
+        await this.dhRatchet(header.publicKey);
+      }
+      await this.skipMessageKeys(header.messageNumber);
+
+      const [chainKey, messageKey] = await this.kdfChain(this.receiveChainKey!);
+      this.receiveChainKey = chainKey;
+      this.receiveCount++;
+      return await this.open(messageKey, message.ciphertext, aad);
+    } catch (error) {
+      this.restore(snapshot);
+      throw error;
+    }
+  }
+
+  /**
+   * Export the full ratchet state, including secret keys
+   * @returns Promise<RatchetState> JSON-serializable state
+   */
+  public async exportState(): Promise<RatchetState> {
+    if (!this.sendKeyPair) throw new Error('Ratchet not initialized');
+
+    return {
+      version: 1,
+      sendPrivateKey: byteArrayToBase64(await this.subtle.exportKey('pkcs8', this.sendKeyPair.privateKey)),
+      sendPublicKey: byteArrayToBase64(this.sendPublicKey),
+      receivePublicKey: this.receivePublicKey && byteArrayToBase64(this.receivePublicKey),
+      rootKey: byteArrayToBase64(this.rootKey),
+      sendChainKey: this.sendChainKey && byteArrayToBase64(this.sendChainKey),
+      receiveChainKey: this.receiveChainKey && byteArrayToBase64(this.receiveChainKey),
+      sendCount: this.sendCount,
+      receiveCount: this.receiveCount,
+      previousSendCount: this.previousSendCount,
+      skippedKeys: Array.from(this.skippedKeys, ([id, messageKey]) => {
+        const [publicKey, messageNumber] = id.split(':');
+        return { publicKey: publicKey!, messageNumber: Number(messageNumber), messageKey: byteArrayToBase64(messageKey) };
+      }),
+      maxSkip: this.maxSkip,
+      maxStoredKeys: this.maxStoredKeys,
+    };
+  }
+
+  private async dhRatchet(publicKey: Uint8Array): Promise<void> {
+    this.previousSendCount = this.sendCount;
+    this.sendCount = 0;
+    this.receiveCount = 0;
+    this.receivePublicKey = publicKey.slice();
+
+    [this.rootKey, this.receiveChainKey] = await this.kdfRoot(this.rootKey, await this.dh(publicKey));
+    await this.setSendKeyPair(await DoubleRatchet.generateKeyPair());
+    [this.rootKey, this.sendChainKey] = await this.kdfRoot(this.rootKey, await this.dh(publicKey));
+  }
+
+  private async skipMessageKeys(until: number): Promise<void> {
+    if (!this.receiveChainKey) return;
+    if (until - this.receiveCount > this.maxSkip) {
+      throw new Error(`Too many skipped messages: ${until - this.receiveCount} (max ${this.maxSkip})`);
+    }
+
+    while (this.receiveCount < until) {
+      const [chainKey, messageKey] = await this.kdfChain(this.receiveChainKey);
+      this.receiveChainKey = chainKey;
+      this.skippedKeys.set(skippedKeyId(this.receivePublicKey!, this.receiveCount), messageKey);
+      this.receiveCount++;
+
+      // Evict the oldest keys (Map keeps insertion order)
+      while (this.skippedKeys.size > this.maxStoredKeys) {
+        this.skippedKeys.delete(this.skippedKeys.keys().next().value!);
+      }
+    }
+  }
+
+  private async setSendKeyPair(keyPair: CryptoKeyPair): Promise<void> {
+    this.sendKeyPair = keyPair;
+    this.sendPublicKey = new Uint8Array(await this.subtle.exportKey('raw', keyPair.publicKey));
+  }
+
+  private async dh(publicKey: Uint8Array): Promise<Uint8Array> {
+    const peerKey = await this.subtle.importKey('raw', publicKey as any, { name: 'X25519' }, false, []);
+    return new Uint8Array(await this.subtle.deriveBits(
+      { name: 'X25519', public: peerKey },
+      this.sendKeyPair!.privateKey,
+      256
+    ));
+  }
+
+  // KDF_RK: HKDF with the root key as salt; returns [new root key, chain key]
+  private async kdfRoot(rootKey: Uint8Array, dhOutput: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+    const output = await this.hkdf(dhOutput, rootKey, ROOT_INFO, 64);
+    return [output.slice(0, 32), output.slice(32)];
+  }
+
+  // KDF_CK: HMAC with constant inputs; returns [next chain key, message key]
+  private async kdfChain(chainKey: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+    const key = await this.subtle.importKey('raw', chainKey as any, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const messageKey = new Uint8Array(await this.subtle.sign('HMAC', key, MESSAGE_KEY_SEED as any));
+    const nextChainKey = new Uint8Array(await this.subtle.sign('HMAC', key, CHAIN_KEY_SEED as any));
+    return [nextChainKey, messageKey];
+  }
+
+  private async seal(messageKey: Uint8Array, plaintext: Uint8Array, aad: Uint8Array): Promise<Uint8Array> {
+    const [key, iv] = await this.messageCipher(messageKey);
+    return new Uint8Array(await this.subtle.encrypt(
+      { name: 'AES-GCM', iv: iv as any, additionalData: aad as any },
+      key,
+      plaintext as any
+    ));
+  }
+
+  private async open(messageKey: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array): Promise<Uint8Array> {
+    const [key, iv] = await this.messageCipher(messageKey);
+    try {
+      return new Uint8Array(await this.subtle.decrypt(
+        { name: 'AES-GCM', iv: iv as any, additionalData: aad as any },
+        key,
+        ciphertext as any
+      ));
+    } catch {
+      throw new AuthenticationFailedError('Failed to decrypt ratchet message');
+    }
+  }
+
+  // Each message key is used once, so a deterministic IV derived with it is safe
+  private async messageCipher(messageKey: Uint8Array): Promise<[CryptoKey, Uint8Array]> {
+    const output = await this.hkdf(messageKey, new Uint8Array(32), MESSAGE_INFO, 44);
+    const key = await this.subtle.importKey('raw', output.slice(0, 32) as any, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    return [key, output.slice(32)];
+  }
+
+  private async hkdf(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+    const baseKey = await this.subtle.importKey('raw', ikm as any, 'HKDF', false, ['deriveBits']);
+    return new Uint8Array(await this.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt, info },
+      baseKey,
+      length * 8
+    ));
+  }
+
+  private snapshot() {
+    return {
+      sendKeyPair: this.sendKeyPair,
+      sendPublicKey: this.sendPublicKey,
+      receivePublicKey: this.receivePublicKey,
+      rootKey: this.rootKey,
+      sendChainKey: this.sendChainKey,
+      receiveChainKey: this.receiveChainKey,
+      sendCount: this.sendCount,
+      receiveCount: this.receiveCount,
+      previousSendCount: this.previousSendCount,
+      skippedKeys: new Map(this.skippedKeys),
+    };
+  }
+
+  private restore(snapshot: ReturnType<DoubleRatchet['snapshot']>): void {
+    Object.assign(this, snapshot);
+  }
+}
+
+/**
+ * Serialize a ratchet header
+ * Layout: public key (32) | previous chain length (u32, big-endian) | message number (u32, big-endian)
+ * @param header Header to serialize
+ * @returns Uint8Array of 40 bytes
+ */
+export function serializeRatchetHeader(header: RatchetHeader): Uint8Array {
+  if (header.publicKey.length !== 32) {
+    throw new Error(`Invalid ratchet public key length: ${header.publicKey.length}`);
+  }
+  return concatBytes(header.publicKey, uint32ToBytes(header.previousChainLength), uint32ToBytes(header.messageNumber));
+}
+
+/**
+ * Serialize a ratchet message as header followed by ciphertext
+ * @param message Message from DoubleRatchet.encrypt()
+ * @returns Uint8Array
+ */
+export function serializeRatchetMessage(message: RatchetMessage): Uint8Array {
+  return concatBytes(serializeRatchetHeader(message.header), message.ciphertext);
+}
+
+/**
+ * Parse bytes produced by serializeRatchetMessage()
+ * @param bytes Serialized message
+ * @returns RatchetMessage
+ */
+export function parseRatchetMessage(bytes: Uint8Array): RatchetMessage {
+  if (bytes.length < HEADER_LENGTH) {
+    throw new Error(`Ratchet message too short: ${bytes.length} bytes`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    header: {
+      publicKey: bytes.slice(0, 32),
+      previousChainLength: view.getUint32(32, false),
+      messageNumber: view.getUint32(36, false),
+    },
+    ciphertext: bytes.slice(HEADER_LENGTH),
+  };
+}
+
+function skippedKeyId(publicKey: Uint8Array, messageNumber: number): string {
+  return `${byteArrayToBase64(publicKey)}:${messageNumber}`;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
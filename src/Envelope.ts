@@ -0,0 +1,214 @@
+import { CipherSuite } from './CipherSuite';
+import { EncodingError } from './errors';
+import { byteArrayToBase64Url, base64UrlToByteArr, concatBytes, uint32ToBytes, EncryptionResult } from './helpers';
+
+export const ENVELOPE_VERSION = 1;
+const ENVELOPE_MAGIC = 0xe0; // High nibble of the first byte; the low nibble is the version
+
+// Algorithm IDs
+export const ENVELOPE_ALG_AES_256_GCM = 1;
+export const ENVELOPE_ALG_CHACHA20_POLY1305 = 2;
+
+export interface Envelope extends EncryptionResult {
+  algorithm: number;
+  epoch: number;
+}
+
+export interface EnvelopeJson {
+  v: number;
+  alg: number;
+  epoch: number;
+  nonce: string; // base64url
+  aad?: string; // base64url
+  ct: string; // base64url
+}
+
+// Nonce and tag length per algorithm
+const ALGORITHMS: Record<number, { nonceLength: number; tagLength: number }> = {
+  [ENVELOPE_ALG_AES_256_GCM]: { nonceLength: 12, tagLength: 16 },
+  [ENVELOPE_ALG_CHACHA20_POLY1305]: { nonceLength: 12, tagLength: 16 },
+};
+
+/**
+ * Envelope algorithm ID of a cipher suite's AEAD
+ * @param suite Cipher suite the message was encrypted under
+ * @returns number
+ */
+export function envelopeAlgorithm(suite: CipherSuite): number {
+  return suite.aead === 'ChaCha20-Poly1305' ? ENVELOPE_ALG_CHACHA20_POLY1305 : ENVELOPE_ALG_AES_256_GCM;
+}
+
+const FIXED_HEADER_LENGTH = 6; // magic/version (1) + algorithm (1) + epoch (4)
+const AAD_LENGTH_LENGTH = 4;
+
+/**
+ * Serialize an encrypted message into a binary envelope:
+ * magic/version (1) | algorithm (1) | epoch (u32) | nonce | AAD length (u32) | AAD | ciphertext
+ * @param message Output of encrypt() or RecordLayer.seal()
+ * @param algorithm Algorithm the message was encrypted with
+ * @returns Uint8Array
+ * @throws {EncodingError} If the algorithm is unknown or the nonce or ciphertext length does not fit it
+ */
+export function encodeEnvelope(message: EncryptionResult, algorithm: number = ENVELOPE_ALG_AES_256_GCM): Uint8Array {
+  const { nonceLength, tagLength } = algorithmParams(algorithm);
+  const epoch = message.epoch ?? 0;
+  const additionalData = message.additionalData ?? new Uint8Array(0);
+
+  if (message.nonce.length !== nonceLength) {
+    throw new EncodingError(`Invalid nonce length for algorithm ${algorithm}: ${message.nonce.length}`);
+  }
+  if (message.ciphertext.length < tagLength) {
+    throw new EncodingError('Envelope ciphertext too short');
+  }
+
+  return concatBytes(
+    new Uint8Array([ENVELOPE_MAGIC | ENVELOPE_VERSION, algorithm]),
+    uint32ToBytes(epoch),
+    message.nonce,
+    uint32ToBytes(additionalData.length),
+    additionalData,
+    message.ciphertext
+  );
+}
+
+/**
+ * Parse a binary envelope. Every length is checked before it is used.
+ * @param data Bytes produced by encodeEnvelope()
+ * @returns Envelope
+ * @throws {EncodingError} If the envelope is malformed
+ */
+export function decodeEnvelope(data: Uint8Array): Envelope {
+  if (data.length < FIXED_HEADER_LENGTH) {
+    throw new EncodingError('Envelope too short');
+  }
+  if ((data[0]! & 0xf0) !== ENVELOPE_MAGIC) {
+    throw new EncodingError('Invalid envelope magic');
+  }
+  if ((data[0]! & 0x0f) !== ENVELOPE_VERSION) {
+    throw new EncodingError(`Unsupported envelope version: ${data[0]! & 0x0f}`);
+  }
+
+  const algorithm = data[1]!;
+  const { nonceLength, tagLength } = algorithmParams(algorithm);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let offset = FIXED_HEADER_LENGTH;
+  if (data.length < offset + nonceLength + AAD_LENGTH_LENGTH) {
+    throw new EncodingError('Envelope too short');
+  }
+  const nonce = data.slice(offset, offset + nonceLength);
+  offset += nonceLength;
+
+  const aadLength = view.getUint32(offset);
+  offset += AAD_LENGTH_LENGTH;
+  if (aadLength > data.length - offset) {
+    throw new EncodingError('Envelope AAD length exceeds data');
+  }
+  const additionalData = data.slice(offset, offset + aadLength);
+  offset += aadLength;
+
+  if (data.length - offset < tagLength) {
+    throw new EncodingError('Envelope ciphertext too short');
+  }
+
+  const envelope: Envelope = {
+    algorithm,
+    epoch: view.getUint32(2),
+    nonce,
+    ciphertext: data.slice(offset),
+  };
+  if (aadLength > 0) {
+    envelope.additionalData = additionalData;
+  }
+  return envelope;
+}
+
+/**
+ * Encode an envelope as a base64url string, e.g. for URLs or text-only transports
+ * @param message Output of encrypt() or RecordLayer.seal()
+ * @param algorithm Algorithm the message was encrypted with
+ * @returns string
+ */
+export function envelopeToBase64Url(message: EncryptionResult, algorithm: number = ENVELOPE_ALG_AES_256_GCM): string {
+  return byteArrayToBase64Url(encodeEnvelope(message, algorithm));
+}
+
+/**
+ * Parse a base64url envelope
+ * @param encoded String produced by envelopeToBase64Url()
+ * @returns Envelope
+ * @throws {EncodingError} If the string is not base64url or the envelope is malformed
+ */
+export function envelopeFromBase64Url(encoded: string): Envelope {
+  return decodeEnvelope(base64UrlToByteArr(encoded));
+}
+
+/**
+ * JSON form of an envelope, with binary fields in base64url
+ * @param message Output of encrypt() or RecordLayer.seal()
+ * @param algorithm Algorithm the message was encrypted with
+ * @returns string
+ */
+export function envelopeToJson(message: EncryptionResult, algorithm: number = ENVELOPE_ALG_AES_256_GCM): string {
+  // Go through the binary form so both encodings enforce the same rules
+  const envelope = decodeEnvelope(encodeEnvelope(message, algorithm));
+  const json: EnvelopeJson = {
+    v: ENVELOPE_VERSION,
+    alg: envelope.algorithm,
+    epoch: envelope.epoch,
+    nonce: byteArrayToBase64Url(envelope.nonce),
+    ct: byteArrayToBase64Url(envelope.ciphertext),
+  };
+  if (envelope.additionalData) {
+    json.aad = byteArrayToBase64Url(envelope.additionalData);
+  }
+  return JSON.stringify(json);
+}
+
+/**
+ * Parse the JSON form of an envelope
+ * @param json String produced by envelopeToJson()
+ * @returns Envelope
+ * @throws {EncodingError} If the JSON or the envelope it describes is malformed
+ */
+export function envelopeFromJson(json: string): Envelope {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new EncodingError('Invalid envelope JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.alg !== 'number' || typeof parsed.epoch !== 'number'
+    || typeof parsed.nonce !== 'string' || typeof parsed.ct !== 'string'
+    || (parsed.aad !== undefined && typeof parsed.aad !== 'string')) {
+    throw new EncodingError('Invalid envelope JSON');
+  }
+  if (parsed.v !== ENVELOPE_VERSION) {
+    throw new EncodingError(`Unsupported envelope version: ${parsed.v}`);
+  }
+  if (!Number.isInteger(parsed.alg) || parsed.alg < 0 || parsed.alg > 0xff) {
+    throw new EncodingError(`Unknown envelope algorithm: ${parsed.alg}`);
+  }
+  if (!Number.isInteger(parsed.epoch) || parsed.epoch < 0 || parsed.epoch > 0xffffffff) {
+    throw new EncodingError('Invalid envelope JSON');
+  }
+
+  const message: EncryptionResult = {
+    epoch: parsed.epoch,
+    nonce: base64UrlToByteArr(parsed.nonce),
+    ciphertext: base64UrlToByteArr(parsed.ct),
+  };
+  if (parsed.aad !== undefined) {
+    message.additionalData = base64UrlToByteArr(parsed.aad);
+  }
+  return decodeEnvelope(encodeEnvelope(message, parsed.alg));
+}
+
+function algorithmParams(algorithm: number): { nonceLength: number; tagLength: number } {
+  const params = ALGORITHMS[algorithm];
+  if (!params) {
+    throw new EncodingError(`Unknown envelope algorithm: ${algorithm}`);
+  }
+  return params;
+}
@@ -0,0 +1,416 @@
+import { CipherSuite, DEFAULT_CIPHER_SUITE, DEFAULT_CIPHER_SUITES, getCipherSuite, negotiateCipherSuite } from './CipherSuite';
+import { AuthenticationFailedError, EncodingError, InvalidStateError } from './errors';
+import { KeyExchange } from './KeyExchange';
+import { Signature } from './Signature';
+import { byteArrayToBase64, base64StringToByteArr, concatBytes } from './helpers';
+
+export const HANDSHAKE_VERSION = 1;
+
+export type HandshakeMessageType = 'client_hello' | 'server_hello';
+export type HandshakeEncoding = 'binary' | 'json';
+export type HandshakeFrame = Uint8Array | string;
+export type HandshakeState = 'idle' | 'awaiting_client_hello' | 'awaiting_server_hello' | 'complete' | 'failed';
+
+export interface HandshakeMessage {
+  type: HandshakeMessageType;
+  version: number;
+  publicKey: Uint8Array;
+  cipherSuites?: number[]; // Suite IDs offered (client_hello) or the one selected (server_hello)
+  signature?: Uint8Array; // Ed25519 signature over the transcript (authenticated handshakes)
+}
+
+export interface HandshakeOptions {
+  encoding?: HandshakeEncoding;
+  signature?: Signature; // Our identity; when set, our hello is signed
+  peerIdentityKey?: string | Uint8Array; // Pinned peer Ed25519 public key; when set, the peer's hello must be signed by it
+  cipherSuites?: number[]; // Suites we accept, most preferred first (default DEFAULT_CIPHER_SUITES)
+}
+
+const MESSAGE_TYPE_IDS: Record<HandshakeMessageType, number> = {
+  client_hello: 1,
+  server_hello: 2,
+};
+
+// version (1) + type (1) + public key length (2)
+const HEADER_LENGTH = 4;
+const SIGNATURE_LENGTH_BYTES = 2;
+// Set on the type byte when a cipher suite list follows the public key; peers from before
+// negotiation existed never set it, and get answered without one
+const CIPHER_SUITES_FLAG = 0x80;
+const MAX_CIPHER_SUITES = 0xFF;
+
+// Domain separation for the signed transcripts
+const CLIENT_HELLO_LABEL = new TextEncoder().encode('secure-channel client_hello');
+const SERVER_HELLO_LABEL = new TextEncoder().encode('secure-channel server_hello');
+
+/**
+ * Serialize a handshake message to its binary form
+ * Layout: version (u8) | type (u8) | public key length (u16, big-endian) | public key
+ * followed, when cipher suites are given, by: suite count (u8) | suite IDs (u16 each, big-endian)
+ * and, for signed messages, by: signature length (u16, big-endian) | signature
+ * @param message Handshake message to serialize
+ * @returns Uint8Array frame
+ * @throws {EncodingError} If a field does not fit its length prefix or the cipher suite list is invalid
+ */
+export function serializeHandshakeMessage(message: HandshakeMessage): Uint8Array {
+  if (message.publicKey.length > 0xFFFF) {
+    throw new EncodingError('Public key too long');
+  }
+  if (message.signature && message.signature.length > 0xFFFF) {
+    throw new EncodingError('Signature too long');
+  }
+  const suites = message.cipherSuites ? checkCipherSuiteList(message.cipherSuites) : null;
+
+  const suitesLength = suites ? 1 + 2 * suites.length : 0;
+  const signatureLength = message.signature ? SIGNATURE_LENGTH_BYTES + message.signature.length : 0;
+  const frame = new Uint8Array(HEADER_LENGTH + message.publicKey.length + suitesLength + signatureLength);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, message.version);
+  view.setUint8(1, MESSAGE_TYPE_IDS[message.type] | (suites ? CIPHER_SUITES_FLAG : 0));
+  view.setUint16(2, message.publicKey.length, false); // big-endian
+  frame.set(message.publicKey, HEADER_LENGTH);
+
+  let offset = HEADER_LENGTH + message.publicKey.length;
+  if (suites) {
+    view.setUint8(offset++, suites.length);
+    for (const id of suites) {
+      view.setUint16(offset, id, false);
+      offset += 2;
+    }
+  }
+
+  if (message.signature) {
+    view.setUint16(offset, message.signature.length, false);
+    frame.set(message.signature, offset + SIGNATURE_LENGTH_BYTES);
+  }
+  return frame;
+}
+
+/**
+ * Parse a binary handshake message
+ * @param frame Bytes produced by serializeHandshakeMessage()
+ * @returns HandshakeMessage
+ * @throws {EncodingError} If the frame is malformed or uses an unsupported version
+ */
+export function parseHandshakeMessage(frame: Uint8Array): HandshakeMessage {
+  if (frame.length < HEADER_LENGTH) {
+    throw new EncodingError(`Handshake message too short: ${frame.length} bytes`);
+  }
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const version = view.getUint8(0);
+  const typeByte = view.getUint8(1);
+  const type = messageTypeFromId(typeByte & ~CIPHER_SUITES_FLAG);
+  const keyLength = view.getUint16(2, false);
+  const keyEnd = HEADER_LENGTH + keyLength;
+
+  if (frame.length < keyEnd) {
+    throw new EncodingError(`Handshake message length mismatch: expected ${keyEnd} bytes, got ${frame.length}`);
+  }
+
+  const message: HandshakeMessage = {
+    type,
+    version,
+    publicKey: frame.slice(HEADER_LENGTH, keyEnd),
+  };
+
+  let offset = keyEnd;
+  if (typeByte & CIPHER_SUITES_FLAG) {
+    if (frame.length < offset + 1) {
+      throw new EncodingError(`Handshake message length mismatch: expected ${offset + 1} bytes, got ${frame.length}`);
+    }
+    const suitesEnd = offset + 1 + 2 * view.getUint8(offset);
+    if (frame.length < suitesEnd) {
+      throw new EncodingError(`Handshake message length mismatch: expected ${suitesEnd} bytes, got ${frame.length}`);
+    }
+    message.cipherSuites = [];
+    for (offset++; offset < suitesEnd; offset += 2) {
+      message.cipherSuites.push(view.getUint16(offset, false));
+    }
+  }
+
+  if (frame.length > offset) {
+    const signatureStart = offset + SIGNATURE_LENGTH_BYTES;
+    if (frame.length < signatureStart) {
+      throw new EncodingError(`Handshake message length mismatch: expected ${signatureStart} bytes, got ${frame.length}`);
+    }
+    const signatureEnd = signatureStart + view.getUint16(offset, false);
+    if (frame.length !== signatureEnd) {
+      throw new EncodingError(`Handshake message length mismatch: expected ${signatureEnd} bytes, got ${frame.length}`);
+    }
+    message.signature = frame.slice(signatureStart);
+  }
+
+  return checkMessage(message);
+}
+
+/**
+ * Serialize a handshake message to JSON, with the public key in base64
+ * @param message Handshake message to serialize
+ * @returns JSON string
+ */
+export function handshakeMessageToJson(message: HandshakeMessage): string {
+  return JSON.stringify({
+    v: message.version,
+    type: message.type,
+    publicKey: byteArrayToBase64(message.publicKey),
+    ...(message.cipherSuites ? { suites: message.cipherSuites } : {}),
+    ...(message.signature ? { signature: byteArrayToBase64(message.signature) } : {}),
+  });
+}
+
+/**
+ * Parse a JSON handshake message
+ * @param json String produced by handshakeMessageToJson()
+ * @returns HandshakeMessage
+ * @throws {EncodingError} If the JSON is malformed or uses an unsupported version
+ */
+export function handshakeMessageFromJson(json: string): HandshakeMessage {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new EncodingError('Invalid handshake JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.v !== 'number' || typeof parsed.publicKey !== 'string') {
+    throw new EncodingError('Invalid handshake JSON');
+  }
+  if (parsed.signature !== undefined && typeof parsed.signature !== 'string') {
+    throw new EncodingError('Invalid handshake JSON');
+  }
+  if (parsed.suites !== undefined && !Array.isArray(parsed.suites)) {
+    throw new EncodingError('Invalid handshake JSON');
+  }
+  if (!Object.prototype.hasOwnProperty.call(MESSAGE_TYPE_IDS, parsed.type)) {
+    throw new EncodingError(`Unknown handshake message type: ${parsed.type}`);
+  }
+
+  const message: HandshakeMessage = {
+    type: parsed.type,
+    version: parsed.v,
+    publicKey: base64StringToByteArr(parsed.publicKey),
+  };
+  if (parsed.suites !== undefined) {
+    message.cipherSuites = parsed.suites;
+  }
+  if (parsed.signature !== undefined) {
+    message.signature = base64StringToByteArr(parsed.signature);
+  }
+  return checkMessage(message);
+}
+
+/**
+ * Encode a handshake message as a binary or JSON frame
+ * @param message Handshake message to encode
+ * @param encoding 'binary' (default) or 'json'
+ * @returns HandshakeFrame
+ */
+export function encodeHandshakeMessage(message: HandshakeMessage, encoding: HandshakeEncoding = 'binary'): HandshakeFrame {
+  return encoding === 'json' ? handshakeMessageToJson(message) : serializeHandshakeMessage(message);
+}
+
+/**
+ * Decode a binary or JSON frame, choosing the parser by the frame's type
+ * @param frame Uint8Array (binary) or string (JSON)
+ * @returns HandshakeMessage
+ */
+export function decodeHandshakeMessage(frame: HandshakeFrame): HandshakeMessage {
+  return typeof frame === 'string' ? handshakeMessageFromJson(frame) : parseHandshakeMessage(frame);
+}
+
+/**
+ * Handshake state machine on top of a KeyExchange session.
+ * The client calls start() and sends the frame; each side passes what it receives to receive()
+ * and sends back whatever it returns, until isComplete() is true.
+ *
+ * With a `signature` option our hello is signed with that Ed25519 identity; with a `peerIdentityKey`
+ * option the peer's hello must carry a valid signature from that pinned key, checked before any
+ * TX/RX keys are installed. The ServerHello signature also covers the ClientHello.
+ *
+ * The ClientHello lists the cipher suites the client accepts; the server picks the first of its own
+ * suites that the client offers and names it in the ServerHello. A ClientHello without a list
+ * (clients from before negotiation existed) gets the default suite and a ServerHello without one.
+ */
+export class Handshake {
+  private currentState: HandshakeState;
+  private readonly encoding: HandshakeEncoding;
+  private readonly signature: Signature | null;
+  private readonly peerIdentityKey: Uint8Array | null;
+  private readonly cipherSuites: readonly number[];
+  private negotiated: CipherSuite | null = null;
+  private clientHello: Uint8Array | null = null; // unsigned ClientHello, part of the server's transcript
+
+  constructor(private readonly keyExchange: KeyExchange, options: HandshakeOptions = {}) {
+    this.encoding = options.encoding ?? 'binary';
+    this.signature = options.signature ?? null;
+    this.peerIdentityKey = typeof options.peerIdentityKey === 'string'
+      ? base64StringToByteArr(options.peerIdentityKey)
+      : options.peerIdentityKey ?? null;
+    this.cipherSuites = checkCipherSuiteList(options.cipherSuites ?? DEFAULT_CIPHER_SUITES);
+    this.cipherSuites.forEach(getCipherSuite); // Throws on suites we cannot use
+    this.currentState = keyExchange.role === 'client' ? 'idle' : 'awaiting_client_hello';
+  }
+
+  /**
+   * Current state of the handshake
+   */
+  public get state(): HandshakeState {
+    return this.currentState;
+  }
+
+  /**
+   * Cipher suite agreed with the peer, or null until the handshake completes
+   */
+  public get cipherSuite(): CipherSuite | null {
+    return this.negotiated;
+  }
+
+  /**
+   * @returns boolean indicating if TX/RX keys are installed on the KeyExchange session
+   */
+  public isComplete(): boolean {
+    return this.currentState === 'complete';
+  }
+
+  /**
+   * Start the handshake (client role)
+   * @returns Promise<HandshakeFrame> ClientHello to send to the server
+   * @throws {InvalidStateError} If called in the server role or after the handshake has started
+   */
+  public async start(): Promise<HandshakeFrame> {
+    if (this.keyExchange.role !== 'client') {
+      throw new InvalidStateError('Only the client can start the handshake');
+    }
+    if (this.currentState !== 'idle') {
+      throw new InvalidStateError(`Cannot start handshake in state: ${this.currentState}`);
+    }
+
+    const hello: HandshakeMessage = {
+      type: 'client_hello',
+      version: HANDSHAKE_VERSION,
+      publicKey: base64StringToByteArr(await this.keyExchange.generateKeyPair()),
+      cipherSuites: [...this.cipherSuites],
+    };
+    this.clientHello = serializeHandshakeMessage(hello);
+    await this.signMessage(hello, concatBytes(CLIENT_HELLO_LABEL, this.clientHello));
+    this.currentState = 'awaiting_server_hello';
+
+    return encodeHandshakeMessage(hello, this.encoding);
+  }
+
+  /**
+   * Process a frame received from the peer
+   * @param frame ClientHello (server role) or ServerHello (client role)
+   * @returns Promise<HandshakeFrame | null> Frame to send back, or null when nothing needs to be sent
+   * @throws {EncodingError} If the frame is malformed or selects a cipher suite we did not offer
+   * @throws {InvalidStateError} If the message is not expected in the current state
+   * @throws {AuthenticationFailedError} If the peer's signature is missing or invalid
+   */
+  public async receive(frame: HandshakeFrame): Promise<HandshakeFrame | null> {
+    try {
+      const message = decodeHandshakeMessage(frame);
+
+      if (this.currentState === 'awaiting_client_hello' && message.type === 'client_hello') {
+        return await this.handleClientHello(message);
+      }
+      if (this.currentState === 'awaiting_server_hello' && message.type === 'server_hello') {
+        await this.verifyMessage(message, concatBytes(SERVER_HELLO_LABEL, this.clientHello!, unsigned(message)));
+        const suite = this.selectedSuite(message);
+        await this.keyExchange.deriveKeys(byteArrayToBase64(message.publicKey), suite.id);
+        this.negotiated = suite;
+        this.currentState = 'complete';
+        return null;
+      }
+
+      throw new InvalidStateError(`Unexpected ${message.type} in state: ${this.currentState}`);
+    } catch (error) {
+      // A stray frame after completion does not invalidate the installed keys
+      if (this.currentState !== 'complete') this.currentState = 'failed';
+      throw error;
+    }
+  }
+
+  private async handleClientHello(message: HandshakeMessage): Promise<HandshakeFrame> {
+    this.clientHello = unsigned(message);
+    await this.verifyMessage(message, concatBytes(CLIENT_HELLO_LABEL, this.clientHello));
+    const suite = negotiateCipherSuite(message.cipherSuites ?? [DEFAULT_CIPHER_SUITE], this.cipherSuites);
+
+    const hello: HandshakeMessage = {
+      type: 'server_hello',
+      version: HANDSHAKE_VERSION,
+      publicKey: base64StringToByteArr(await this.keyExchange.generateKeyPair()),
+      ...(message.cipherSuites ? { cipherSuites: [suite.id] } : {}),
+    };
+    await this.signMessage(hello, concatBytes(SERVER_HELLO_LABEL, this.clientHello, serializeHandshakeMessage(hello)));
+    await this.keyExchange.deriveKeys(byteArrayToBase64(message.publicKey), suite.id);
+    this.negotiated = suite;
+    this.currentState = 'complete';
+
+    return encodeHandshakeMessage(hello, this.encoding);
+  }
+
+  // A server without negotiation support answers without a list, which means the default suite
+  private selectedSuite(message: HandshakeMessage): CipherSuite {
+    const selected = message.cipherSuites ?? [DEFAULT_CIPHER_SUITE];
+    if (selected.length !== 1 || !this.cipherSuites.includes(selected[0]!)) {
+      throw new EncodingError(`Server selected a cipher suite we did not offer: ${selected.join(', ')}`);
+    }
+    return getCipherSuite(selected[0]!);
+  }
+
+  private async signMessage(message: HandshakeMessage, transcript: Uint8Array): Promise<void> {
+    if (this.signature) {
+      message.signature = await this.signature.sign(transcript);
+    }
+  }
+
+  private async verifyMessage(message: HandshakeMessage, transcript: Uint8Array): Promise<void> {
+    if (!this.peerIdentityKey) return;
+    if (!message.signature) {
+      throw new AuthenticationFailedError(`Missing signature on ${message.type}`);
+    }
+
+    const verifier = this.signature ?? await Signature.getInstance();
+    const isValid = await verifier.verifyWithKey(this.peerIdentityKey, message.signature, transcript);
+    if (!isValid) {
+      throw new AuthenticationFailedError(`Invalid signature on ${message.type}`);
+    }
+  }
+}
+
+function unsigned(message: HandshakeMessage): Uint8Array {
+  const { signature, ...rest } = message;
+  return serializeHandshakeMessage(rest);
+}
+
+function checkCipherSuiteList(suites: readonly number[]): readonly number[] {
+  if (suites.length === 0 || suites.length > MAX_CIPHER_SUITES) {
+    throw new EncodingError(`Cipher suite list must have 1 to ${MAX_CIPHER_SUITES} entries`);
+  }
+  if (!suites.every(id => Number.isInteger(id) && id >= 0 && id <= 0xFFFF)) {
+    throw new EncodingError('Invalid cipher suite ID');
+  }
+  return suites;
+}
+
+function messageTypeFromId(id: number): HandshakeMessageType {
+  const entry = Object.entries(MESSAGE_TYPE_IDS).find(([, value]) => value === id);
+  if (!entry) {
+    throw new EncodingError(`Unknown handshake message type: ${id}`);
+  }
+  return entry[0] as HandshakeMessageType;
+}
+
+function checkMessage(message: HandshakeMessage): HandshakeMessage {
+  if (message.version !== HANDSHAKE_VERSION) {
+    throw new EncodingError(`Unsupported handshake version: ${message.version}`);
+  }
+  if (message.publicKey.length !== 32) {
+    throw new EncodingError(`Invalid X25519 public key length: ${message.publicKey.length}`);
+  }
+  if (message.cipherSuites) {
+    checkCipherSuiteList(message.cipherSuites);
+  }
+  return message;
+}
@@ -0,0 +1,405 @@
+import { AuthenticationFailedError, InvalidKeyError } from './errors';
+import { base64UrlToByteArr, concatBytes, getSubtleCrypto } from './helpers';
+import { CryptoKey, CryptoKeyPair, SubtleCrypto } from './types';
+
+// RFC 9180 algorithm identifiers
+export const HPKE_KEM_X25519_HKDF_SHA256 = 0x0020;
+export const HPKE_KDF_HKDF_SHA256 = 0x0001;
+export const HPKE_AEAD_AES_128_GCM = 0x0001;
+export const HPKE_AEAD_AES_256_GCM = 0x0002;
+export const HPKE_AEAD_EXPORT_ONLY = 0xffff;
+
+export type HpkeMode = 'base' | 'auth';
+export type HpkeAeadId = typeof HPKE_AEAD_AES_128_GCM | typeof HPKE_AEAD_AES_256_GCM | typeof HPKE_AEAD_EXPORT_ONLY;
+export type HpkeRole = 'sender' | 'recipient';
+
+export interface HpkeSenderOptions {
+  info?: Uint8Array; // Application info bound into the key schedule
+  aead?: HpkeAeadId; // Defaults to AES-256-GCM
+  senderKeyPair?: CryptoKeyPair; // Our static key pair: switches to Auth mode
+  ephemeralKeyPair?: CryptoKeyPair; // Fixed ephemeral key, only for test vectors
+}
+
+export interface HpkeRecipientOptions {
+  info?: Uint8Array;
+  aead?: HpkeAeadId;
+  senderPublicKey?: Uint8Array; // Expected sender static key: switches to Auth mode
+}
+
+export interface HpkeSealed {
+  enc: Uint8Array; // Encapsulated key (sender's ephemeral public key)
+  ciphertext: Uint8Array;
+}
+
+const MODE_IDS: Record<HpkeMode, number> = { base: 0x00, auth: 0x02 };
+const AEAD_KEY_LENGTHS: Record<HpkeAeadId, number> = {
+  [HPKE_AEAD_AES_128_GCM]: 16,
+  [HPKE_AEAD_AES_256_GCM]: 32,
+  [HPKE_AEAD_EXPORT_ONLY]: 0,
+};
+
+const HASH_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const PUBLIC_KEY_LENGTH = 32;
+const EMPTY = new Uint8Array(0);
+const VERSION_LABEL = new TextEncoder().encode('HPKE-v1');
+const KEM_SUITE_ID = concatBytes(new TextEncoder().encode('KEM'), i2osp(HPKE_KEM_X25519_HKDF_SHA256, 2));
+
+// DER prefix of a PKCS#8 X25519 private key; the 32-byte scalar follows
+const X25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20
+]);
+
+/**
+ * Encryption context established by setupSender()/setupRecipient(), RFC 9180 section 5.2.
+ * A sender context only seals and a recipient context only opens; messages must be
+ * opened in the order they were sealed.
+ */
+export class HpkeContext {
+  private sequence = 0;
+  private opening: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly subtle: SubtleCrypto,
+    public readonly role: HpkeRole,
+    private readonly suiteId: Uint8Array,
+    private readonly key: CryptoKey | null,
+    private readonly baseNonce: Uint8Array,
+    private readonly exporterSecret: Uint8Array
+  ) {}
+
+  /**
+   * Encrypt the next message
+   * @param plaintext String or Uint8Array to encrypt
+   * @param additionalData Authenticated but unencrypted data
+   * @returns Promise<Uint8Array> Ciphertext with tag
+   */
+  public async seal(plaintext: string | Uint8Array, additionalData: Uint8Array = EMPTY): Promise<Uint8Array> {
+    if (this.role !== 'sender') throw new Error('Only a sender context can seal');
+    const key = this.requireKey();
+
+    // Reserve the sequence number before awaiting, so overlapping calls never share a nonce
+    const iv = this.nextNonce();
+    this.sequence++;
+
+    const data = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+    const ciphertext = await this.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, data as any);
+    return new Uint8Array(ciphertext);
+  }
+
+  /**
+   * Decrypt the next message
+   * @param ciphertext Output of the sender's seal()
+   * @param additionalData Data passed to seal()
+   * @returns Promise<Uint8Array> Plaintext
+   * @throws {AuthenticationFailedError} If the ciphertext does not authenticate; the sequence number is not advanced
+   */
+  public open(ciphertext: Uint8Array, additionalData: Uint8Array = EMPTY): Promise<Uint8Array> {
+    // Overlapping calls are queued: each one needs the sequence number its predecessor leaves behind
+    const result = this.opening.then(() => this.openNext(ciphertext, additionalData));
+    this.opening = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Derive a secret from the context (RFC 9180 section 5.3)
+   * @param exporterContext Distinguishes independent exported secrets
+   * @param length Output length in bytes
+   * @returns Promise<Uint8Array>
+   */
+  public async export(exporterContext: Uint8Array, length: number): Promise<Uint8Array> {
+    if (!Number.isInteger(length) || length < 0 || length > 255 * HASH_LENGTH) {
+      throw new Error(`Invalid export length: ${length}`);
+    }
+    return labeledExpand(this.subtle, this.suiteId, this.exporterSecret, 'sec', exporterContext, length);
+  }
+
+  /** Number of messages sealed or opened so far */
+  public get sequenceNumber(): number {
+    return this.sequence;
+  }
+
+  private async openNext(ciphertext: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array> {
+    if (this.role !== 'recipient') throw new Error('Only a recipient context can open');
+    const key = this.requireKey();
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await this.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.nextNonce(), additionalData },
+        key,
+        ciphertext as any
+      );
+    } catch {
+      throw new AuthenticationFailedError('HPKE decryption failed');
+    }
+    this.sequence++;
+    return new Uint8Array(plaintext);
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) throw new Error('Export-only HPKE context cannot encrypt');
+    return this.key;
+  }
+
+  private nextNonce(): Uint8Array {
+    if (this.sequence >= Number.MAX_SAFE_INTEGER) throw new Error('HPKE message limit reached');
+
+    const nonce = this.baseNonce.slice();
+    const sequence = i2osp(this.sequence, NONCE_LENGTH);
+    for (let i = 0; i < NONCE_LENGTH; i++) nonce[i]! ^= sequence[i]!;
+    return nonce;
+  }
+}
+
+/**
+ * Hybrid Public Key Encryption (RFC 9180): DHKEM(X25519, HKDF-SHA256), HKDF-SHA256 and
+ * AES-128-GCM / AES-256-GCM / export-only, in Base and Auth modes.
+ */
+export class Hpke {
+  private constructor() {}
+
+  /**
+   * Generate a recipient (or Auth-mode sender) key pair
+   * @param extractable Whether the private key can be exported
+   * @returns Promise<CryptoKeyPair>
+   */
+  public static async generateKeyPair(extractable = false): Promise<CryptoKeyPair> {
+    const subtle = await getSubtleCrypto();
+    return subtle.generateKey({ name: 'X25519' }, extractable, ['deriveBits']) as Promise<CryptoKeyPair>;
+  }
+
+  /**
+   * Deterministically derive a key pair from input keying material (RFC 9180 section 7.1.3)
+   * @param ikm At least 32 bytes of secret randomness
+   * @param extractable Whether the private key can be exported
+   * @returns Promise<CryptoKeyPair>
+   */
+  public static async deriveKeyPair(ikm: Uint8Array, extractable = false): Promise<CryptoKeyPair> {
+    if (ikm.length < 32) throw new Error('Input keying material must be at least 32 bytes');
+
+    const subtle = await getSubtleCrypto();
+    const dkpPrk = await labeledExtract(subtle, KEM_SUITE_ID, EMPTY, 'dkp_prk', ikm);
+    const scalar = await labeledExpand(subtle, KEM_SUITE_ID, dkpPrk, 'sk', EMPTY, 32);
+
+    // Round-trip through an extractable key to recover the public half
+    const fullKey = await subtle.importKey(
+      'pkcs8',
+      concatBytes(X25519_PKCS8_PREFIX, scalar) as any,
+      { name: 'X25519' },
+      true,
+      ['deriveBits']
+    );
+    const jwk = await subtle.exportKey('jwk', fullKey) as any;
+
+    return {
+      privateKey: extractable ? fullKey : await subtle.importKey('jwk', jwk, { name: 'X25519' }, false, ['deriveBits']),
+      publicKey: await subtle.importKey('raw', base64UrlToByteArr(jwk.x) as any, { name: 'X25519' }, true, []),
+    };
+  }
+
+  /**
+   * Set up a sender context. Auth mode is used when options.senderKeyPair is given.
+   * @param recipientPublicKey Recipient's raw X25519 public key
+   * @param options Info, AEAD and sender key pair
+   * @returns Promise<{ enc, context }> enc must be sent to the recipient
+   * @throws {InvalidKeyError} If the recipient public key has the wrong length or is a small-order point
+   */
+  public static async setupSender(
+    recipientPublicKey: Uint8Array,
+    options: HpkeSenderOptions = {}
+  ): Promise<{ enc: Uint8Array; context: HpkeContext }> {
+    const subtle = await getSubtleCrypto();
+    checkPublicKey(recipientPublicKey);
+
+    const ephemeral = options.ephemeralKeyPair ?? await Hpke.generateKeyPair();
+    const enc = new Uint8Array(await subtle.exportKey('raw', ephemeral.publicKey));
+
+    let dh = await diffieHellman(subtle, ephemeral.privateKey, recipientPublicKey);
+    let kemContext = concatBytes(enc, recipientPublicKey);
+    if (options.senderKeyPair) {
+      const senderPublicKey = new Uint8Array(await subtle.exportKey('raw', options.senderKeyPair.publicKey));
+      dh = concatBytes(dh, await diffieHellman(subtle, options.senderKeyPair.privateKey, recipientPublicKey));
+      kemContext = concatBytes(kemContext, senderPublicKey);
+    }
+
+    const sharedSecret = await extractAndExpand(subtle, dh, kemContext);
+    const mode: HpkeMode = options.senderKeyPair ? 'auth' : 'base';
+    return { enc, context: await keySchedule(subtle, 'sender', mode, sharedSecret, options) };
+  }
+
+  /**
+   * Set up a recipient context. Auth mode is used when options.senderPublicKey is given.
+   * @param enc Encapsulated key from the sender
+   * @param recipientKeyPair Our X25519 key pair
+   * @param options Info, AEAD and expected sender public key
+   * @returns Promise<HpkeContext>
+   * @throws {InvalidKeyError} If enc or the sender public key has the wrong length or is a small-order point
+   */
+  public static async setupRecipient(
+    enc: Uint8Array,
+    recipientKeyPair: CryptoKeyPair,
+    options: HpkeRecipientOptions = {}
+  ): Promise<HpkeContext> {
+    const subtle = await getSubtleCrypto();
+    checkPublicKey(enc);
+
+    const recipientPublicKey = new Uint8Array(await subtle.exportKey('raw', recipientKeyPair.publicKey));
+    let dh = await diffieHellman(subtle, recipientKeyPair.privateKey, enc);
+    let kemContext = concatBytes(enc, recipientPublicKey);
+    if (options.senderPublicKey) {
+      checkPublicKey(options.senderPublicKey);
+      dh = concatBytes(dh, await diffieHellman(subtle, recipientKeyPair.privateKey, options.senderPublicKey));
+      kemContext = concatBytes(kemContext, options.senderPublicKey);
+    }
+
+    const sharedSecret = await extractAndExpand(subtle, dh, kemContext);
+    const mode: HpkeMode = options.senderPublicKey ? 'auth' : 'base';
+    return keySchedule(subtle, 'recipient', mode, sharedSecret, options);
+  }
+
+  /**
+   * Single-shot encryption (RFC 9180 section 6.1)
+   * @param recipientPublicKey Recipient's raw X25519 public key
+   * @param plaintext Data to encrypt
+   * @param additionalData Authenticated but unencrypted data
+   * @param options Info, AEAD and sender key pair
+   * @returns Promise<HpkeSealed>
+   */
+  public static async seal(
+    recipientPublicKey: Uint8Array,
+    plaintext: string | Uint8Array,
+    additionalData?: Uint8Array,
+    options: HpkeSenderOptions = {}
+  ): Promise<HpkeSealed> {
+    const { enc, context } = await Hpke.setupSender(recipientPublicKey, options);
+    return { enc, ciphertext: await context.seal(plaintext, additionalData) };
+  }
+
+  /**
+   * Single-shot decryption
+   * @param sealed Output of seal()
+   * @param recipientKeyPair Our X25519 key pair
+   * @param additionalData Data passed to seal()
+   * @param options Info, AEAD and expected sender public key
+   * @returns Promise<Uint8Array> Plaintext
+   * @throws {InvalidKeyError} If enc or the sender public key is invalid
+   * @throws {AuthenticationFailedError} If the ciphertext does not authenticate
+   */
+  public static async open(
+    sealed: HpkeSealed,
+    recipientKeyPair: CryptoKeyPair,
+    additionalData?: Uint8Array,
+    options: HpkeRecipientOptions = {}
+  ): Promise<Uint8Array> {
+    const context = await Hpke.setupRecipient(sealed.enc, recipientKeyPair, options);
+    return context.open(sealed.ciphertext, additionalData);
+  }
+}
+
+async function keySchedule(
+  subtle: SubtleCrypto,
+  role: HpkeRole,
+  mode: HpkeMode,
+  sharedSecret: Uint8Array,
+  options: { info?: Uint8Array; aead?: HpkeAeadId }
+): Promise<HpkeContext> {
+  const aead = options.aead ?? HPKE_AEAD_AES_256_GCM;
+  const keyLength = AEAD_KEY_LENGTHS[aead];
+  if (keyLength === undefined) throw new Error(`Unsupported HPKE AEAD: ${aead}`);
+
+  const suiteId = concatBytes(
+    new TextEncoder().encode('HPKE'),
+    i2osp(HPKE_KEM_X25519_HKDF_SHA256, 2),
+    i2osp(HPKE_KDF_HKDF_SHA256, 2),
+    i2osp(aead, 2)
+  );
+
+  // No PSK modes, so psk and psk_id are empty
+  const pskIdHash = await labeledExtract(subtle, suiteId, EMPTY, 'psk_id_hash', EMPTY);
+  const infoHash = await labeledExtract(subtle, suiteId, EMPTY, 'info_hash', options.info ?? EMPTY);
+  const context = concatBytes(new Uint8Array([MODE_IDS[mode]]), pskIdHash, infoHash);
+  const secret = await labeledExtract(subtle, suiteId, sharedSecret, 'secret', EMPTY);
+
+  let key: CryptoKey | null = null;
+  let baseNonce: Uint8Array = EMPTY;
+  if (aead !== HPKE_AEAD_EXPORT_ONLY) {
+    const rawKey = await labeledExpand(subtle, suiteId, secret, 'key', context, keyLength);
+    key = await subtle.importKey('raw', rawKey as any, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    baseNonce = await labeledExpand(subtle, suiteId, secret, 'base_nonce', context, NONCE_LENGTH);
+  }
+  const exporterSecret = await labeledExpand(subtle, suiteId, secret, 'exp', context, HASH_LENGTH);
+
+  return new HpkeContext(subtle, role, suiteId, key, baseNonce, exporterSecret);
+}
+
+async function extractAndExpand(subtle: SubtleCrypto, dh: Uint8Array, kemContext: Uint8Array): Promise<Uint8Array> {
+  const eaePrk = await labeledExtract(subtle, KEM_SUITE_ID, EMPTY, 'eae_prk', dh);
+  return labeledExpand(subtle, KEM_SUITE_ID, eaePrk, 'shared_secret', kemContext, HASH_LENGTH);
+}
+
+async function diffieHellman(subtle: SubtleCrypto, privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> {
+  let dh: Uint8Array;
+  try {
+    const peerKey = await subtle.importKey('raw', publicKey as any, { name: 'X25519' }, false, []);
+    dh = new Uint8Array(await subtle.deriveBits({ name: 'X25519', public: peerKey }, privateKey, 256));
+  } catch {
+    throw new InvalidKeyError('Invalid X25519 public key');
+  }
+
+  // RFC 9180 section 7.1.4: reject the all-zero output of small-order points
+  if (dh.every(byte => byte === 0)) throw new InvalidKeyError('Invalid X25519 public key');
+  return dh;
+}
+
+function checkPublicKey(publicKey: Uint8Array): void {
+  if (publicKey.length !== PUBLIC_KEY_LENGTH) {
+    throw new InvalidKeyError(`Invalid X25519 public key length: ${publicKey.length}`);
+  }
+}
+
+async function labeledExtract(
+  subtle: SubtleCrypto,
+  suiteId: Uint8Array,
+  salt: Uint8Array,
+  label: string,
+  ikm: Uint8Array
+): Promise<Uint8Array> {
+  return hmac(subtle, salt, concatBytes(VERSION_LABEL, suiteId, new TextEncoder().encode(label), ikm));
+}
+
+async function labeledExpand(
+  subtle: SubtleCrypto,
+  suiteId: Uint8Array,
+  prk: Uint8Array,
+  label: string,
+  info: Uint8Array,
+  length: number
+): Promise<Uint8Array> {
+  const labeledInfo = concatBytes(i2osp(length, 2), VERSION_LABEL, suiteId, new TextEncoder().encode(label), info);
+
+  // HKDF-Expand (RFC 5869); WebCrypto's HKDF cannot take a ready-made PRK
+  const output = new Uint8Array(length);
+  let block: Uint8Array = EMPTY;
+  for (let offset = 0, counter = 1; offset < length; offset += HASH_LENGTH, counter++) {
+    block = await hmac(subtle, prk, concatBytes(block, labeledInfo, new Uint8Array([counter])));
+    output.set(block.subarray(0, Math.min(HASH_LENGTH, length - offset)), offset);
+  }
+  return output;
+}
+
+async function hmac(subtle: SubtleCrypto, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  // An empty HKDF salt means HashLen zero bytes; some runtimes reject zero-length HMAC keys
+  const keyBytes = key.length === 0 ? new Uint8Array(HASH_LENGTH) : key;
+  const hmacKey = await subtle.importKey('raw', keyBytes as any, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await subtle.sign('HMAC', hmacKey, data as any));
+}
+
+function i2osp(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, remaining = value; i >= 0 && remaining > 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
@@ -1,20 +1,47 @@
-import { byteArrayToBase64, generateRandomBytes, EncryptionResult } from './helpers';
-import { CryptoKey, CryptoKeyPair, SubtleCrypto } from './types';
+import { AeadKey, CipherSuite, DEFAULT_CIPHER_SUITE, getCipherSuite, importAeadKey } from './CipherSuite';
+import { AuthenticationFailedError, EncodingError, InvalidKeyError, InvalidStateError, NotInitializedError } from './errors';
+import { byteArrayToBase64, base64StringToByteArr, concatBytes, generateRandomBytes, getSubtleCrypto, EncryptionResult } from './helpers';
+import {
+  CryptoKey,
+  CryptoKeyPair,
+  KeyExchangeRole,
+  KeyExchangeSessionOptions,
+  KeyExchangeState,
+  SubtleCrypto
+} from './types';
+
+// Upper bound on RX epochs skipped in one step, so a single record cannot trigger unbounded work
+const MAX_EPOCH_SKIP = 16;
+const MAX_EPOCH = 0xffffffff; // Epochs travel as uint32
+const SECRET_LENGTH = 32;
 
 /**
  * Cross-platform key exchange client for secure communication
- * Uses X25519 for key exchange, HKDF for key derivation, and AES-GCM for encryption
+ * Uses X25519 for key exchange, HKDF for key derivation, and the negotiated cipher suite's
+ * AEAD for encryption (AES-256-GCM with HKDF-SHA256 unless another suite is negotiated)
  */
 export class KeyExchange {
   private static instance: KeyExchange | null = null;
   private static initialized = false;
+  private static sessions = new Map<string, KeyExchange>();
+  private static pendingSessions = new Set<string>(); // Peer ids whose createSession() is still initializing
 
   private subtle: SubtleCrypto | null = null;
   private keypair: CryptoKeyPair | null = null;
-  private txKey: CryptoKey | null = null; // Transmit key (encrypt)
-  private rxKey: CryptoKey | null = null; // Receive key (decrypt)
+  private suite: CipherSuite = getCipherSuite(DEFAULT_CIPHER_SUITE);
+  private txKey: AeadKey | null = null; // Transmit key (encrypt)
+  private rxKey: AeadKey | null = null; // Receive key (decrypt)
+  private txSecret: Uint8Array | null = null; // Key material behind txKey, input to the next rekey
+  private rxSecret: Uint8Array | null = null; // Key material behind rxKey, input to the next rekey
+  private txEpochValue = 0;
+  private rxEpochValue = 0;
+  private exportable = false;
+  private rxQueue: Promise<unknown> = Promise.resolve(); // Serializes decryptAtEpoch()
 
-  private constructor() {}
+  private constructor(
+    public readonly peerId: string | null = null,
+    public readonly role: KeyExchangeRole = 'client'
+  ) {}
 
   /**
    * Get singleton instance of KeyExchange
@@ -30,63 +57,253 @@ export class KeyExchange {
   }
 
   /**
-   * Generate encryption keys using server's public key
+   * Create an isolated session for a peer, with its own keypair and TX/RX keys
+   * @param peerId Identifier of the peer this session talks to
+   * @param role Our side of the exchange, 'client' (initiator) or 'server' (responder)
+   * @param options Session options, e.g. { exportable: true } to allow exportState()
+   * @returns Promise<KeyExchange> The new session
+   * @throws {InvalidStateError} If a session already exists for peerId
+   */
+  public static async createSession(
+    peerId: string,
+    role: KeyExchangeRole = 'client',
+    options: KeyExchangeSessionOptions = {}
+  ): Promise<KeyExchange> {
+    if (this.sessions.has(peerId) || this.pendingSessions.has(peerId)) {
+      throw new InvalidStateError(`Session already exists for peer: ${peerId}`);
+    }
+
+    // Claim the peer id before awaiting, so concurrent calls for the same peer cannot both succeed
+    this.pendingSessions.add(peerId);
+    try {
+      const session = new KeyExchange(peerId, role);
+      session.exportable = options.exportable ?? false;
+      await session.init();
+      this.sessions.set(peerId, session);
+      return session;
+    } finally {
+      this.pendingSessions.delete(peerId);
+    }
+  }
+
+  /**
+   * Recreate a session from exportState(), without a new handshake.
+   * The restored session stays exportable.
+   * @param state State produced by exportState()
+   * @returns Promise<KeyExchange> The restored session
+   * @throws {EncodingError} If a field of the state is missing or out of range
+   * @throws {InvalidStateError} If a session already exists for the peer id
+   */
+  public static async restoreSession(state: KeyExchangeState): Promise<KeyExchange> {
+    // Validate everything up front, so a corrupted state fails here rather than half-works later
+    if (!state || typeof state !== 'object' || typeof state.peerId !== 'string' || state.peerId === '') {
+      throw new EncodingError('Invalid session state: peerId');
+    }
+    if (state.role !== 'client' && state.role !== 'server') {
+      throw new EncodingError(`Invalid session state: role ${String(state.role)}`);
+    }
+    for (const field of ['txEpoch', 'rxEpoch'] as const) {
+      if (!Number.isInteger(state[field]) || state[field] < 0 || state[field] > MAX_EPOCH) {
+        throw new EncodingError(`Invalid session state: ${field}`);
+      }
+    }
+    let suite: CipherSuite;
+    try {
+      suite = getCipherSuite(state.cipherSuite ?? DEFAULT_CIPHER_SUITE);
+    } catch {
+      throw new EncodingError(`Invalid session state: cipherSuite ${String(state.cipherSuite)}`);
+    }
+    const txSecret = decodeSecret(state.txSecret, 'txSecret');
+    const rxSecret = decodeSecret(state.rxSecret, 'rxSecret');
+
+    const session = await this.createSession(state.peerId, state.role, { exportable: true });
+    try {
+      session.suite = suite;
+      session.txSecret = txSecret;
+      session.rxSecret = rxSecret;
+      session.txKey = await session.importAes(session.txSecret);
+      session.rxKey = await session.importAes(session.rxSecret);
+      session.txEpochValue = state.txEpoch;
+      session.rxEpochValue = state.rxEpoch;
+    } catch (error) {
+      this.closeSession(state.peerId);
+      throw error;
+    }
+    return session;
+  }
+
+  /**
+   * Get an existing session
+   * @param peerId Identifier of the peer
+   * @returns The session, or undefined if none exists
+   */
+  public static getSession(peerId: string): KeyExchange | undefined {
+    return this.sessions.get(peerId);
+  }
+
+  /**
+   * Destroy a session's keys and remove it
+   * @param peerId Identifier of the peer
+   * @returns boolean indicating if a session was closed
+   */
+  public static closeSession(peerId: string): boolean {
+    const session = this.sessions.get(peerId);
+    if (!session) return false;
+
+    session.destroy();
+    return this.sessions.delete(peerId);
+  }
+
+  /**
+   * List the peers that currently have a session
+   * @returns Array of peer identifiers
+   */
+  public static listSessions(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Drop the keypair and TX/RX keys held by this instance
+   */
+  public destroy(): void {
+    this.keypair = null;
+    this.txKey = null;
+    this.rxKey = null;
+    this.txSecret?.fill(0);
+    this.rxSecret?.fill(0);
+    this.txSecret = null;
+    this.rxSecret = null;
+  }
+
+  /**
+   * Export the session's TX/RX key material and epochs so it can be resumed later.
+   * Only available on sessions created with { exportable: true }.
+   * @returns KeyExchangeState Secret state; store it encrypted
+   * @throws {InvalidStateError} If the session is not exportable
+   */
+  public exportState(): KeyExchangeState {
+    if (!this.exportable || this.peerId === null) {
+      throw new InvalidStateError('Session is not exportable. Create it with { exportable: true }.');
+    }
+    if (!this.txSecret || !this.rxSecret) {
+      throw new NotInitializedError('No keys to export. Complete the key exchange first.');
+    }
+
+    return {
+      peerId: this.peerId,
+      role: this.role,
+      txSecret: byteArrayToBase64(this.txSecret),
+      rxSecret: byteArrayToBase64(this.rxSecret),
+      txEpoch: this.txEpochValue,
+      rxEpoch: this.rxEpochValue,
+      cipherSuite: this.suite.id,
+    };
+  }
+
+  /**
+   * Cipher suite the TX/RX keys are derived and used with
+   */
+  public get cipherSuite(): CipherSuite {
+    return this.suite;
+  }
+
+  /**
+   * Number of rekeys applied to the TX key since the key exchange
+   */
+  public get txEpoch(): number {
+    return this.txEpochValue;
+  }
+
+  /**
+   * Number of rekeys applied to the RX key since the key exchange
+   */
+  public get rxEpoch(): number {
+    return this.rxEpochValue;
+  }
+
+  /**
+   * Generate encryption keys using server's public key (client role)
    * @param serverPublicKey Server's X25519 public key
    * @returns Promise<string> Client's public key base64 to send to server
+   * @throws {InvalidStateError} If called in the server role
    */
   public async generateKey(serverPublicKey: CryptoKey): Promise<string> {
-    if (!this.subtle) throw new Error('Crypto not initialized');
-    
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+    if (this.role !== 'client') {
+      throw new InvalidStateError('generateKey() is only available in the client role. Use generateKeyPair() and deriveKeys() instead.');
+    }
+
     // Step 0: Create our key pair
+    const publicKxKey = await this.generateKeyPair();
+
+    // Step 1 & 2: Derive shared secret, then TX and RX keys
+    this.suite = getCipherSuite(DEFAULT_CIPHER_SUITE);
+    await this.deriveFromPeerKey(serverPublicKey, publicKxKey);
+
+    // Return our public key for the server
+    return publicKxKey;
+  }
+
+  /**
+   * Generate a fresh X25519 key pair for this exchange
+   * @returns Promise<string> Our public key base64 to send to the peer
+   */
+  public async generateKeyPair(): Promise<string> {
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+
     this.keypair = await this.subtle.generateKey(
       { name: 'X25519' },
       false,
       ['deriveKey', 'deriveBits']
     ) as CryptoKeyPair;
 
-    const publicKxKey = byteArrayToBase64(await this.subtle.exportKey('raw', this.keypair.publicKey))
+    return byteArrayToBase64(await this.subtle.exportKey('raw', this.keypair.publicKey));
+  }
 
-    // Step 1: Derive shared secret
-    const sharedSecret = await this.subtle.deriveBits(
-      { name: 'X25519', public: serverPublicKey },
-      this.keypair.privateKey,
-      256
-    );
+  /**
+   * Derive TX and RX keys from the peer's public key, for either role.
+   * Requires generateKeyPair() to have been called first.
+   * @param peerPublicKeyB64 Peer's X25519 public key in base64 format
+   * @param cipherSuite ID of the cipher suite both peers agreed on
+   */
+  public async deriveKeys(peerPublicKeyB64: string, cipherSuite: number = DEFAULT_CIPHER_SUITE): Promise<void> {
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+    if (!this.keypair) throw new NotInitializedError('No key pair available. Call generateKeyPair() first.');
 
-    // Step 2: Derive TX and RX keys using HKDF with public key as additional context
-    
-    this.txKey = await this.importAes(
-      await this.hkdf(sharedSecret, new TextEncoder().encode('client-to-server' + publicKxKey))
-    );
-    
-    this.rxKey = await this.importAes(
-      await this.hkdf(sharedSecret, new TextEncoder().encode('server-to-client' + publicKxKey))
-    );
-    
-    // Return our public key for the server
-    return publicKxKey;
+    this.suite = getCipherSuite(cipherSuite);
+    const peerPublicKey = await this.importX25519(peerPublicKeyB64);
+
+    // Both ends bind the derivation to the client's public key
+    const clientPublicKeyB64 = this.role === 'client'
+      ? byteArrayToBase64(await this.subtle.exportKey('raw', this.keypair.publicKey))
+      : peerPublicKeyB64;
+
+    await this.deriveFromPeerKey(peerPublicKey, clientPublicKeyB64);
   }
 
   /**
    * Encrypt plaintext using the current TX key
    * @param plaintext String or Uint8Array to encrypt
-   * @returns Promise<EncryptionResult> Object containing ciphertext and nonce
+   * @param additionalData Optional cleartext data (headers, routing IDs...) authenticated along with the ciphertext
+   * @returns Promise<EncryptionResult> Object containing ciphertext, nonce and any additional data
    */
-  public async encrypt(plaintext: string | Uint8Array): Promise<EncryptionResult> {
-    if (!this.txKey) throw new Error('No encryption key available. Call generateKey() first.');
-    if (!this.subtle) throw new Error('Crypto not initialized');
+  public async encrypt(plaintext: string | Uint8Array, additionalData?: string | Uint8Array): Promise<EncryptionResult> {
+    if (!this.txKey) throw new NotInitializedError('No encryption key available. Call generateKey() first.');
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
 
-    const iv = await generateRandomBytes(12); // 96-bit nonce for AES-GCM
+    const iv = await generateRandomBytes(this.suite.nonceLength); // 96-bit nonce for both AEADs
+    const aad = toBytes(additionalData);
 
-    const encrypted = await this.subtle.encrypt(
-      { name: 'AES-GCM', iv: iv as any},
-      this.txKey,
-      typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext as any
+    const encrypted = await this.txKey.encrypt(
+      iv,
+      typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext,
+      aad
     );
 
     return {
-      ciphertext: new Uint8Array(encrypted),
-      nonce: iv
+      ciphertext: encrypted,
+      nonce: iv,
+      ...(aad ? { additionalData: aad } : {})
     };
   }
 
@@ -94,58 +311,224 @@ export class KeyExchange {
    * Decrypt ciphertext using the current RX key
    * @param ciphertext Encrypted data as Uint8Array
    * @param nonce Nonce used for encryption as Uint8Array
+   * @param additionalData Additional data passed to encrypt(), if any; must match exactly
+   * @returns Promise<Uint8Array> Decrypted plaintext
+   * @throws {AuthenticationFailedError} If the ciphertext, nonce or additional data were tampered with
+   */
+  public async decrypt(ciphertext: Uint8Array, nonce: Uint8Array, additionalData?: string | Uint8Array): Promise<Uint8Array> {
+    if (!this.rxKey) throw new NotInitializedError('No decryption key available. Call generateKey() first.');
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+
+    return this.decryptWithKey(this.rxKey, ciphertext, nonce, additionalData);
+  }
+
+  /**
+   * Decrypt ciphertext sent under a given RX epoch.
+   * A later epoch ratchets the RX key forward, but only once the ciphertext authenticates,
+   * so forged epochs cannot desynchronize the channel. Earlier epochs are gone for good.
+   * Overlapping calls are applied in call order.
+   * @param epoch Epoch the peer encrypted under
+   * @param ciphertext Encrypted data as Uint8Array
+   * @param nonce Nonce used for encryption as Uint8Array
+   * @param additionalData Additional data passed to encrypt(), if any
    * @returns Promise<Uint8Array> Decrypted plaintext
+   * @throws {AuthenticationFailedError} If the ciphertext does not authenticate under that epoch's key, or the epoch is expired or too far ahead
+   */
+  public decryptAtEpoch(epoch: number, ciphertext: Uint8Array, nonce: Uint8Array, additionalData?: string | Uint8Array): Promise<Uint8Array> {
+    // Overlapping calls are queued, so each one sees the RX epoch its predecessor committed and it never moves backwards
+    const decrypted = this.rxQueue.then(() => this.decryptAtEpochNext(epoch, ciphertext, nonce, additionalData));
+    this.rxQueue = decrypted.catch(() => undefined);
+    return decrypted;
+  }
+
+  private async decryptAtEpochNext(
+    epoch: number,
+    ciphertext: Uint8Array,
+    nonce: Uint8Array,
+    additionalData?: string | Uint8Array
+  ): Promise<Uint8Array> {
+    if (epoch === this.rxEpochValue) {
+      return this.decrypt(ciphertext, nonce, additionalData);
+    }
+    if (!this.rxSecret) throw new NotInitializedError('No decryption key available. Call generateKey() first.');
+    if (epoch < this.rxEpochValue) {
+      throw new AuthenticationFailedError(`Epoch ${epoch} has expired, current RX epoch is ${this.rxEpochValue}`);
+    }
+    if (epoch - this.rxEpochValue > MAX_EPOCH_SKIP) {
+      throw new AuthenticationFailedError(`Epoch ${epoch} is too far ahead of RX epoch ${this.rxEpochValue}`);
+    }
+
+    let secret = this.rxSecret;
+    for (let current = this.rxEpochValue; current < epoch; current++) {
+      secret = await this.nextSecret(secret);
+    }
+    const key = await this.importAes(secret);
+    const decrypted = await this.decryptWithKey(key, ciphertext, nonce, additionalData);
+
+    this.rxSecret = secret;
+    this.rxKey = key;
+    this.rxEpochValue = epoch;
+    return decrypted;
+  }
+
+  /**
+   * Derive a separate AES-256-GCM key from the current TX or RX secret, e.g. for a stream,
+   * whatever the session's cipher suite.
+   * The peer gets the same key from the opposite direction, the same salt and info,
+   * as long as both are at the same epoch.
+   * @param direction 'tx' for keys we encrypt with, 'rx' for keys we decrypt with
+   * @param salt Fresh random salt, shared with the peer
+   * @param info Purpose label
+   * @returns Promise<CryptoKey> Non-extractable AES-GCM key
    */
-  public async decrypt(ciphertext: Uint8Array, nonce: Uint8Array): Promise<Uint8Array> {
-    if (!this.rxKey) throw new Error('No decryption key available. Call generateKey() first.');
-    if (!this.subtle) throw new Error('Crypto not initialized');
+  public async deriveSubkey(direction: 'tx' | 'rx', salt: Uint8Array, info: string): Promise<CryptoKey> {
+    const secret = direction === 'tx' ? this.txSecret : this.rxSecret;
+    if (!secret) {
+      throw new NotInitializedError(direction === 'tx'
+        ? 'No encryption key available. Call generateKey() first.'
+        : 'No decryption key available. Call generateKey() first.');
+    }
+
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
 
-    const decrypted = await this.subtle.decrypt(
-      { name: 'AES-GCM', iv: nonce as any },
-      this.rxKey,
-      ciphertext as any
+    const raw = await this.hkdf(secret, new TextEncoder().encode(info), salt);
+    return this.subtle.importKey(
+      "raw", raw as any, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
     );
+  }
 
-    return new Uint8Array(decrypted);
+  /**
+   * Symmetric rekey of the TX key: the next key is derived from the current one with HKDF,
+   * and the current key is discarded
+   * @returns Promise<number> The new TX epoch
+   */
+  public async ratchetTx(): Promise<number> {
+    if (!this.txSecret) throw new NotInitializedError('No encryption key available. Call generateKey() first.');
+
+    this.txSecret = await this.nextSecret(this.txSecret);
+    this.txKey = await this.importAes(this.txSecret);
+    return ++this.txEpochValue;
+  }
+
+  /**
+   * Rekey both directions with a fresh X25519 exchange mixed into the current keys.
+   * Both peers call generateKeyPair(), swap public keys, then call this with the other's key;
+   * each direction moves forward by exactly one epoch. Traffic should be paused meanwhile.
+   * @param peerPublicKeyB64 Peer's fresh X25519 public key in base64 format
+   */
+  public async rekeyWithDh(peerPublicKeyB64: string): Promise<void> {
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+    if (!this.txSecret || !this.rxSecret) throw new NotInitializedError('No keys to rekey. Call generateKey() first.');
+    if (!this.keypair) throw new NotInitializedError('No key pair available. Call generateKeyPair() first.');
+
+    const sharedSecret = await this.subtle.deriveBits(
+      { name: 'X25519', public: await this.importX25519(peerPublicKeyB64) },
+      this.keypair.privateKey,
+      256
+    );
+
+    const [txLabel, rxLabel] = this.role === 'client'
+      ? ['client-to-server', 'server-to-client']
+      : ['server-to-client', 'client-to-server'];
+
+    this.txSecret = await this.hkdf(sharedSecret, new TextEncoder().encode('rekey-dh' + txLabel), this.txSecret);
+    this.rxSecret = await this.hkdf(sharedSecret, new TextEncoder().encode('rekey-dh' + rxLabel), this.rxSecret);
+    this.txKey = await this.importAes(this.txSecret);
+    this.rxKey = await this.importAes(this.rxSecret);
+    this.txEpochValue++;
+    this.rxEpochValue++;
   }
 
   /**
    * Initialize the crypto subsystem
    */
   private async init(): Promise<void> {
-      const globalObj = globalThis as any;
-      if (globalObj.crypto?.subtle){
-        this.subtle = globalObj.crypto.subtle
-        return
-      }
-    //  Try Node.js webcrypto import (Node.js 15+)
+    this.subtle = await getSubtleCrypto();
+  }
+
+  private async deriveFromPeerKey(peerPublicKey: CryptoKey, clientPublicKeyB64: string): Promise<void> {
+    if (!this.subtle || !this.keypair) {
+      throw new NotInitializedError('Crypto not initialized. Call getInstance() first.');
+    }
+
+    const sharedSecret = await this.subtle.deriveBits(
+      { name: 'X25519', public: peerPublicKey },
+      this.keypair.privateKey,
+      256
+    );
+
+    // HKDF info strings are fixed per direction; the role decides which one we send on
+    const clientToServer = await this.hkdf(sharedSecret, this.directionInfo('client-to-server' + clientPublicKeyB64));
+    const serverToClient = await this.hkdf(sharedSecret, this.directionInfo('server-to-client' + clientPublicKeyB64));
+
+    if (this.role === 'client') {
+      this.txSecret = clientToServer;
+      this.rxSecret = serverToClient;
+    } else {
+      this.txSecret = serverToClient;
+      this.rxSecret = clientToServer;
+    }
+    this.txKey = await this.importAes(this.txSecret);
+    this.rxKey = await this.importAes(this.rxSecret);
+    this.txEpochValue = 0;
+    this.rxEpochValue = 0;
+  }
+
+  // Negotiated suites are bound into the keys; the default suite keeps its original labels
+  private directionInfo(label: string): Uint8Array {
+    const info = new TextEncoder().encode(label);
+    return this.suite.id === DEFAULT_CIPHER_SUITE ? info : concatBytes(info, new Uint8Array([this.suite.id >> 8, this.suite.id & 0xff]));
+  }
+
+  private async importX25519(publicKeyB64: string): Promise<CryptoKey> {
+    if (!this.subtle) {
+      throw new NotInitializedError('Crypto not initialized. Call getInstance() first.');
+    }
     try {
-      const { webcrypto } = await import('crypto' as any);
-      this.subtle = webcrypto.subtle as any;
-      return;
-    } catch (error) {
-      // 4. Final fallback
-      throw new Error('Web Crypto API not available in this environment');
+      return await this.subtle.importKey(
+        'raw',
+        base64StringToByteArr(publicKeyB64) as any,
+        { name: 'X25519' },
+        false,
+        []
+      );
+    } catch {
+      throw new InvalidKeyError('Invalid X25519 public key');
     }
   }
 
-  private async importAes(raw: Uint8Array): Promise<CryptoKey> {
+  private async nextSecret(secret: Uint8Array): Promise<Uint8Array> {
+    return this.hkdf(secret, new TextEncoder().encode('rekey'));
+  }
+
+  private async decryptWithKey(key: AeadKey, ciphertext: Uint8Array, nonce: Uint8Array, additionalData?: string | Uint8Array): Promise<Uint8Array> {
     if (!this.subtle) {
-      throw new Error('Crypto not initialized. Call getInstance() first.');
+      throw new NotInitializedError('Crypto not initialized. Call getInstance() first.');
     }
-    return this.subtle.importKey(
-      "raw", raw as any, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
-    );
+
+    try {
+      return await key.decrypt(nonce, ciphertext, toBytes(additionalData));
+    } catch {
+      // Web Crypto rejects with a bare OperationError, which says nothing about the cause
+      throw new AuthenticationFailedError('Decryption failed: ciphertext, nonce or additional data did not authenticate');
+    }
+  }
+
+  private async importAes(raw: Uint8Array): Promise<AeadKey> {
+    if (!this.subtle) {
+      throw new NotInitializedError('Crypto not initialized. Call getInstance() first.');
+    }
+    return importAeadKey(this.suite, raw, this.subtle);
   }
 
-  private async hkdf(sharedSecret: ArrayBuffer, info: Uint8Array, salt: Uint8Array = new Uint8Array(32)): Promise<Uint8Array> {
+  private async hkdf(sharedSecret: ArrayBuffer | Uint8Array, info: Uint8Array, salt: Uint8Array = new Uint8Array(32)): Promise<Uint8Array> {
     if (!this.subtle) {
-      throw new Error('Crypto not initialized. Call getInstance() first.');
+      throw new NotInitializedError('Crypto not initialized. Call getInstance() first.');
     }
 
     const hkdfAlg = {
       name: 'HKDF',
-      hash: "SHA-256",
+      hash: this.suite.hash,
       salt: salt,
       info: info
     };
@@ -161,4 +544,21 @@ export class KeyExchange {
     const raw = await this.subtle.deriveBits(hkdfAlg, baseKey, 256);
     return new Uint8Array(raw);
   }
-}
\ No newline at end of file
+}
+
+function decodeSecret(encoded: unknown, field: string): Uint8Array {
+  let secret: Uint8Array;
+  try {
+    secret = typeof encoded === 'string' ? base64StringToByteArr(encoded) : new Uint8Array(0);
+  } catch {
+    throw new EncodingError(`Invalid session state: ${field}`);
+  }
+  if (secret.length !== SECRET_LENGTH) {
+    throw new EncodingError(`Invalid session state: ${field}`);
+  }
+  return secret;
+}
+
+function toBytes(data: string | Uint8Array | undefined): Uint8Array | undefined {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
@@ -0,0 +1,130 @@
+/**
+ * Pluggable storage for key blobs (e.g. wrapped identity keys)
+ */
+export interface KeyStore {
+  get(name: string): Promise<string | null>;
+  set(name: string, value: string): Promise<void>;
+  delete(name: string): Promise<void>;
+}
+
+/**
+ * In-memory key store, mostly useful for tests
+ */
+export class MemoryKeyStore implements KeyStore {
+  private readonly entries = new Map<string, string>();
+
+  public async get(name: string): Promise<string | null> {
+    return this.entries.get(name) ?? null;
+  }
+
+  public async set(name: string, value: string): Promise<void> {
+    this.entries.set(name, value);
+  }
+
+  public async delete(name: string): Promise<void> {
+    this.entries.delete(name);
+  }
+}
+
+/**
+ * Node.js key store keeping one file per key in a directory (created if missing, files mode 0600)
+ */
+export class FileKeyStore implements KeyStore {
+  constructor(private readonly directory: string) {}
+
+  public async get(name: string): Promise<string | null> {
+    const { fs } = await loadNodeModules();
+    try {
+      return await fs.readFile(await this.pathFor(name), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  public async set(name: string, value: string): Promise<void> {
+    const { fs } = await loadNodeModules();
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(await this.pathFor(name), value, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  public async delete(name: string): Promise<void> {
+    const { fs } = await loadNodeModules();
+    try {
+      await fs.unlink(await this.pathFor(name));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private async pathFor(name: string): Promise<string> {
+    checkKeyName(name);
+    const { path } = await loadNodeModules();
+    return path.join(this.directory, `${name}.key`);
+  }
+}
+
+/**
+ * Browser key store backed by IndexedDB
+ */
+export class IndexedDBKeyStore implements KeyStore {
+  private db: Promise<any> | null = null;
+
+  constructor(private readonly databaseName = 'secure-channel', private readonly storeName = 'keys') {}
+
+  public async get(name: string): Promise<string | null> {
+    const result = await this.request('readonly', store => store.get(name));
+    return typeof result === 'string' ? result : null;
+  }
+
+  public async set(name: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, name));
+  }
+
+  public async delete(name: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(name));
+  }
+
+  private async request(mode: 'readonly' | 'readwrite', operation: (store: any) => any): Promise<any> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<any> {
+    if (!this.db) {
+      const indexedDB = (globalThis as any).indexedDB;
+      if (!indexedDB) {
+        return Promise.reject(new Error('IndexedDB not available in this environment'));
+      }
+
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+// Key names become file names, so keep them to a safe character set
+function checkKeyName(name: string): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(name) || name.startsWith('.')) {
+    throw new Error(`Invalid key name: ${name}`);
+  }
+}
+
+async function loadNodeModules(): Promise<{ fs: any; path: any }> {
+  try {
+    const fs = await import('fs' as any);
+    const path = await import('path' as any);
+    return { fs: fs.promises, path };
+  } catch (error) {
+    throw new Error('File system not available in this environment');
+  }
+}
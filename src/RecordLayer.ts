@@ -0,0 +1,248 @@
+import { CipherSuite } from './CipherSuite';
+import { KeyExchange } from './KeyExchange';
+import { EncryptionResult, concatBytes, uint32ToBytes } from './helpers';
+import { EncodingError, InvalidArgumentError, InvalidStateError, ReplayError } from './errors';
+
+/**
+ * Limits after which the sender rekeys its TX direction. Whichever is reached first wins.
+ */
+export interface RekeyPolicy {
+  maxMessages?: number;
+  maxBytes?: number;
+  maxAgeMs?: number;
+}
+
+export interface RecordLayerOptions {
+  windowSize?: number; // Number of recent sequence numbers tracked for replay detection
+  rekey?: RekeyPolicy; // Automatic symmetric rekeying; off when omitted
+  state?: RecordLayerState; // Counters to resume from, see exportState(); the KeyExchange must be at the same TX epoch
+}
+
+/**
+ * Sequence counters and replay window of a RecordLayer.
+ * Bigints are stored as decimal strings so the state is JSON-serializable.
+ */
+export interface RecordLayerState {
+  sendSequence: string;
+  highestReceived: string;
+  receivedWindow: string;
+  messagesSinceRekey: number;
+  bytesSinceRekey: number;
+  epochStartedAt: number; // ms since epoch
+}
+
+const SEQUENCE_LENGTH = 8;
+const MAX_SEQUENCE = 0xFFFFFFFFFFFFFFFFn;
+const DEFAULT_WINDOW_SIZE = 64;
+
+/**
+ * Record layer on top of a KeyExchange session
+ * Prefixes each plaintext with a per-direction uint64 sequence number before encryption, so the
+ * sequence is authenticated by AES-GCM, and rejects duplicate or too-old records with a sliding window.
+ * Each record carries the sender's key epoch, bound into the AES-GCM additional data, so the
+ * receiver follows rekeys deterministically.
+ */
+export class RecordLayer {
+  private sendSequence = 0n;
+  private highestReceived = -1n;
+  private receivedWindow = 0n; // bit i set => sequence (highestReceived - i) was received
+  private readonly windowSize: bigint;
+  private readonly rekeyPolicy: RekeyPolicy | null;
+
+  // Usage of the current TX key, reset whenever the TX epoch changes
+  private usageEpoch: number;
+  private messagesSinceRekey = 0;
+  private bytesSinceRekey = 0;
+  private epochStartedAt = Date.now();
+  private sealQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly keyExchange: KeyExchange, options: RecordLayerOptions = {}) {
+    const windowSize = options.windowSize ?? DEFAULT_WINDOW_SIZE;
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      throw new InvalidArgumentError(`Window size must be a positive integer, got: ${windowSize}`);
+    }
+    this.windowSize = BigInt(windowSize);
+    this.rekeyPolicy = options.rekey ?? null;
+    this.usageEpoch = keyExchange.txEpoch;
+
+    if (options.state) {
+      const { state } = options;
+      // sendSequence may be one past MAX_SEQUENCE: an exhausted layer stays exhausted
+      this.sendSequence = parseCounter(state.sendSequence, 0n, MAX_SEQUENCE + 1n, 'sendSequence');
+      this.highestReceived = parseCounter(state.highestReceived, -1n, MAX_SEQUENCE, 'highestReceived');
+      this.receivedWindow = parseCounter(state.receivedWindow, 0n, null, 'receivedWindow') & this.windowMask();
+      for (const field of ['messagesSinceRekey', 'bytesSinceRekey', 'epochStartedAt'] as const) {
+        if (!Number.isSafeInteger(state[field]) || state[field] < 0) {
+          throw new EncodingError(`Invalid record layer state: ${field}`);
+        }
+      }
+      this.messagesSinceRekey = state.messagesSinceRekey;
+      this.bytesSinceRekey = state.bytesSinceRekey;
+      this.epochStartedAt = state.epochStartedAt;
+    }
+  }
+
+  /**
+   * Export the sequence counters and replay window, to pass back as the `state` option later
+   * @returns RecordLayerState
+   */
+  public exportState(): RecordLayerState {
+    return {
+      sendSequence: this.sendSequence.toString(),
+      highestReceived: this.highestReceived.toString(),
+      receivedWindow: this.receivedWindow.toString(),
+      messagesSinceRekey: this.messagesSinceRekey,
+      bytesSinceRekey: this.bytesSinceRekey,
+      epochStartedAt: this.epochStartedAt,
+    };
+  }
+
+  /**
+   * Sequence number the next sealed record will carry
+   */
+  public get nextSendSequence(): bigint {
+    return this.sendSequence;
+  }
+
+  /**
+   * Cipher suite of the underlying session
+   */
+  public get cipherSuite(): CipherSuite {
+    return this.keyExchange.cipherSuite;
+  }
+
+  /**
+   * Highest sequence number accepted so far, or -1n if none
+   */
+  public get highestReceivedSequence(): bigint {
+    return this.highestReceived;
+  }
+
+  /**
+   * Encrypt plaintext as the next record, rekeying first if the policy says so
+   * @param plaintext String or Uint8Array to encrypt
+   * @param additionalData Optional cleartext data authenticated along with the record
+   * @returns Promise<EncryptionResult> Object containing ciphertext, nonce, epoch and any additional data
+   * @throws {InvalidStateError} If the sequence number space is exhausted
+   */
+  public seal(plaintext: string | Uint8Array, additionalData?: string | Uint8Array): Promise<EncryptionResult> {
+    // Overlapping calls are queued, so each record gets its own sequence number and the epoch it was encrypted under
+    const sealed = this.sealQueue.then(() => this.sealNext(plaintext, additionalData));
+    this.sealQueue = sealed.catch(() => undefined);
+    return sealed;
+  }
+
+  /**
+   * Decrypt a record and check it against the replay window
+   * @param record Ciphertext, nonce, epoch and additional data produced by the peer's seal()
+   * @returns Promise<Uint8Array> Decrypted plaintext
+   * @throws {EncodingError} If the decrypted record is too short to hold a sequence number
+   * @throws {ReplayError} If the record is a duplicate or older than the window
+   */
+  public async open(record: EncryptionResult): Promise<Uint8Array> {
+    const epoch = record.epoch ?? 0;
+    const decrypted = await this.keyExchange.decryptAtEpoch(
+      epoch,
+      record.ciphertext,
+      record.nonce,
+      recordAad(epoch, record.additionalData)
+    );
+    if (decrypted.length < SEQUENCE_LENGTH) {
+      throw new EncodingError(`Record too short: ${decrypted.length} bytes`);
+    }
+
+    const sequence = new DataView(decrypted.buffer, decrypted.byteOffset).getBigUint64(0, false);
+    this.markReceived(sequence);
+    return decrypted.slice(SEQUENCE_LENGTH);
+  }
+
+  private async sealNext(plaintext: string | Uint8Array, additionalData?: string | Uint8Array): Promise<EncryptionResult> {
+    if (this.sendSequence > MAX_SEQUENCE) {
+      throw new InvalidStateError('Sequence number space exhausted. Establish a new session.');
+    }
+
+    const data = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+    await this.rekeyIfDue(data.length);
+
+    const record = new Uint8Array(SEQUENCE_LENGTH + data.length);
+    new DataView(record.buffer).setBigUint64(0, this.sendSequence, false); // big-endian
+    record.set(data, SEQUENCE_LENGTH);
+
+    const epoch = this.keyExchange.txEpoch;
+    const aad = toBytes(additionalData);
+    const { ciphertext, nonce } = await this.keyExchange.encrypt(record, recordAad(epoch, aad));
+
+    this.sendSequence++;
+    this.messagesSinceRekey++;
+    this.bytesSinceRekey += data.length;
+
+    return { ciphertext, nonce, epoch, ...(aad ? { additionalData: aad } : {}) };
+  }
+
+  private async rekeyIfDue(nextLength: number): Promise<void> {
+    if (this.keyExchange.txEpoch !== this.usageEpoch) {
+      // Rekeyed outside the record layer (e.g. rekeyWithDh)
+      this.resetUsage();
+    }
+    if (!this.rekeyPolicy || this.messagesSinceRekey === 0) return;
+
+    const { maxMessages, maxBytes, maxAgeMs } = this.rekeyPolicy;
+    const due = (maxMessages !== undefined && this.messagesSinceRekey >= maxMessages)
+      || (maxBytes !== undefined && this.bytesSinceRekey + nextLength > maxBytes)
+      || (maxAgeMs !== undefined && Date.now() - this.epochStartedAt >= maxAgeMs);
+
+    if (due) {
+      await this.keyExchange.ratchetTx();
+      this.resetUsage();
+    }
+  }
+
+  private resetUsage(): void {
+    this.usageEpoch = this.keyExchange.txEpoch;
+    this.messagesSinceRekey = 0;
+    this.bytesSinceRekey = 0;
+    this.epochStartedAt = Date.now();
+  }
+
+  private markReceived(sequence: bigint): void {
+    if (sequence > this.highestReceived) {
+      const shift = sequence - this.highestReceived;
+      this.receivedWindow = shift >= this.windowSize ? 1n : ((this.receivedWindow << shift) | 1n) & this.windowMask();
+      this.highestReceived = sequence;
+      return;
+    }
+
+    const offset = this.highestReceived - sequence;
+    if (offset >= this.windowSize) {
+      throw new ReplayError(sequence, 'outside_window');
+    }
+    if (this.receivedWindow & (1n << offset)) {
+      throw new ReplayError(sequence, 'duplicate');
+    }
+    this.receivedWindow |= 1n << offset;
+  }
+
+  private windowMask(): bigint {
+    return (1n << this.windowSize) - 1n;
+  }
+}
+
+// Epoch (uint32, big-endian) followed by the caller's additional data
+function recordAad(epoch: number, additionalData?: Uint8Array): Uint8Array {
+  return concatBytes(uint32ToBytes(epoch), additionalData ?? new Uint8Array(0));
+}
+
+function parseCounter(value: unknown, min: bigint, max: bigint | null, field: string): bigint {
+  if (typeof value !== 'string' || !/^(0|-?[1-9][0-9]*)$/.test(value)) {
+    throw new EncodingError(`Invalid record layer state: ${field}`);
+  }
+  const counter = BigInt(value);
+  if (counter < min || (max !== null && counter > max)) {
+    throw new EncodingError(`Invalid record layer state: ${field}`);
+  }
+  return counter;
+}
+
+function toBytes(data: string | Uint8Array | undefined): Uint8Array | undefined {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
@@ -0,0 +1,133 @@
+import { AuthenticationFailedError, EncodingError } from './errors';
+import { byteArrayToBase64, base64StringToByteArr, concatBytes, getSubtleCrypto } from './helpers';
+import { CryptoKey, CryptoKeyPair } from './types';
+
+export const SEALED_BOX_VERSION = 1;
+// X25519 + HKDF-SHA256 + AES-256-GCM
+export const SEALED_BOX_SUITE_X25519_AES256GCM = 1;
+
+const HEADER_LENGTH = 2; // version (1) + suite (1)
+const PUBLIC_KEY_LENGTH = 32;
+const TAG_LENGTH = 16;
+const INFO = new TextEncoder().encode('secure-channel sealed box');
+
+/**
+ * Anonymous one-shot public-key encryption (ECIES): anyone can seal a message to a
+ * recipient's X25519 public key, only the recipient can open it, and the sender stays anonymous.
+ *
+ * Format: version (1) | suite (1) | ephemeral public key (32) | AES-GCM ciphertext and tag.
+ * The key and nonce come from HKDF over the DH output, salted with both public keys;
+ * the ephemeral key is never reused, so no nonce is shipped.
+ */
+export class SealedBox {
+  private constructor() {}
+
+  /**
+   * Generate a recipient key pair
+   * @param extractable Whether the private key can be exported (e.g. to persist it)
+   * @returns Promise<CryptoKeyPair>
+   */
+  public static async generateKeyPair(extractable = false): Promise<CryptoKeyPair> {
+    const subtle = await getSubtleCrypto();
+    return subtle.generateKey({ name: 'X25519' }, extractable, ['deriveBits']) as Promise<CryptoKeyPair>;
+  }
+
+  /**
+   * Encrypt data to a recipient
+   * @param recipientPublicKey Recipient's X25519 public key, raw bytes or base64
+   * @param data String or Uint8Array to encrypt
+   * @returns Promise<Uint8Array> Sealed box
+   */
+  public static async seal(recipientPublicKey: string | Uint8Array, data: string | Uint8Array): Promise<Uint8Array> {
+    const subtle = await getSubtleCrypto();
+    const recipientBytes = publicKeyBytes(recipientPublicKey);
+    const ephemeral = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']) as CryptoKeyPair;
+    const ephemeralBytes = new Uint8Array(await subtle.exportKey('raw', ephemeral.publicKey));
+
+    const header = new Uint8Array([SEALED_BOX_VERSION, SEALED_BOX_SUITE_X25519_AES256GCM]);
+    const { key, nonce } = await deriveBoxKey(ephemeral, recipientBytes, ephemeralBytes, recipientBytes);
+    const plaintext = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: header },
+      key,
+      plaintext as any
+    );
+
+    return concatBytes(header, ephemeralBytes, new Uint8Array(ciphertext));
+  }
+
+  /**
+   * Decrypt a sealed box
+   * @param recipientKeyPair Recipient's X25519 key pair
+   * @param sealed Output of seal()
+   * @returns Promise<Uint8Array> Plaintext
+   * @throws {EncodingError} If the box is too short or has an unsupported version or suite
+   * @throws {AuthenticationFailedError} If the box was not sealed to this key pair or was tampered with
+   */
+  public static async open(recipientKeyPair: CryptoKeyPair, sealed: Uint8Array): Promise<Uint8Array> {
+    if (sealed.length < HEADER_LENGTH + PUBLIC_KEY_LENGTH + TAG_LENGTH) {
+      throw new EncodingError('Sealed box too short');
+    }
+    if (sealed[0] !== SEALED_BOX_VERSION) {
+      throw new EncodingError(`Unsupported sealed box version: ${sealed[0]}`);
+    }
+    if (sealed[1] !== SEALED_BOX_SUITE_X25519_AES256GCM) {
+      throw new EncodingError(`Unsupported sealed box suite: ${sealed[1]}`);
+    }
+
+    const subtle = await getSubtleCrypto();
+    const header = sealed.subarray(0, HEADER_LENGTH);
+    const ephemeralBytes = sealed.slice(HEADER_LENGTH, HEADER_LENGTH + PUBLIC_KEY_LENGTH);
+    const recipientBytes = new Uint8Array(await subtle.exportKey('raw', recipientKeyPair.publicKey));
+
+    try {
+      // A forged ephemeral key (e.g. a small-order point) fails here rather than at the tag check
+      const { key, nonce } = await deriveBoxKey(recipientKeyPair, ephemeralBytes, ephemeralBytes, recipientBytes);
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData: header.slice() },
+        key,
+        sealed.slice(HEADER_LENGTH + PUBLIC_KEY_LENGTH) as any
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new AuthenticationFailedError('Failed to open sealed box');
+    }
+  }
+}
+
+function publicKeyBytes(publicKey: string | Uint8Array): Uint8Array {
+  const bytes = typeof publicKey === 'string' ? base64StringToByteArr(publicKey) : publicKey;
+  if (bytes.length !== PUBLIC_KEY_LENGTH) {
+    throw new Error(`Invalid X25519 public key length: ${bytes.length}`);
+  }
+  return bytes;
+}
+
+async function deriveBoxKey(
+  ownKeyPair: CryptoKeyPair,
+  peerPublicKey: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array
+): Promise<{ key: CryptoKey; nonce: Uint8Array }> {
+  const subtle = await getSubtleCrypto();
+  const peerKey = await subtle.importKey('raw', peerPublicKey as any, { name: 'X25519' }, false, []);
+  const sharedSecret = new Uint8Array(await subtle.deriveBits({ name: 'X25519', public: peerKey }, ownKeyPair.privateKey, 256));
+
+  // RFC 7748: an all-zero output means the peer sent a small-order point
+  if (sharedSecret.every(byte => byte === 0)) {
+    throw new Error(`Invalid X25519 public key: ${byteArrayToBase64(peerPublicKey)}`);
+  }
+
+  const hkdfKey = await subtle.importKey('raw', sharedSecret as any, 'HKDF', false, ['deriveBits']);
+  const okm = new Uint8Array(await subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: concatBytes(ephemeralPublicKey, recipientPublicKey), info: INFO },
+    hkdfKey,
+    (32 + 12) * 8
+  ));
+
+  return {
+    key: await subtle.importKey('raw', okm.slice(0, 32) as any, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    nonce: okm.slice(32),
+  };
+}
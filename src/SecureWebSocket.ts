@@ -0,0 +1,389 @@
+import { CipherSuite } from './CipherSuite';
+import { decodeEnvelope, encodeEnvelope, envelopeAlgorithm } from './Envelope';
+import { AuthenticationFailedError, EncodingError, InvalidKeyError, NotInitializedError, ReplayError } from './errors';
+import { Handshake, HandshakeOptions } from './Handshake';
+import { byteArrayToString } from './helpers';
+import { KeyExchange } from './KeyExchange';
+import { RecordLayer, RecordLayerOptions } from './RecordLayer';
+
+// WebSocket readyState values
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+// Close code sent when the peer fails authentication (RFC 6455 "policy violation")
+const CLOSE_POLICY_VIOLATION = 1008;
+
+// Record additional data: one byte telling text and binary messages apart, authenticated with the record
+const TEXT_FRAME = 1;
+const BINARY_FRAME = 2;
+
+/**
+ * The subset of the WebSocket interface used by SecureWebSocket.
+ * Browser WebSockets, Node `ws` sockets and createWebSocketLoopback() sockets all fit.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType?: string;
+  send(data: Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: string, listener: (event: any) => void): void;
+  removeEventListener(type: string, listener: (event: any) => void): void;
+}
+
+export type SecureWebSocketState = 'connecting' | 'handshaking' | 'open' | 'closed';
+
+export interface SecureWebSocketOptions {
+  handshake?: Omit<HandshakeOptions, 'encoding'>; // Identity, pinned peer key and cipher suites; frames are always binary
+  record?: RecordLayerOptions; // Replay window and automatic rekeying
+  closeOnAuthFailure?: boolean; // Close the socket when a record fails authentication (default false: drop the record)
+}
+
+export interface SecureWebSocketEventMap {
+  handshake: { cipherSuite: CipherSuite };
+  message: { data: string | Uint8Array };
+  rekey: { direction: 'tx' | 'rx'; epoch: number };
+  authFailure: { stage: 'handshake' | 'record'; error: Error };
+  close: { code: number; reason: string };
+  error: { error: unknown };
+}
+
+export type SecureWebSocketListener<K extends keyof SecureWebSocketEventMap> = (event: SecureWebSocketEventMap[K]) => void;
+
+interface PendingMessage {
+  data: string | Uint8Array;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Encrypted channel over a WebSocket
+ * Runs the handshake as soon as the socket is open (the client role sends the ClientHello),
+ * then carries every message as a RecordLayer record in a binary envelope. Messages sent before
+ * the handshake completes are queued and flushed once it does.
+ *
+ * Events: 'handshake' when keys are installed, 'message' for each decrypted message, 'rekey' when
+ * either direction moves to a new key epoch, 'authFailure' when the handshake or a record fails
+ * authentication or replay checks, 'close' and 'error'.
+ */
+export class SecureWebSocket {
+  private currentState: SecureWebSocketState = 'connecting';
+  private readonly handshake: Handshake;
+  private readonly recordLayer: RecordLayer;
+  private readonly closeOnAuthFailure: boolean;
+  private readonly listeners = new Map<keyof SecureWebSocketEventMap, Set<(event: any) => void>>();
+  private pending: PendingMessage[] = [];
+  private txEpoch: number;
+  private rxEpoch: number;
+
+  // Records are sealed and opened one at a time, so rekeys happen in the order the peer sees them
+  private sendQueue: Promise<void> = Promise.resolve();
+  private receiveQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly socket: WebSocketLike, private readonly keyExchange: KeyExchange, options: SecureWebSocketOptions = {}) {
+    this.handshake = new Handshake(keyExchange, { ...options.handshake, encoding: 'binary' });
+    this.recordLayer = new RecordLayer(keyExchange, options.record);
+    this.closeOnAuthFailure = options.closeOnAuthFailure ?? false;
+    this.txEpoch = keyExchange.txEpoch;
+    this.rxEpoch = keyExchange.rxEpoch;
+
+    socket.binaryType = 'arraybuffer'; // Browsers default to Blob, which cannot be read synchronously
+    socket.addEventListener('open', this.handleOpen);
+    socket.addEventListener('message', this.handleMessage);
+    socket.addEventListener('close', this.handleClose);
+    socket.addEventListener('error', this.handleError);
+
+    if (socket.readyState === OPEN) {
+      this.handleOpen();
+    } else if (socket.readyState === CLOSING || socket.readyState === CLOSED) {
+      this.currentState = 'closed';
+    }
+  }
+
+  /**
+   * Current state of the channel
+   */
+  public get state(): SecureWebSocketState {
+    return this.currentState;
+  }
+
+  /**
+   * Cipher suite agreed with the peer, or null until the handshake completes
+   */
+  public get cipherSuite(): CipherSuite | null {
+    return this.handshake.cipherSuite;
+  }
+
+  /**
+   * Register an event listener
+   * @param type Event name
+   * @param listener Called with the event payload
+   */
+  public on<K extends keyof SecureWebSocketEventMap>(type: K, listener: SecureWebSocketListener<K>): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  /**
+   * Remove an event listener registered with on()
+   * @param type Event name
+   * @param listener Listener to remove
+   */
+  public off<K extends keyof SecureWebSocketEventMap>(type: K, listener: SecureWebSocketListener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Encrypt and send a message. Before the handshake completes the message is queued.
+   * @param data String (delivered as a string) or Uint8Array (delivered as bytes)
+   * @returns Promise<void> Resolves once the record is handed to the socket
+   */
+  public send(data: string | Uint8Array): Promise<void> {
+    if (this.currentState === 'closed') {
+      return Promise.reject(new Error('SecureWebSocket is closed'));
+    }
+    if (this.currentState !== 'open') {
+      return new Promise((resolve, reject) => this.pending.push({ data, resolve, reject }));
+    }
+    return this.enqueueSend(() => this.sendRecord(data));
+  }
+
+  /**
+   * Move our TX direction to a new key epoch. The peer follows when it receives the next record.
+   * @returns Promise<void>
+   */
+  public rekey(): Promise<void> {
+    if (this.currentState !== 'open') {
+      return Promise.reject(new NotInitializedError('Handshake not complete'));
+    }
+    return this.enqueueSend(async () => {
+      await this.keyExchange.ratchetTx();
+      this.checkEpochs();
+    });
+  }
+
+  /**
+   * Close the underlying socket
+   * @param code WebSocket close code
+   * @param reason Close reason
+   */
+  public close(code: number = 1000, reason?: string): void {
+    this.socket.close(code, reason);
+  }
+
+  private readonly handleOpen = (): void => {
+    if (this.currentState !== 'connecting') return;
+    this.currentState = 'handshaking';
+
+    if (this.keyExchange.role === 'client') {
+      this.receiveQueue = this.receiveQueue.then(async () => {
+        try {
+          this.socket.send(await this.handshake.start() as Uint8Array);
+        } catch (error) {
+          this.failHandshake(error);
+        }
+      });
+    }
+  };
+
+  private readonly handleMessage = (event: { data: unknown }): void => {
+    const frame = frameBytes(event.data);
+    if (!frame) {
+      this.emit('error', { error: new EncodingError('Expected a binary WebSocket frame') });
+      return;
+    }
+    this.receiveQueue = this.receiveQueue
+      .then(() => this.receiveFrame(frame))
+      .catch(error => this.emit('error', { error }));
+  };
+
+  private readonly handleClose = (event?: { code?: number; reason?: string }): void => {
+    this.currentState = 'closed';
+    this.socket.removeEventListener('open', this.handleOpen);
+    this.socket.removeEventListener('message', this.handleMessage);
+    this.socket.removeEventListener('close', this.handleClose);
+    this.socket.removeEventListener('error', this.handleError);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(message => message.reject(new Error('Socket closed before the handshake completed')));
+
+    this.emit('close', { code: event?.code ?? 1005, reason: event?.reason ?? '' });
+  };
+
+  private readonly handleError = (event?: { error?: unknown }): void => {
+    this.emit('error', { error: event?.error ?? event });
+  };
+
+  private async receiveFrame(frame: Uint8Array): Promise<void> {
+    if (this.currentState === 'closed' || this.handshake.state === 'failed') return;
+
+    if (!this.handshake.isComplete()) {
+      try {
+        const reply = await this.handshake.receive(frame);
+        if (reply) this.socket.send(reply as Uint8Array);
+      } catch (error) {
+        this.failHandshake(error);
+        return;
+      }
+      if (this.handshake.isComplete()) this.completeHandshake();
+      return;
+    }
+
+    let data: string | Uint8Array;
+    try {
+      const envelope = decodeEnvelope(frame);
+      const plaintext = await this.recordLayer.open(envelope);
+      data = frameKind(envelope.additionalData) === TEXT_FRAME ? byteArrayToString(plaintext) : plaintext;
+    } catch (error) {
+      if (error instanceof AuthenticationFailedError || error instanceof ReplayError) {
+        this.emit('authFailure', { stage: 'record', error });
+        if (this.closeOnAuthFailure) this.close(CLOSE_POLICY_VIOLATION, 'Authentication failed');
+      } else {
+        this.emit('error', { error });
+      }
+      return;
+    }
+
+    this.checkEpochs();
+    this.emit('message', { data });
+  }
+
+  private completeHandshake(): void {
+    this.currentState = 'open';
+    this.emit('handshake', { cipherSuite: this.handshake.cipherSuite! });
+
+    const pending = this.pending;
+    this.pending = [];
+    for (const message of pending) {
+      this.enqueueSend(() => this.sendRecord(message.data)).then(message.resolve, message.reject);
+    }
+  }
+
+  private failHandshake(error: unknown): void {
+    if (error instanceof AuthenticationFailedError || error instanceof InvalidKeyError) {
+      this.emit('authFailure', { stage: 'handshake', error });
+    } else {
+      this.emit('error', { error });
+    }
+    this.close(CLOSE_POLICY_VIOLATION, 'Handshake failed');
+  }
+
+  private enqueueSend(task: () => Promise<void>): Promise<void> {
+    const sent = this.sendQueue.then(task);
+    this.sendQueue = sent.catch(() => undefined);
+    return sent;
+  }
+
+  private async sendRecord(data: string | Uint8Array): Promise<void> {
+    const kind = typeof data === 'string' ? TEXT_FRAME : BINARY_FRAME;
+    const record = await this.recordLayer.seal(data, new Uint8Array([kind]));
+    if (this.currentState === 'closed') {
+      throw new Error('SecureWebSocket is closed');
+    }
+
+    this.socket.send(encodeEnvelope(record, envelopeAlgorithm(this.keyExchange.cipherSuite)));
+    this.checkEpochs();
+  }
+
+  // Report epoch changes made by rekey(), the record layer's rekey policy, or the peer
+  private checkEpochs(): void {
+    if (this.keyExchange.txEpoch !== this.txEpoch) {
+      this.txEpoch = this.keyExchange.txEpoch;
+      this.emit('rekey', { direction: 'tx', epoch: this.txEpoch });
+    }
+    if (this.keyExchange.rxEpoch !== this.rxEpoch) {
+      this.rxEpoch = this.keyExchange.rxEpoch;
+      this.emit('rekey', { direction: 'rx', epoch: this.rxEpoch });
+    }
+  }
+
+  private emit<K extends keyof SecureWebSocketEventMap>(type: K, event: SecureWebSocketEventMap[K]): void {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Create two in-memory sockets connected to each other, e.g. to run a SecureWebSocket client
+ * and server in one process. Both open on the next tick; frames arrive asynchronously and in order.
+ * @returns [WebSocketLike, WebSocketLike]
+ */
+export function createWebSocketLoopback(): [WebSocketLike, WebSocketLike] {
+  const a = new LoopbackSocket();
+  const b = new LoopbackSocket();
+  a.peer = b;
+  b.peer = a;
+  setTimeout(() => {
+    a.open();
+    b.open();
+  }, 0);
+  return [a, b];
+}
+
+class LoopbackSocket implements WebSocketLike {
+  public readyState = CONNECTING;
+  public binaryType = 'arraybuffer';
+  public peer: LoopbackSocket | null = null;
+  private readonly listeners = new Map<string, Set<(event: any) => void>>();
+
+  public send(data: Uint8Array): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('Loopback socket is not open');
+    }
+    const copy = data.slice().buffer;
+    const peer = this.peer!;
+    setTimeout(() => peer.dispatch('message', { data: copy }), 0);
+  }
+
+  public close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState >= CLOSING) return;
+    this.readyState = CLOSING;
+    this.peer!.readyState = CLOSING;
+
+    // Queued after any frames already in flight
+    setTimeout(() => {
+      for (const socket of [this, this.peer!]) {
+        socket.readyState = CLOSED;
+        socket.dispatch('close', { code, reason });
+      }
+    }, 0);
+  }
+
+  public addEventListener(type: string, listener: (event: any) => void): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  public removeEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  public open(): void {
+    if (this.readyState !== CONNECTING) return;
+    this.readyState = OPEN;
+    this.dispatch('open', {});
+  }
+
+  private dispatch(type: string, event: object): void {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
+
+// ArrayBuffer checks via toString, so buffers from another realm (iframes, test sandboxes) still match
+function frameBytes(data: unknown): Uint8Array | null {
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (Object.prototype.toString.call(data) === '[object ArrayBuffer]') {
+    return new Uint8Array(data as ArrayBuffer);
+  }
+  return null;
+}
+
+function frameKind(additionalData: Uint8Array | undefined): number {
+  if (additionalData?.length !== 1 || (additionalData[0] !== TEXT_FRAME && additionalData[0] !== BINARY_FRAME)) {
+    throw new EncodingError('Invalid SecureWebSocket record type');
+  }
+  return additionalData[0];
+}
@@ -0,0 +1,115 @@
+import { EncodingError, InvalidStateError } from './errors';
+import { KeyExchange } from './KeyExchange';
+import { RecordLayer, RecordLayerOptions, RecordLayerState } from './RecordLayer';
+import { PassphraseWrapped, unwrapWithPassphrase, wrapWithPassphrase } from './passphrase';
+import { bytesToString } from './helpers';
+import { KeyExchangeState } from './types';
+
+export const SESSION_STATE_VERSION = 1;
+
+export interface SessionExportOptions {
+  recordLayer?: RecordLayer; // Include sequence counters and replay window
+  peerIdentityKey?: string; // Pinned peer Ed25519 key (base64), to re-authenticate later
+  passphrase?: string; // Encrypt the blob; strongly recommended outside trusted storage
+  iterations?: number; // PBKDF2 iterations when a passphrase is given
+}
+
+export interface SessionRestoreOptions {
+  passphrase?: string;
+  recordLayer?: Omit<RecordLayerOptions, 'state'>; // Options for the restored RecordLayer
+}
+
+export interface RestoredSession {
+  keyExchange: KeyExchange;
+  recordLayer: RecordLayer | null;
+  peerIdentityKey: string | null;
+}
+
+interface SessionSnapshot {
+  keyExchange: KeyExchangeState;
+  recordLayer: RecordLayerState | null;
+  peerIdentityKey: string | null;
+}
+
+/**
+ * Export a session into a versioned JSON blob, optionally encrypted with a passphrase.
+ * The session must have been created with { exportable: true }.
+ * @param session KeyExchange session to export
+ * @param options Extra state to include and passphrase
+ * @returns Promise<string> Blob for restoreSession()
+ */
+export async function exportSession(session: KeyExchange, options: SessionExportOptions = {}): Promise<string> {
+  const snapshot: SessionSnapshot = {
+    keyExchange: session.exportState(),
+    recordLayer: options.recordLayer?.exportState() ?? null,
+    peerIdentityKey: options.peerIdentityKey ?? null,
+  };
+
+  if (options.passphrase === undefined) {
+    return JSON.stringify({ v: SESSION_STATE_VERSION, session: snapshot });
+  }
+
+  const wrapped = await wrapWithPassphrase(
+    new TextEncoder().encode(JSON.stringify(snapshot)),
+    options.passphrase,
+    options.iterations
+  );
+  return JSON.stringify({ v: SESSION_STATE_VERSION, wrapped });
+}
+
+/**
+ * Restore a session exported with exportSession(). The KeyExchange session is registered
+ * under its peer id again, so no session with that id may exist.
+ * @param blob String returned by exportSession()
+ * @param options Passphrase (for encrypted blobs) and RecordLayer options
+ * @returns Promise<RestoredSession>
+ * @throws {EncodingError} If the blob is malformed or of an unknown version
+ * @throws {InvalidStateError} If the blob is encrypted and no passphrase was given
+ * @throws {AuthenticationFailedError} If the passphrase is wrong or the blob was modified
+ */
+export async function restoreSession(blob: string, options: SessionRestoreOptions = {}): Promise<RestoredSession> {
+  let parsed: { v?: unknown; session?: SessionSnapshot; wrapped?: PassphraseWrapped };
+  try {
+    parsed = JSON.parse(blob);
+  } catch {
+    throw new EncodingError('Invalid session blob');
+  }
+
+  if (!parsed || parsed.v !== SESSION_STATE_VERSION) {
+    throw new EncodingError(`Unsupported session blob version: ${parsed?.v}`);
+  }
+
+  let snapshot: SessionSnapshot;
+  if (parsed.wrapped) {
+    if (options.passphrase === undefined) {
+      throw new InvalidStateError('Session blob is encrypted. A passphrase is required.');
+    }
+    const unwrapped = bytesToString(await unwrapWithPassphrase(parsed.wrapped, options.passphrase));
+    try {
+      snapshot = JSON.parse(unwrapped);
+    } catch {
+      throw new EncodingError('Invalid session blob');
+    }
+  } else if (parsed.session) {
+    snapshot = parsed.session;
+  } else {
+    throw new EncodingError('Invalid session blob');
+  }
+  if (!snapshot || typeof snapshot.keyExchange !== 'object' || snapshot.keyExchange === null) {
+    throw new EncodingError('Invalid session blob');
+  }
+
+  const keyExchange = await KeyExchange.restoreSession(snapshot.keyExchange);
+  let recordLayer: RecordLayer | null;
+  try {
+    recordLayer = snapshot.recordLayer
+      ? new RecordLayer(keyExchange, { ...options.recordLayer, state: snapshot.recordLayer })
+      : null;
+  } catch (error) {
+    // Do not leave a half-restored session registered under the peer id
+    KeyExchange.closeSession(snapshot.keyExchange.peerId);
+    throw error;
+  }
+
+  return { keyExchange, recordLayer, peerIdentityKey: snapshot.peerIdentityKey ?? null };
+}
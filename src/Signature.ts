@@ -1,5 +1,16 @@
-import { byteArrayToBase64, base64StringToByteArr } from './helpers';
-import { CryptoKey, CryptoKeyPair, SubtleCrypto } from './types';
+import { EncodingError, InvalidKeyError, InvalidStateError, NotInitializedError } from './errors';
+import { byteArrayToBase64, base64StringToByteArr, base64UrlToByteArr, concatBytes, getSubtleCrypto } from './helpers';
+import { KeyStore } from './KeyStore';
+import { PassphraseWrapped, unwrapWithPassphrase, wrapWithPassphrase } from './passphrase';
+import { TrustStore } from './TrustStore';
+import { CryptoKey, CryptoKeyPair, IdentityKeyFormat, IdentityStoreOptions, SubtleCrypto } from './types';
+
+export const IDENTITY_BLOB_VERSION = 1;
+
+// DER prefix of a PKCS#8 Ed25519 private key; the 32-byte seed follows
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20
+]);
 
 /**
  * Cross-platform signature verification client
@@ -13,6 +24,9 @@ export class Signature {
   private keypair: CryptoKeyPair | null = null;
   private serverPublicKey: CryptoKey | null = null;
 
+  /** Additional peer keys accepted by verify(), e.g. both keys during a rotation */
+  public readonly trustStore = new TrustStore();
+
   private constructor() {}
 
   /**
@@ -31,19 +45,24 @@ export class Signature {
   /**
    * Initialize with server's public key for verification
    * @param serverPublicKeyB64 Server's Ed25519 public key in base64 format
+   * @throws {InvalidKeyError} If the key is not a valid Ed25519 public key
    */
   public async initializeServerKey(serverPublicKeyB64: string): Promise<void> {
-    if (!this.subtle) throw new Error('Crypto not initialized');
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
 
     const serverPublicKeyBytes = base64StringToByteArr(serverPublicKeyB64);
     
-    this.serverPublicKey = await this.subtle.importKey(
-      'raw',
-      serverPublicKeyBytes as any,
-      { name: 'Ed25519' },
-      false, // not extractable
-      ['verify']
-    );
+    try {
+      this.serverPublicKey = await this.subtle.importKey(
+        'raw',
+        serverPublicKeyBytes as any,
+        { name: 'Ed25519' },
+        false, // not extractable
+        ['verify']
+      );
+    } catch {
+      throw new InvalidKeyError('Invalid Ed25519 public key');
+    }
   }
 
   /**
@@ -54,12 +73,128 @@ export class Signature {
     await this.initializeServerKey(serverPublicKeyB64);
   }
 
+  /**
+   * Replace our key pair with an existing Ed25519 identity
+   * @param format 'pkcs8', 'jwk' or 'seed'
+   * @param key Key data: DER bytes, JWK object or 32-byte seed
+   * @param extractable Whether exportIdentity() may export the private key again
+   */
+  public async loadIdentity(format: IdentityKeyFormat, key: Uint8Array | Record<string, any>, extractable = false): Promise<void> {
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+
+    const seed = identitySeed(format, key);
+    // Round-trip through an extractable key to recover the public half
+    const fullKey = await this.subtle.importKey(
+      'pkcs8',
+      concatBytes(ED25519_PKCS8_PREFIX, seed) as any,
+      { name: 'Ed25519' },
+      true,
+      ['sign']
+    );
+    const jwk = await this.subtle.exportKey('jwk', fullKey) as any;
+
+    this.keypair = {
+      privateKey: extractable ? fullKey : await this.subtle.importKey('jwk', jwk, { name: 'Ed25519' }, false, ['sign']),
+      publicKey: await this.subtle.importKey(
+        'jwk',
+        { kty: 'OKP', crv: 'Ed25519', x: jwk.x },
+        { name: 'Ed25519' },
+        true,
+        ['verify']
+      ),
+    };
+  }
+
+  /**
+   * Replace our key pair with a new, exportable Ed25519 identity
+   */
+  public async generateIdentity(): Promise<void> {
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
+
+    this.keypair = await this.subtle.generateKey(
+      { name: 'Ed25519' },
+      true, // extractable, so it can be persisted with exportIdentity()
+      ['sign', 'verify']
+    ) as CryptoKeyPair;
+  }
+
+  /**
+   * Export our identity as a versioned blob, wrapped with a passphrase when one is given
+   * @param passphrase Passphrase to encrypt the private key with (strongly recommended)
+   * @param iterations PBKDF2 iterations
+   * @returns Promise<string> Blob for importIdentity()
+   * @throws {InvalidStateError} If the identity is not exportable
+   */
+  public async exportIdentity(passphrase?: string, iterations?: number): Promise<string> {
+    if (!this.subtle || !this.keypair) throw new NotInitializedError('Signature not initialized');
+    if (!this.keypair.privateKey.extractable) {
+      throw new InvalidStateError('Identity is not exportable. Use generateIdentity() or load it as extractable.');
+    }
+
+    const pkcs8 = new Uint8Array(await this.subtle.exportKey('pkcs8', this.keypair.privateKey));
+    if (passphrase === undefined) {
+      return JSON.stringify({ v: IDENTITY_BLOB_VERSION, pkcs8: byteArrayToBase64(pkcs8) });
+    }
+    return JSON.stringify({ v: IDENTITY_BLOB_VERSION, wrapped: await wrapWithPassphrase(pkcs8, passphrase, iterations) });
+  }
+
+  /**
+   * Load an identity exported with exportIdentity(). It stays exportable.
+   * @param blob String returned by exportIdentity()
+   * @param passphrase Passphrase used when exporting, if any
+   * @throws {EncodingError} If the blob is malformed or of an unknown version
+   * @throws {InvalidStateError} If the blob is encrypted and no passphrase is given
+   */
+  public async importIdentity(blob: string, passphrase?: string): Promise<void> {
+    let parsed: { v?: unknown; pkcs8?: string; wrapped?: PassphraseWrapped };
+    try {
+      parsed = JSON.parse(blob);
+    } catch {
+      throw new EncodingError('Invalid identity blob');
+    }
+    if (!parsed || parsed.v !== IDENTITY_BLOB_VERSION) {
+      throw new EncodingError(`Unsupported identity blob version: ${parsed?.v}`);
+    }
+
+    if (parsed.wrapped) {
+      if (passphrase === undefined) {
+        throw new InvalidStateError('Identity blob is encrypted. A passphrase is required.');
+      }
+      await this.loadIdentity('pkcs8', await unwrapWithPassphrase(parsed.wrapped, passphrase), true);
+    } else if (typeof parsed.pkcs8 === 'string') {
+      await this.loadIdentity('pkcs8', base64StringToByteArr(parsed.pkcs8), true);
+    } else {
+      throw new EncodingError('Invalid identity blob');
+    }
+  }
+
+  /**
+   * Load our identity from a key store, generating and storing a new one on first use,
+   * so the public key stays the same across restarts
+   * @param store Where the identity is kept
+   * @param options Key name and passphrase
+   * @returns Promise<boolean> true if a new identity was generated
+   */
+  public async loadOrCreateIdentity(store: KeyStore, options: IdentityStoreOptions = {}): Promise<boolean> {
+    const name = options.name ?? 'identity';
+    const stored = await store.get(name);
+
+    if (stored !== null) {
+      await this.importIdentity(stored, options.passphrase);
+      return false;
+    }
+
+    await this.generateIdentity();
+    await store.set(name, await this.exportIdentity(options.passphrase, options.iterations));
+    return true;
+  }
+
   /**
    * Get our public key to share with others
    * @returns Base64 encoded public key
    */
   public async getPublicKey(): Promise<string> {
-    if (!this.subtle || !this.keypair) throw new Error('Signature not initialized');
+    if (!this.subtle || !this.keypair) throw new NotInitializedError('Signature not initialized');
     
     const publicKeyBytes = await this.subtle.exportKey('raw', this.keypair.publicKey);
     return byteArrayToBase64(publicKeyBytes);
@@ -71,7 +206,7 @@ export class Signature {
    * @returns the signature
    */
   public async sign(data: string | Uint8Array): Promise<Uint8Array> {
-    if (!this.subtle || !this.keypair) throw new Error('Signature not initialized');
+    if (!this.subtle || !this.keypair) throw new NotInitializedError('Signature not initialized');
 
     const dataToSign = typeof data === 'string' ? new TextEncoder().encode(data) : data;
     
@@ -85,24 +220,32 @@ export class Signature {
   }
 
   /**
-   * Verify signature from server using the stored server public key
+   * Verify signature from server using the stored server public key and the trust store
    * @param signature byte array signature to verify
    * @param data Original data that was signed
+   * @param keyId Verify only against this trust store key
    * @returns boolean indicating if signature is valid
    */
-  public async verify(signatureBytes: Uint8Array, data: string | Uint8Array): Promise<boolean> {
-    if (!this.subtle || !this.serverPublicKey) {
-      throw new Error('Server public key not initialized. Call initializeServerKey() first.');
+  public async verify(signatureBytes: Uint8Array, data: string | Uint8Array, keyId?: string): Promise<boolean> {
+    if (keyId !== undefined) {
+      return this.trustStore.verify(signatureBytes, data, keyId);
+    }
+    if (!this.subtle || (!this.serverPublicKey && this.trustStore.size === 0)) {
+      throw new NotInitializedError('Server public key not initialized. Call initializeServerKey() first.');
     }
 
     const dataToVerify = typeof data === 'string' ? new TextEncoder().encode(data) : data;
 
-    return await this.subtle.verify(
+    if (this.serverPublicKey && await this.subtle.verify(
       'Ed25519',
       this.serverPublicKey,
       signatureBytes as any,
       dataToVerify as any
-    );
+    )) {
+      return true;
+    }
+
+    return this.trustStore.size > 0 && this.trustStore.verify(signatureBytes, dataToVerify);
   }
 
   /**
@@ -113,16 +256,21 @@ export class Signature {
    * @returns boolean indicating if signature is valid
    */
   public async verifyWithKey(publicKeyBytes: Uint8Array, signatureBytes: Uint8Array, data: string | Uint8Array): Promise<boolean> {
-    if (!this.subtle) throw new Error('Crypto not initialized');
+    if (!this.subtle) throw new NotInitializedError('Crypto not initialized');
 
     const dataToVerify = typeof data === 'string' ? new TextEncoder().encode(data) : data;
-    const publicKey = await this.subtle.importKey(
-      'raw',
-      publicKeyBytes as any,
-      { name: 'Ed25519' },
-      false, // not extractable
-      ['verify']
-    );
+    let publicKey: CryptoKey;
+    try {
+      publicKey = await this.subtle.importKey(
+        'raw',
+        publicKeyBytes as any,
+        { name: 'Ed25519' },
+        false, // not extractable
+        ['verify']
+      );
+    } catch {
+      throw new InvalidKeyError('Invalid Ed25519 public key');
+    }
 
     return await this.subtle.verify(
       'Ed25519',
@@ -136,20 +284,7 @@ export class Signature {
    * Initialize the crypto subsystem and generate key pair
    */
   private async init(): Promise<void> {
-    const globalObj = globalThis as any;
-    // 1. Try Browser environment first
-    if (globalObj.crypto?.subtle) {
-      this.subtle = globalObj.crypto.subtle;
-    }
-//   Try Node.js webcrypto import (Node.js 15+)
-    else {
-      try {
-        const { webcrypto } = await import('crypto' as any);
-        this.subtle = webcrypto.subtle as any;
-      } catch (error) {
-        throw new Error('Web Crypto API not available in this environment');
-      }
-    }
+    this.subtle = await getSubtleCrypto();
 
     // Generate our key pair (non-exportable)
     this.keypair = await this.subtle?.generateKey(
@@ -158,4 +293,33 @@ export class Signature {
       ['sign', 'verify']
     ) as CryptoKeyPair;
   }
-}
\ No newline at end of file
+}
+
+function identitySeed(format: IdentityKeyFormat, key: Uint8Array | Record<string, any>): Uint8Array {
+  if (format === 'seed') {
+    if (!(key instanceof Uint8Array) || key.length !== 32) {
+      throw new InvalidKeyError('Ed25519 seed must be 32 bytes');
+    }
+    return key;
+  }
+
+  if (format === 'pkcs8') {
+    const prefixMatches = key instanceof Uint8Array
+      && key.length === ED25519_PKCS8_PREFIX.length + 32
+      && ED25519_PKCS8_PREFIX.every((byte, i) => key[i] === byte);
+    if (!prefixMatches) {
+      throw new InvalidKeyError('Invalid Ed25519 PKCS#8 key');
+    }
+    return (key as Uint8Array).slice(ED25519_PKCS8_PREFIX.length);
+  }
+
+  if (format === 'jwk') {
+    const jwk = key as Record<string, any>;
+    if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || typeof jwk.d !== 'string') {
+      throw new InvalidKeyError('JWK must be an Ed25519 OKP private key');
+    }
+    return identitySeed('seed', base64UrlToByteArr(jwk.d));
+  }
+
+  throw new InvalidKeyError(`Unsupported identity key format: ${format}`);
+}
@@ -0,0 +1,295 @@
+import { AuthenticationFailedError, EncodingError } from './errors';
+import { concatBytes, generateRandomBytes, getSubtleCrypto, uint32ToBytes } from './helpers';
+import { KeyExchange } from './KeyExchange';
+import { CryptoKey, SubtleCrypto } from './types';
+
+export const STREAM_VERSION = 1;
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+const MAX_STREAM_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/** Where stream keys come from: a 32-byte secret, or the current keys of a session */
+export type StreamKeySource = Uint8Array | KeyExchange;
+
+export interface StreamOptions {
+  chunkSize?: number; // Plaintext bytes per chunk
+}
+
+const HEADER_LENGTH = 28; // version (1) + chunk size (4) + salt (16) + nonce prefix (7)
+const SALT_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+const MAX_CHUNKS = 0xffffffff;
+const STREAM_INFO = 'secure-channel stream';
+
+/**
+ * Chunked streaming AEAD (STREAM construction, Hoang-Reyhanitabar-Rogaway-Vizár) over AES-256-GCM.
+ *
+ * Output: header | chunk 0 | chunk 1 | ... | final chunk. Every stream gets its own key, derived
+ * with HKDF from the key source and the random salt in the header. Chunk i is sealed with nonce
+ * prefix || i (u32) || final flag (u8) and the header as associated data, so chunks cannot be
+ * reordered, dropped, or moved between streams, and cutting the stream short is detected.
+ */
+class StreamSealer {
+  private pending: Uint8Array = new Uint8Array(0);
+  private counter = 0;
+  private headerSent = false;
+
+  private constructor(
+    private readonly subtle: SubtleCrypto,
+    private readonly key: CryptoKey,
+    private readonly header: Uint8Array,
+    private readonly chunkSize: number
+  ) {}
+
+  public static async create(source: StreamKeySource, options: StreamOptions = {}): Promise<StreamSealer> {
+    const chunkSize = options.chunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+    checkChunkSize(chunkSize);
+
+    const salt = await generateRandomBytes(SALT_LENGTH);
+    const header = concatBytes(
+      new Uint8Array([STREAM_VERSION]),
+      uint32ToBytes(chunkSize),
+      salt,
+      await generateRandomBytes(NONCE_PREFIX_LENGTH)
+    );
+    return new StreamSealer(await getSubtleCrypto(), await streamKey(source, 'tx', salt), header, chunkSize);
+  }
+
+  /**
+   * Encrypt more input. A chunk is only emitted once more data follows it,
+   * because the last chunk has to carry the final flag.
+   */
+  public async push(data: Uint8Array): Promise<Uint8Array[]> {
+    const output = this.takeHeader();
+    this.pending = concatBytes(this.pending, data);
+
+    let offset = 0;
+    while (this.pending.length - offset > this.chunkSize) {
+      output.push(await this.sealChunk(this.pending.subarray(offset, offset + this.chunkSize), false));
+      offset += this.chunkSize;
+    }
+    this.pending = this.pending.slice(offset);
+    return output;
+  }
+
+  /** Encrypt the remaining input as the final chunk (possibly empty) */
+  public async finish(): Promise<Uint8Array[]> {
+    const output = this.takeHeader();
+    output.push(await this.sealChunk(this.pending, true));
+    this.pending = new Uint8Array(0);
+    return output;
+  }
+
+  private takeHeader(): Uint8Array[] {
+    if (this.headerSent) return [];
+    this.headerSent = true;
+    return [this.header];
+  }
+
+  private async sealChunk(plaintext: Uint8Array, final: boolean): Promise<Uint8Array> {
+    if (this.counter >= MAX_CHUNKS) throw new Error('Stream too long');
+
+    const ciphertext = await this.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkNonce(this.header, this.counter++, final), additionalData: this.header },
+      this.key,
+      plaintext as any
+    );
+    return new Uint8Array(ciphertext);
+  }
+}
+
+/**
+ * Decrypting side of StreamSealer. Chunks are released as soon as they authenticate, so
+ * until finish() succeeds the output may be a truncated prefix of the original.
+ */
+class StreamOpener {
+  private pending: Uint8Array = new Uint8Array(0);
+  private counter = 0;
+  private header: Uint8Array | null = null;
+  private key: CryptoKey | null = null;
+  private chunkSize = 0;
+
+  private constructor(private readonly subtle: SubtleCrypto, private readonly source: StreamKeySource) {}
+
+  public static async create(source: StreamKeySource): Promise<StreamOpener> {
+    return new StreamOpener(await getSubtleCrypto(), source);
+  }
+
+  public async push(data: Uint8Array): Promise<Uint8Array[]> {
+    this.pending = concatBytes(this.pending, data);
+    if (!this.header) {
+      if (this.pending.length < HEADER_LENGTH) return [];
+      await this.readHeader();
+    }
+
+    const output: Uint8Array[] = [];
+    const encryptedChunkSize = this.chunkSize + TAG_LENGTH;
+    let offset = 0;
+    // Keep at least one full chunk back: it could be the final one
+    while (this.pending.length - offset > encryptedChunkSize) {
+      output.push(await this.openChunk(this.pending.subarray(offset, offset + encryptedChunkSize), false));
+      offset += encryptedChunkSize;
+    }
+    this.pending = this.pending.slice(offset);
+    return output;
+  }
+
+  /**
+   * Decrypt the final chunk
+   * @throws {AuthenticationFailedError} If the stream was cut short or tampered with
+   */
+  public async finish(): Promise<Uint8Array[]> {
+    if (!this.header) throw new AuthenticationFailedError('Stream truncated: header incomplete');
+    if (this.pending.length < TAG_LENGTH) throw new AuthenticationFailedError('Stream truncated or corrupted');
+
+    const output = [await this.openChunk(this.pending, true)];
+    this.pending = new Uint8Array(0);
+    return output;
+  }
+
+  private async readHeader(): Promise<void> {
+    const header = this.pending.slice(0, HEADER_LENGTH);
+    if (header[0] !== STREAM_VERSION) {
+      throw new EncodingError(`Unsupported stream version: ${header[0]}`);
+    }
+
+    const chunkSize = new DataView(header.buffer).getUint32(1);
+    checkChunkSize(chunkSize);
+
+    this.key = await streamKey(this.source, 'rx', header.slice(5, 5 + SALT_LENGTH));
+    this.chunkSize = chunkSize;
+    this.header = header;
+    this.pending = this.pending.slice(HEADER_LENGTH);
+  }
+
+  private async openChunk(ciphertext: Uint8Array, final: boolean): Promise<Uint8Array> {
+    if (this.counter >= MAX_CHUNKS) throw new Error('Stream too long');
+
+    try {
+      const plaintext = await this.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkNonce(this.header!, this.counter, final), additionalData: this.header! },
+        this.key!,
+        ciphertext as any
+      );
+      this.counter++;
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new AuthenticationFailedError(final
+        ? 'Stream truncated or corrupted'
+        : `Stream chunk ${this.counter} failed to authenticate`);
+    }
+  }
+}
+
+/**
+ * Encrypting WHATWG TransformStream (browsers, Deno, Node.js 18+)
+ * @param source Key source; a KeyExchange session encrypts with its TX key
+ * @param options Chunk size
+ * @returns TransformStream of plaintext bytes to stream bytes
+ */
+export function createEncryptionStream(source: StreamKeySource, options: StreamOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+  let sealer: StreamSealer;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      sealer = await StreamSealer.create(source, options);
+    },
+    async transform(chunk, controller) {
+      for (const output of await sealer.push(chunk)) controller.enqueue(output);
+    },
+    async flush(controller) {
+      for (const output of await sealer.finish()) controller.enqueue(output);
+    },
+  });
+}
+
+/**
+ * Decrypting WHATWG TransformStream. The readable side errors with AuthenticationFailedError if the
+ * input was truncated or modified; only trust the output once it has closed normally.
+ * @param source Key source; a KeyExchange session decrypts with its RX key
+ * @returns TransformStream of stream bytes to plaintext bytes
+ */
+export function createDecryptionStream(source: StreamKeySource): TransformStream<Uint8Array, Uint8Array> {
+  let opener: StreamOpener;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      opener = await StreamOpener.create(source);
+    },
+    async transform(chunk, controller) {
+      for (const output of await opener.push(chunk)) controller.enqueue(output);
+    },
+    async flush(controller) {
+      for (const output of await opener.finish()) controller.enqueue(output);
+    },
+  });
+}
+
+/**
+ * Encrypting Node.js Transform stream, e.g. for fs.createReadStream(...).pipe(...)
+ * @param source Key source; a KeyExchange session encrypts with its TX key
+ * @param options Chunk size
+ * @returns Promise<stream.Transform>
+ */
+export async function createNodeEncryptionStream(source: StreamKeySource, options: StreamOptions = {}): Promise<any> {
+  return nodeTransform(await StreamSealer.create(source, options));
+}
+
+/**
+ * Decrypting Node.js Transform stream. It emits an AuthenticationFailedError if the input was truncated or modified.
+ * @param source Key source; a KeyExchange session decrypts with its RX key
+ * @returns Promise<stream.Transform>
+ */
+export async function createNodeDecryptionStream(source: StreamKeySource): Promise<any> {
+  return nodeTransform(await StreamOpener.create(source));
+}
+
+async function nodeTransform(engine: StreamSealer | StreamOpener): Promise<any> {
+  let Transform: any;
+  try {
+    ({ Transform } = await import('stream' as any));
+  } catch (error) {
+    throw new Error('Node.js streams not available in this environment');
+  }
+
+  return new Transform({
+    transform(chunk: Uint8Array, _encoding: string, callback: (error?: Error | null) => void) {
+      engine.push(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)).then(outputs => {
+        for (const output of outputs) this.push(output);
+        callback();
+      }, callback);
+    },
+    flush(callback: (error?: Error | null) => void) {
+      engine.finish().then(outputs => {
+        for (const output of outputs) this.push(output);
+        callback();
+      }, callback);
+    },
+  });
+}
+
+async function streamKey(source: StreamKeySource, direction: 'tx' | 'rx', salt: Uint8Array): Promise<CryptoKey> {
+  if (source instanceof KeyExchange) {
+    return source.deriveSubkey(direction, salt, STREAM_INFO);
+  }
+  if (source.length !== 32) {
+    throw new Error(`Stream key must be 32 bytes, got ${source.length}`);
+  }
+
+  const subtle = await getSubtleCrypto();
+  const baseKey = await subtle.importKey('raw', source as any, 'HKDF', false, ['deriveBits']);
+  const raw = await subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(STREAM_INFO) },
+    baseKey,
+    256
+  );
+  return subtle.importKey('raw', raw, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+function chunkNonce(header: Uint8Array, counter: number, final: boolean): Uint8Array {
+  return concatBytes(header.subarray(HEADER_LENGTH - NONCE_PREFIX_LENGTH), uint32ToBytes(counter), new Uint8Array([final ? 1 : 0]));
+}
+
+function checkChunkSize(chunkSize: number): void {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be an integer between 1 and ${MAX_STREAM_CHUNK_SIZE}`);
+  }
+}
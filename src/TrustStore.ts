@@ -0,0 +1,175 @@
+import { InvalidKeyError } from './errors';
+import { byteArrayToBase64, base64StringToByteArr, getSubtleCrypto } from './helpers';
+import { CryptoKey } from './types';
+
+export interface TrustedKeyOptions {
+  name?: string; // Logical owner, e.g. 'api-server'; versions of one name form a rotation series
+  version?: number; // Higher versions are preferred when several keys are active
+  notBefore?: number; // Epoch ms; the key is not valid before this time
+  notAfter?: number; // Epoch ms; the key is not valid from this time on
+}
+
+export interface TrustedKeyInfo extends TrustedKeyOptions {
+  keyId: string;
+  publicKey: string; // Base64 Ed25519 public key
+  revokedAt?: number; // Epoch ms the key was revoked from
+}
+
+interface TrustedKey extends TrustedKeyInfo {
+  cryptoKey: CryptoKey;
+}
+
+/**
+ * Set of trusted Ed25519 peer keys, addressed by key ID, with validity windows and revocation.
+ * Lets verifiers accept both the old and the new key while a peer rotates.
+ */
+export class TrustStore {
+  private readonly keys = new Map<string, TrustedKey>();
+
+  /**
+   * Trust a peer public key
+   * @param keyId Unique key identifier, e.g. the `kid` the peer sends with its signatures
+   * @param publicKey Ed25519 public key, raw bytes or base64
+   * @param options Name, version and validity window
+   */
+  public async addKey(keyId: string, publicKey: string | Uint8Array, options: TrustedKeyOptions = {}): Promise<void> {
+    if (this.keys.has(keyId)) {
+      throw new Error(`Key ID already trusted: ${keyId}`);
+    }
+    if (options.notBefore !== undefined && options.notAfter !== undefined && options.notAfter <= options.notBefore) {
+      throw new Error('notAfter must be later than notBefore');
+    }
+
+    const publicKeyBytes = typeof publicKey === 'string' ? base64StringToByteArr(publicKey) : publicKey;
+    if (publicKeyBytes.length !== 32) {
+      throw new Error(`Invalid Ed25519 public key length: ${publicKeyBytes.length}`);
+    }
+
+    const cryptoKey = await (await getSubtleCrypto()).importKey(
+      'raw',
+      publicKeyBytes as any,
+      { name: 'Ed25519' },
+      false, // not extractable
+      ['verify']
+    );
+
+    this.keys.set(keyId, {
+      ...options,
+      keyId,
+      publicKey: byteArrayToBase64(publicKeyBytes),
+      cryptoKey,
+    });
+  }
+
+  /**
+   * Revoke a key. It stays listed but no longer verifies anything from `at` on.
+   * @param keyId Key to revoke
+   * @param at Epoch ms the revocation takes effect (defaults to now)
+   */
+  public revokeKey(keyId: string, at = Date.now()): void {
+    const key = this.keys.get(keyId);
+    if (!key) throw new InvalidKeyError(`Unknown key ID: ${keyId}`);
+
+    key.revokedAt = Math.min(key.revokedAt ?? at, at);
+  }
+
+  /**
+   * Forget a key entirely
+   * @returns true if the key was present
+   */
+  public removeKey(keyId: string): boolean {
+    return this.keys.delete(keyId);
+  }
+
+  public getKey(keyId: string): TrustedKeyInfo | null {
+    const key = this.keys.get(keyId);
+    return key ? toInfo(key) : null;
+  }
+
+  public listKeys(): TrustedKeyInfo[] {
+    return Array.from(this.keys.values(), toInfo);
+  }
+
+  /**
+   * Whether a key is known, inside its validity window and not revoked
+   * @param keyId Key to check
+   * @param now Epoch ms to check at
+   */
+  public isActive(keyId: string, now = Date.now()): boolean {
+    const key = this.keys.get(keyId);
+    return key !== undefined && isActiveAt(key, now);
+  }
+
+  /**
+   * Active keys, highest version first
+   * @param name Only keys with this name
+   * @param now Epoch ms to check at
+   */
+  public activeKeys(name?: string, now = Date.now()): TrustedKeyInfo[] {
+    return this.activeEntries(name, now).map(toInfo);
+  }
+
+  /**
+   * Find which trusted key made a signature
+   * @param signatureBytes Signature to check
+   * @param data Original data that was signed
+   * @param keyId Only try this key; otherwise every active key is tried, highest version first
+   * @param now Epoch ms to check validity at
+   * @returns ID of the key that verified the signature, or null
+   * @throws {InvalidKeyError} If keyId is given but not in the store
+   */
+  public async findSigner(
+    signatureBytes: Uint8Array,
+    data: string | Uint8Array,
+    keyId?: string,
+    now = Date.now()
+  ): Promise<string | null> {
+    let candidates: TrustedKey[];
+    if (keyId !== undefined) {
+      const key = this.keys.get(keyId);
+      if (!key) throw new InvalidKeyError(`Unknown key ID: ${keyId}`);
+      candidates = isActiveAt(key, now) ? [key] : [];
+    } else {
+      candidates = this.activeEntries(undefined, now);
+    }
+
+    const subtle = await getSubtleCrypto();
+    const dataToVerify = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+    for (const key of candidates) {
+      if (await subtle.verify('Ed25519', key.cryptoKey, signatureBytes as any, dataToVerify as any)) {
+        return key.keyId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Verify a signature against the trusted keys
+   * @returns boolean indicating if signature is valid
+   */
+  public async verify(signatureBytes: Uint8Array, data: string | Uint8Array, keyId?: string, now = Date.now()): Promise<boolean> {
+    return (await this.findSigner(signatureBytes, data, keyId, now)) !== null;
+  }
+
+  public get size(): number {
+    return this.keys.size;
+  }
+
+  private activeEntries(name: string | undefined, now: number): TrustedKey[] {
+    return Array.from(this.keys.values())
+      .filter(key => (name === undefined || key.name === name) && isActiveAt(key, now))
+      .sort((a, b) => (b.version ?? 0) - (a.version ?? 0));
+  }
+}
+
+function isActiveAt(key: TrustedKey, now: number): boolean {
+  if (key.notBefore !== undefined && now < key.notBefore) return false;
+  if (key.notAfter !== undefined && now >= key.notAfter) return false;
+  if (key.revokedAt !== undefined && now >= key.revokedAt) return false;
+  return true;
+}
+
+function toInfo({ cryptoKey, ...info }: TrustedKey): TrustedKeyInfo {
+  return { ...info };
+}
@@ -0,0 +1,123 @@
+import { getCryptoProvider } from './CryptoProvider';
+import { CurveFallbackSubtle } from './CurveFallback';
+import { getSubtleCrypto } from './helpers';
+import { SubtleCrypto } from './types';
+
+/**
+ * Result of probing one primitive. `implementation` is 'fallback' when the pure TypeScript
+ * curve implementation stands in for a platform without native support.
+ */
+export interface Capability {
+  supported: boolean;
+  implementation: 'native' | 'fallback' | null; // null when unsupported
+  error?: string; // Why the probe failed
+}
+
+export interface CapabilityReport {
+  provider: 'platform' | 'custom'; // Whether setCryptoProvider() was used
+  webCrypto: boolean; // Whether a SubtleCrypto implementation was found at all
+  x25519: Capability;
+  ed25519: Capability;
+  hkdf: Capability;
+  aesGcm: Capability;
+}
+
+// One probe per SubtleCrypto, so a new provider gets probed again
+const reports = new WeakMap<SubtleCrypto, Promise<CapabilityReport>>();
+
+/**
+ * Check which primitives the current crypto implementation supports, by running each one once
+ * (X25519 key agreement, Ed25519 sign/verify, HKDF-SHA256 and an AES-256-GCM round trip).
+ * Probes never throw: failures are reported with their error message.
+ * The result is cached per SubtleCrypto implementation.
+ * @returns Promise<CapabilityReport>
+ */
+export async function detectCapabilities(): Promise<CapabilityReport> {
+  const provider = getCryptoProvider() ? 'custom' : 'platform';
+
+  let subtle: SubtleCrypto;
+  try {
+    subtle = await getSubtleCrypto();
+  } catch (error) {
+    const missing = unsupported(error);
+    return { provider, webCrypto: false, x25519: missing, ed25519: missing, hkdf: missing, aesGcm: missing };
+  }
+
+  let report = reports.get(subtle);
+  if (!report) {
+    report = probeAll(subtle, provider);
+    reports.set(subtle, report);
+  }
+  return report;
+}
+
+async function probeAll(subtle: SubtleCrypto, provider: CapabilityReport['provider']): Promise<CapabilityReport> {
+  // Sequential on purpose: the curve probes decide whether the fallback takes over
+  const x25519 = await probe(subtle, 'X25519', () => probeX25519(subtle));
+  const ed25519 = await probe(subtle, 'Ed25519', () => probeEd25519(subtle));
+  const hkdf = await probe(subtle, null, () => probeHkdf(subtle));
+  const aesGcm = await probe(subtle, null, () => probeAesGcm(subtle));
+  return { provider, webCrypto: true, x25519, ed25519, hkdf, aesGcm };
+}
+
+async function probe(subtle: SubtleCrypto, curve: 'X25519' | 'Ed25519' | null, run: () => Promise<void>): Promise<Capability> {
+  try {
+    await run();
+  } catch (error) {
+    return unsupported(error);
+  }
+  const fallback = curve !== null && subtle instanceof CurveFallbackSubtle && subtle.usesFallback(curve);
+  return { supported: true, implementation: fallback ? 'fallback' : 'native' };
+}
+
+async function probeX25519(subtle: SubtleCrypto): Promise<void> {
+  const ours = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+  const theirs = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+  const a = new Uint8Array(await subtle.deriveBits({ name: 'X25519', public: theirs.publicKey }, ours.privateKey, 256));
+  const b = new Uint8Array(await subtle.deriveBits({ name: 'X25519', public: ours.publicKey }, theirs.privateKey, 256));
+  if (!equalBytes(a, b)) {
+    throw new Error('X25519 shared secrets do not match');
+  }
+}
+
+async function probeEd25519(subtle: SubtleCrypto): Promise<void> {
+  const keyPair = await subtle.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify']);
+  const data = new TextEncoder().encode('capability probe');
+  const signature = await subtle.sign('Ed25519', keyPair.privateKey, data);
+  if (!await subtle.verify('Ed25519', keyPair.publicKey, signature, data)) {
+    throw new Error('Ed25519 signature did not verify');
+  }
+}
+
+async function probeHkdf(subtle: SubtleCrypto): Promise<void> {
+  const baseKey = await subtle.importKey('raw', new Uint8Array(32), 'HKDF', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new Uint8Array(0) },
+    baseKey,
+    256
+  );
+  if (bits.byteLength !== 32) {
+    throw new Error(`HKDF returned ${bits.byteLength} bytes`);
+  }
+}
+
+async function probeAesGcm(subtle: SubtleCrypto): Promise<void> {
+  const key = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const iv = new Uint8Array(12);
+  const plaintext = new TextEncoder().encode('capability probe');
+  const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  const decrypted = new Uint8Array(await subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext));
+  if (!equalBytes(decrypted, plaintext)) {
+    throw new Error('AES-GCM round trip failed');
+  }
+}
+
+function unsupported(error: unknown): Capability {
+  // DOMExceptions are not always instanceof Error, so read the message directly
+  const message = (error as { message?: unknown } | null)?.message;
+  return { supported: false, implementation: null, error: typeof message === 'string' ? message : String(error) };
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,238 @@
+/**
+ * Pure TypeScript ChaCha20-Poly1305 AEAD (RFC 8439), for platforms whose Web Crypto API
+ * has no ChaCha20 (none currently do). Poly1305 follows TweetNaCl: 17 limbs of 8 bits,
+ * with the final reduction done by masking instead of branching.
+ */
+
+import { AuthenticationFailedError } from './errors';
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// "expand 32-byte k"
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+function rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  x[a] = x[a]! + x[b]!; x[d] = rotl(x[d]! ^ x[a]!, 16);
+  x[c] = x[c]! + x[d]!; x[b] = rotl(x[b]! ^ x[c]!, 12);
+  x[a] = x[a]! + x[b]!; x[d] = rotl(x[d]! ^ x[a]!, 8);
+  x[c] = x[c]! + x[d]!; x[b] = rotl(x[b]! ^ x[c]!, 7);
+}
+
+// One 64-byte keystream block (RFC 8439 section 2.3)
+function chachaBlock(key: Uint32Array, counter: number, nonce: Uint32Array, out: Uint8Array): void {
+  const state = new Uint32Array(16);
+  state.set(SIGMA, 0);
+  state.set(key, 4);
+  state[12] = counter;
+  state.set(nonce, 13);
+
+  const x = state.slice();
+  for (let i = 0; i < 10; i++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  for (let i = 0; i < 16; i++) {
+    view.setUint32(4 * i, (x[i]! + state[i]!) >>> 0, true);
+  }
+}
+
+function toWords(bytes: Uint8Array): Uint32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const words = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < words.length; i++) words[i] = view.getUint32(4 * i, true);
+  return words;
+}
+
+/**
+ * ChaCha20 stream cipher (RFC 8439 section 2.4)
+ * @param key 32-byte key
+ * @param nonce 12-byte nonce
+ * @param counter Initial block counter
+ * @param data Input to XOR with the keystream
+ * @returns Uint8Array
+ */
+export function chacha20(key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array {
+  checkLength(key, KEY_LENGTH, 'ChaCha20 key');
+  checkLength(nonce, NONCE_LENGTH, 'ChaCha20 nonce');
+  if (counter + Math.ceil(data.length / 64) > 0x100000000) {
+    throw new Error('ChaCha20 message too long');
+  }
+
+  const keyWords = toWords(key);
+  const nonceWords = toWords(nonce);
+  const out = new Uint8Array(data.length);
+  const block = new Uint8Array(64);
+  for (let offset = 0; offset < data.length; offset += 64) {
+    chachaBlock(keyWords, counter++, nonceWords, block);
+    const end = Math.min(64, data.length - offset);
+    for (let i = 0; i < end; i++) out[offset + i] = data[offset + i]! ^ block[i]!;
+  }
+  block.fill(0);
+  return out;
+}
+
+function add1305(h: Uint32Array, c: Uint32Array): void {
+  let u = 0;
+  for (let j = 0; j < 17; j++) {
+    u = (u + ((h[j]! + c[j]!) | 0)) | 0;
+    h[j] = u & 255;
+    u >>>= 8;
+  }
+}
+
+// -p = 2^130 - 5 complement, used for the final reduction
+const MINUS_P = new Uint32Array([5, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 252]);
+
+/**
+ * Poly1305 one-time authenticator (RFC 8439 section 2.5)
+ * @param key 32-byte one-time key
+ * @param message Message to authenticate
+ * @returns 16-byte tag
+ */
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  checkLength(key, KEY_LENGTH, 'Poly1305 key');
+
+  const x = new Uint32Array(17);
+  const r = new Uint32Array(17);
+  const h = new Uint32Array(17);
+  const c = new Uint32Array(17);
+  const g = new Uint32Array(17);
+
+  for (let j = 0; j < 16; j++) r[j] = key[j]!;
+  // Clamp r
+  r[3] = r[3]! & 15; r[4] = r[4]! & 252; r[7] = r[7]! & 15; r[8] = r[8]! & 252;
+  r[11] = r[11]! & 15; r[12] = r[12]! & 252; r[15] = r[15]! & 15;
+
+  let position = 0;
+  let remaining = message.length;
+  while (remaining > 0) {
+    c.fill(0);
+    let j = 0;
+    for (; j < 16 && j < remaining; j++) c[j] = message[position + j]!;
+    c[j] = 1;
+    position += j;
+    remaining -= j;
+    add1305(h, c);
+
+    // h = h * r mod 2^130 - 5 (320 = 5 * 2^6 folds limbs above 2^130 back in)
+    for (let i = 0; i < 17; i++) {
+      x[i] = 0;
+      for (let k = 0; k < 17; k++) {
+        x[i] = (x[i]! + (h[k]! * (k <= i ? r[i - k]! : (320 * r[i + 17 - k]!) | 0)) | 0) | 0;
+      }
+    }
+    h.set(x);
+
+    let u = 0;
+    for (let k = 0; k < 16; k++) {
+      u = (u + h[k]!) | 0;
+      h[k] = u & 255;
+      u >>>= 8;
+    }
+    u = (u + h[16]!) | 0;
+    h[16] = u & 3;
+    u = (5 * (u >>> 2)) | 0;
+    for (let k = 0; k < 16; k++) {
+      u = (u + h[k]!) | 0;
+      h[k] = u & 255;
+      u >>>= 8;
+    }
+    h[16] = (u + h[16]!) | 0;
+  }
+
+  // Subtract p if h >= p
+  g.set(h);
+  add1305(h, MINUS_P);
+  const mask = -(h[16]! >>> 7) | 0;
+  for (let j = 0; j < 17; j++) h[j] = h[j]! ^ (mask & (g[j]! ^ h[j]!));
+
+  // Add s
+  for (let j = 0; j < 16; j++) c[j] = key[j + 16]!;
+  c[16] = 0;
+  add1305(h, c);
+
+  return Uint8Array.from(h.subarray(0, 16));
+}
+
+// Poly1305 input for the AEAD: aad | pad | ciphertext | pad | aad length (u64le) | ciphertext length (u64le)
+function macData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const aadPadded = Math.ceil(aad.length / 16) * 16;
+  const ciphertextPadded = Math.ceil(ciphertext.length / 16) * 16;
+  const data = new Uint8Array(aadPadded + ciphertextPadded + 16);
+  data.set(aad, 0);
+  data.set(ciphertext, aadPadded);
+  const view = new DataView(data.buffer);
+  view.setUint32(aadPadded + ciphertextPadded, aad.length, true);
+  view.setUint32(aadPadded + ciphertextPadded + 8, ciphertext.length, true);
+  return data;
+}
+
+function oneTimeKey(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return chacha20(key, nonce, 0, new Uint8Array(32));
+}
+
+/**
+ * Encrypt and authenticate (RFC 8439 section 2.8)
+ * @param key 32-byte key
+ * @param nonce 12-byte nonce; never reuse one with the same key
+ * @param plaintext Data to encrypt
+ * @param additionalData Data to authenticate only
+ * @returns Uint8Array ciphertext followed by the 16-byte tag
+ */
+export function chacha20Poly1305Seal(key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const ciphertext = chacha20(key, nonce, 1, plaintext);
+  const tag = poly1305(oneTimeKey(key, nonce), macData(additionalData, ciphertext));
+
+  const sealed = new Uint8Array(ciphertext.length + TAG_LENGTH);
+  sealed.set(ciphertext, 0);
+  sealed.set(tag, ciphertext.length);
+  return sealed;
+}
+
+/**
+ * Check the tag and decrypt (RFC 8439 section 2.8)
+ * @param key 32-byte key
+ * @param nonce 12-byte nonce used by the sender
+ * @param sealed Ciphertext followed by the 16-byte tag
+ * @param additionalData Data authenticated by the sender
+ * @returns Uint8Array plaintext
+ * @throws {AuthenticationFailedError} If the tag does not match
+ */
+export function chacha20Poly1305Open(key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array {
+  checkLength(key, KEY_LENGTH, 'ChaCha20 key');
+  checkLength(nonce, NONCE_LENGTH, 'ChaCha20 nonce');
+  if (sealed.length < TAG_LENGTH) {
+    throw new AuthenticationFailedError('ChaCha20-Poly1305 authentication failed');
+  }
+
+  const ciphertext = sealed.subarray(0, sealed.length - TAG_LENGTH);
+  const expected = poly1305(oneTimeKey(key, nonce), macData(additionalData, ciphertext));
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+
+  let diff = 0;
+  for (let i = 0; i < TAG_LENGTH; i++) diff |= expected[i]! ^ tag[i]!;
+  if (diff !== 0) {
+    throw new AuthenticationFailedError('ChaCha20-Poly1305 authentication failed');
+  }
+  return chacha20(key, nonce, 1, ciphertext);
+}
+
+function checkLength(bytes: Uint8Array, length: number, name: string): void {
+  if (bytes.length !== length) {
+    throw new Error(`${name} must be ${length} bytes, got ${bytes.length}`);
+  }
+}
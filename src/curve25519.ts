@@ -0,0 +1,496 @@
+/**
+ * Pure TypeScript X25519 (RFC 7748) and Ed25519 (RFC 8032), used when the platform's
+ * Web Crypto API lacks them. Field arithmetic follows TweetNaCl: elements are 16 limbs of
+ * 16 bits, and secret-dependent choices are made with masked swaps instead of branches.
+ */
+
+type FieldElement = Float64Array;
+type Point = [FieldElement, FieldElement, FieldElement, FieldElement]; // Extended coordinates (X, Y, Z, T)
+
+/** SHA-512, supplied by the caller (e.g. subtle.digest) */
+export type Sha512 = (data: Uint8Array) => Promise<Uint8Array>;
+
+const P = (1n << 255n) - 19n;
+
+function fe(init?: ArrayLike<number>): FieldElement {
+  const r = new Float64Array(16);
+  if (init) for (let i = 0; i < init.length; i++) r[i] = init[i]!;
+  return r;
+}
+
+function feFromBigInt(value: bigint): FieldElement {
+  const r = fe();
+  for (let i = 0; i < 16; i++) {
+    r[i] = Number((value >> BigInt(16 * i)) & 0xffffn);
+  }
+  return r;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  for (base %= P; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) result = result * base % P;
+    base = base * base % P;
+  }
+  return result;
+}
+
+// Curve constants, computed from their definitions (they are public, so bigint is fine here)
+const D_VALUE = (P - 121665n) * modPow(121666n, P - 2n) % P; // -121665/121666
+const BASE_Y = 4n * modPow(5n, P - 2n) % P;
+const BASE_X = recoverX(BASE_Y);
+
+const FE_ZERO = fe();
+const FE_ONE = fe([1]);
+const A24 = fe([0xdb41, 1]); // 121665
+const D = feFromBigInt(D_VALUE);
+const D2 = feFromBigInt(2n * D_VALUE % P);
+const SQRT_M1 = feFromBigInt(modPow(2n, (P - 1n) / 4n));
+const BASE_POINT_X = feFromBigInt(BASE_X);
+const BASE_POINT_Y = feFromBigInt(BASE_Y);
+
+// Group order L, little-endian
+const L = new Float64Array([
+  0xed, 0xd3, 0xf5, 0x5c, 0x1a, 0x63, 0x12, 0x58, 0xd6, 0x9c, 0xf7, 0xa2, 0xde, 0xf9, 0xde, 0x14,
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x10,
+]);
+
+function recoverX(y: bigint): bigint {
+  const y2 = y * y % P;
+  const x2 = (y2 - 1n + P) % P * modPow((D_VALUE * y2 + 1n) % P, P - 2n) % P;
+  let x = modPow(x2, (P + 3n) / 8n);
+  if (x * x % P !== x2) x = x * modPow(2n, (P - 1n) / 4n) % P;
+  return x % 2n === 0n ? x : P - x;
+}
+
+function set(r: FieldElement, a: FieldElement): void {
+  for (let i = 0; i < 16; i++) r[i] = a[i]!;
+}
+
+function carry(o: FieldElement): void {
+  let c = 1;
+  for (let i = 0; i < 16; i++) {
+    const v = o[i]! + c + 65535;
+    c = Math.floor(v / 65536);
+    o[i] = v - c * 65536;
+  }
+  o[0]! += c - 1 + 37 * (c - 1);
+}
+
+// Swap p and q when b is 1, without branching on b
+function conditionalSwap(p: FieldElement, q: FieldElement, b: number): void {
+  const mask = ~(b - 1);
+  for (let i = 0; i < 16; i++) {
+    const t = mask & (p[i]! ^ q[i]!);
+    p[i] = p[i]! ^ t;
+    q[i] = q[i]! ^ t;
+  }
+}
+
+function pack(o: Uint8Array, n: FieldElement): void {
+  const m = fe();
+  const t = fe(n);
+  carry(t);
+  carry(t);
+  carry(t);
+  for (let j = 0; j < 2; j++) {
+    m[0] = t[0]! - 0xffed;
+    for (let i = 1; i < 15; i++) {
+      m[i] = t[i]! - 0xffff - ((m[i - 1]! >> 16) & 1);
+      m[i - 1] = m[i - 1]! & 0xffff;
+    }
+    m[15] = t[15]! - 0x7fff - ((m[14]! >> 16) & 1);
+    const b = (m[15]! >> 16) & 1;
+    m[14] = m[14]! & 0xffff;
+    conditionalSwap(t, m, 1 - b);
+  }
+  for (let i = 0; i < 16; i++) {
+    o[2 * i] = t[i]! & 0xff;
+    o[2 * i + 1] = t[i]! >> 8;
+  }
+}
+
+function unpack(o: FieldElement, n: Uint8Array): void {
+  for (let i = 0; i < 16; i++) o[i] = n[2 * i]! + (n[2 * i + 1]! << 8);
+  o[15] = o[15]! & 0x7fff;
+}
+
+function equal(a: FieldElement, b: FieldElement): boolean {
+  const c = new Uint8Array(32);
+  const d = new Uint8Array(32);
+  pack(c, a);
+  pack(d, b);
+  return bytesEqual(c, d);
+}
+
+function parity(a: FieldElement): number {
+  const d = new Uint8Array(32);
+  pack(d, a);
+  return d[0]! & 1;
+}
+
+function add(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  for (let i = 0; i < 16; i++) o[i] = a[i]! + b[i]!;
+}
+
+function sub(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  for (let i = 0; i < 16; i++) o[i] = a[i]! - b[i]!;
+}
+
+const product = new Float64Array(31); // Scratch space for mul(), which never re-enters
+
+function mul(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  const t = product;
+  t.fill(0);
+  for (let i = 0; i < 16; i++) {
+    for (let j = 0; j < 16; j++) t[i + j]! += a[i]! * b[j]!;
+  }
+  // 2^256 = 38 mod p
+  for (let i = 0; i < 15; i++) t[i]! += 38 * t[i + 16]!;
+  for (let i = 0; i < 16; i++) o[i] = t[i]!;
+  carry(o);
+  carry(o);
+}
+
+function square(o: FieldElement, a: FieldElement): void {
+  mul(o, a, a);
+}
+
+// a^(p-2)
+function invert(o: FieldElement, a: FieldElement): void {
+  const c = fe(a);
+  for (let i = 253; i >= 0; i--) {
+    square(c, c);
+    if (i !== 2 && i !== 4) mul(c, c, a);
+  }
+  set(o, c);
+}
+
+// a^((p-5)/8)
+function pow2523(o: FieldElement, a: FieldElement): void {
+  const c = fe(a);
+  for (let i = 250; i >= 0; i--) {
+    square(c, c);
+    if (i !== 1) mul(c, c, a);
+  }
+  set(o, c);
+}
+
+/**
+ * X25519 function (RFC 7748 section 5)
+ * @param scalar 32-byte private scalar (clamped here)
+ * @param u 32-byte u-coordinate
+ * @returns 32-byte u-coordinate of scalar * u
+ */
+export function x25519(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+  checkLength(scalar, 32, 'X25519 scalar');
+  checkLength(u, 32, 'X25519 u-coordinate');
+
+  const z = scalar.slice();
+  z[31] = (z[31]! & 127) | 64;
+  z[0] = z[0]! & 248;
+
+  const x = fe();
+  unpack(x, u);
+  const a = fe([1]);
+  const b = fe(x);
+  const c = fe();
+  const d = fe([1]);
+  const e = fe();
+  const f = fe();
+
+  // Montgomery ladder
+  for (let i = 254; i >= 0; i--) {
+    const bit = (z[i >>> 3]! >>> (i & 7)) & 1;
+    conditionalSwap(a, b, bit);
+    conditionalSwap(c, d, bit);
+    add(e, a, c);
+    sub(a, a, c);
+    add(c, b, d);
+    sub(b, b, d);
+    square(d, e);
+    square(f, a);
+    mul(a, c, a);
+    mul(c, b, e);
+    add(e, a, c);
+    sub(a, a, c);
+    square(b, a);
+    sub(c, d, f);
+    mul(a, c, A24);
+    add(a, a, d);
+    mul(c, c, a);
+    mul(a, d, f);
+    mul(d, b, x);
+    square(b, e);
+    conditionalSwap(a, b, bit);
+    conditionalSwap(c, d, bit);
+  }
+
+  invert(c, c);
+  mul(a, a, c);
+  const out = new Uint8Array(32);
+  pack(out, a);
+  return out;
+}
+
+/**
+ * X25519 public key for a private scalar
+ * @param scalar 32-byte private scalar
+ * @returns 32-byte public key
+ */
+export function x25519PublicKey(scalar: Uint8Array): Uint8Array {
+  const basePoint = new Uint8Array(32);
+  basePoint[0] = 9;
+  return x25519(scalar, basePoint);
+}
+
+function pointAdd(p: Point, q: Point): void {
+  const a = fe(), b = fe(), c = fe(), d = fe(), e = fe(), f = fe(), g = fe(), h = fe(), t = fe();
+
+  sub(a, p[1], p[0]);
+  sub(t, q[1], q[0]);
+  mul(a, a, t);
+  add(b, p[0], p[1]);
+  add(t, q[0], q[1]);
+  mul(b, b, t);
+  mul(c, p[3], q[3]);
+  mul(c, c, D2);
+  mul(d, p[2], q[2]);
+  add(d, d, d);
+  sub(e, b, a);
+  sub(f, d, c);
+  add(g, d, c);
+  add(h, b, a);
+
+  mul(p[0], e, f);
+  mul(p[1], h, g);
+  mul(p[2], g, f);
+  mul(p[3], e, h);
+}
+
+function pointSwap(p: Point, q: Point, b: number): void {
+  for (let i = 0; i < 4; i++) conditionalSwap(p[i]!, q[i]!, b);
+}
+
+function pointPack(r: Uint8Array, p: Point): void {
+  const tx = fe(), ty = fe(), zi = fe();
+  invert(zi, p[2]);
+  mul(tx, p[0], zi);
+  mul(ty, p[1], zi);
+  pack(r, ty);
+  r[31] = r[31]! ^ (parity(tx) << 7);
+}
+
+// p = s * q, with a fixed sequence of operations for every scalar
+function scalarMult(p: Point, q: Point, s: Uint8Array): void {
+  set(p[0], FE_ZERO);
+  set(p[1], FE_ONE);
+  set(p[2], FE_ONE);
+  set(p[3], FE_ZERO);
+  for (let i = 255; i >= 0; i--) {
+    const bit = (s[(i / 8) | 0]! >> (i & 7)) & 1;
+    pointSwap(p, q, bit);
+    pointAdd(q, p);
+    pointAdd(p, p);
+    pointSwap(p, q, bit);
+  }
+}
+
+function scalarBase(p: Point, s: Uint8Array): void {
+  const q: Point = [fe(BASE_POINT_X), fe(BASE_POINT_Y), fe([1]), fe()];
+  mul(q[3], BASE_POINT_X, BASE_POINT_Y);
+  scalarMult(p, q, s);
+}
+
+function newPoint(): Point {
+  return [fe(), fe(), fe(), fe()];
+}
+
+// Decode a point and negate it; returns false if the encoding is not on the curve
+function unpackNegated(r: Point, p: Uint8Array): boolean {
+  const t = fe(), check = fe(), num = fe(), den = fe(), den2 = fe(), den4 = fe(), den6 = fe();
+
+  set(r[2], FE_ONE);
+  unpack(r[1], p);
+  square(num, r[1]);
+  mul(den, num, D);
+  sub(num, num, r[2]);
+  add(den, r[2], den);
+
+  square(den2, den);
+  square(den4, den2);
+  mul(den6, den4, den2);
+  mul(t, den6, num);
+  mul(t, t, den);
+
+  pow2523(t, t);
+  mul(t, t, num);
+  mul(t, t, den);
+  mul(t, t, den);
+  mul(r[0], t, den);
+
+  square(check, r[0]);
+  mul(check, check, den);
+  if (!equal(check, num)) mul(r[0], r[0], SQRT_M1);
+
+  square(check, r[0]);
+  mul(check, check, den);
+  if (!equal(check, num)) return false;
+
+  if (parity(r[0]) === (p[31]! >> 7)) sub(r[0], FE_ZERO, r[0]);
+  mul(r[3], r[0], r[1]);
+  return true;
+}
+
+function modL(r: Uint8Array, x: Float64Array): void {
+  let carryValue: number;
+  for (let i = 63; i >= 32; i--) {
+    carryValue = 0;
+    let j = i - 32;
+    for (const k = i - 12; j < k; j++) {
+      x[j]! += carryValue - 16 * x[i]! * L[j - (i - 32)]!;
+      carryValue = Math.floor((x[j]! + 128) / 256);
+      x[j]! -= carryValue * 256;
+    }
+    x[j]! += carryValue;
+    x[i] = 0;
+  }
+  carryValue = 0;
+  for (let j = 0; j < 32; j++) {
+    x[j]! += carryValue - (x[31]! >> 4) * L[j]!;
+    carryValue = x[j]! >> 8;
+    x[j] = x[j]! & 255;
+  }
+  for (let j = 0; j < 32; j++) x[j]! -= carryValue * L[j]!;
+  for (let i = 0; i < 32; i++) {
+    x[i + 1]! += x[i]! >> 8;
+    r[i] = x[i]! & 255;
+  }
+}
+
+// Reduce a 64-byte little-endian number modulo L
+function reduce(bytes: Uint8Array): Uint8Array {
+  const x = new Float64Array(64);
+  for (let i = 0; i < 64; i++) x[i] = bytes[i]!;
+  const r = new Uint8Array(32);
+  modL(r, x);
+  return r;
+}
+
+async function expandSeed(seed: Uint8Array, sha512: Sha512): Promise<{ scalar: Uint8Array; prefix: Uint8Array }> {
+  checkLength(seed, 32, 'Ed25519 seed');
+  const digest = await sha512(seed);
+  const scalar = digest.slice(0, 32);
+  scalar[0] = scalar[0]! & 248;
+  scalar[31] = (scalar[31]! & 127) | 64;
+  return { scalar, prefix: digest.slice(32, 64) };
+}
+
+/**
+ * Ed25519 public key for a private key seed (RFC 8032 section 5.1.5)
+ * @param seed 32-byte private key
+ * @param sha512 SHA-512 implementation
+ * @returns Promise<Uint8Array> 32-byte public key
+ */
+export async function ed25519PublicKey(seed: Uint8Array, sha512: Sha512): Promise<Uint8Array> {
+  const { scalar } = await expandSeed(seed, sha512);
+  const p = newPoint();
+  scalarBase(p, scalar);
+  const publicKey = new Uint8Array(32);
+  pointPack(publicKey, p);
+  return publicKey;
+}
+
+/**
+ * Sign a message (RFC 8032 section 5.1.6)
+ * @param seed 32-byte private key
+ * @param message Message to sign
+ * @param sha512 SHA-512 implementation
+ * @returns Promise<Uint8Array> 64-byte signature
+ */
+export async function ed25519Sign(seed: Uint8Array, message: Uint8Array, sha512: Sha512): Promise<Uint8Array> {
+  const { scalar, prefix } = await expandSeed(seed, sha512);
+  const publicKey = await ed25519PublicKey(seed, sha512);
+
+  const r = reduce(await sha512(concat(prefix, message)));
+  const p = newPoint();
+  scalarBase(p, r);
+  const encodedR = new Uint8Array(32);
+  pointPack(encodedR, p);
+
+  const h = reduce(await sha512(concat(encodedR, publicKey, message)));
+
+  // S = (r + h * s) mod L
+  const x = new Float64Array(64);
+  for (let i = 0; i < 32; i++) x[i] = r[i]!;
+  for (let i = 0; i < 32; i++) {
+    for (let j = 0; j < 32; j++) x[i + j]! += h[i]! * scalar[j]!;
+  }
+  const s = new Uint8Array(32);
+  modL(s, x);
+
+  return concat(encodedR, s);
+}
+
+/**
+ * Verify a signature (RFC 8032 section 5.1.7), rejecting non-canonical S
+ * @param publicKey 32-byte public key
+ * @param message Signed message
+ * @param signature 64-byte signature
+ * @param sha512 SHA-512 implementation
+ * @returns Promise<boolean>
+ */
+export async function ed25519Verify(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array, sha512: Sha512): Promise<boolean> {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+  const s = signature.subarray(32);
+  if (!lessThanL(s)) return false;
+
+  const q = newPoint();
+  if (!unpackNegated(q, publicKey)) return false;
+
+  const h = reduce(await sha512(concat(signature.subarray(0, 32), publicKey, message)));
+
+  // R' = S * B - h * A
+  const p = newPoint();
+  scalarMult(p, q, h);
+  const sb = newPoint();
+  scalarBase(sb, s);
+  pointAdd(p, sb);
+
+  const encoded = new Uint8Array(32);
+  pointPack(encoded, p);
+  return bytesEqual(encoded, signature.subarray(0, 32));
+}
+
+function lessThanL(s: Uint8Array): boolean {
+  for (let i = 31; i >= 0; i--) {
+    if (s[i]! < L[i]!) return true;
+    if (s[i]! > L[i]!) return false;
+  }
+  return false;
+}
+
+// Constant-time comparison
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+  return diff === 0;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function checkLength(bytes: Uint8Array, length: number, name: string): void {
+  if (bytes.length !== length) {
+    throw new Error(`${name} must be ${length} bytes, got ${bytes.length}`);
+  }
+}
@@ -0,0 +1,97 @@
+export type SecureChannelErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'AUTHENTICATION_FAILED'
+  | 'INVALID_KEY'
+  | 'ENCODING_ERROR'
+  | 'INVALID_STATE'
+  | 'INVALID_ARGUMENT'
+  | 'REPLAY';
+
+/**
+ * Base class of the errors thrown by this library.
+ * `code` is stable across releases, so check it (or use instanceof) instead of matching messages.
+ */
+export class SecureChannelError extends Error {
+  constructor(public readonly code: SecureChannelErrorCode, message: string) {
+    super(message);
+    this.name = 'SecureChannelError';
+  }
+}
+
+/**
+ * Thrown when a method needs crypto, keys or a session that have not been set up yet
+ */
+export class NotInitializedError extends SecureChannelError {
+  constructor(message: string) {
+    super('NOT_INITIALIZED', message);
+    this.name = 'NotInitializedError';
+  }
+}
+
+/**
+ * Thrown when a ciphertext, its nonce or its associated data fail authentication:
+ * the data was tampered with, or was encrypted under another key
+ */
+export class AuthenticationFailedError extends SecureChannelError {
+  constructor(message: string) {
+    super('AUTHENTICATION_FAILED', message);
+    this.name = 'AuthenticationFailedError';
+  }
+}
+
+/**
+ * Thrown when key material is malformed or not usable for the requested operation
+ */
+export class InvalidKeyError extends SecureChannelError {
+  constructor(message: string) {
+    super('INVALID_KEY', message);
+    this.name = 'InvalidKeyError';
+  }
+}
+
+/**
+ * Thrown when a value cannot be encoded or decoded (bad base64, out of range integers...)
+ */
+export class EncodingError extends SecureChannelError {
+  constructor(message: string) {
+    super('ENCODING_ERROR', message);
+    this.name = 'EncodingError';
+  }
+}
+
+/**
+ * Thrown when a call is not allowed in the object's current state or role
+ * (a session that already exists, exporting a non-exportable session...)
+ */
+export class InvalidStateError extends SecureChannelError {
+  constructor(message: string) {
+    super('INVALID_STATE', message);
+    this.name = 'InvalidStateError';
+  }
+}
+
+/**
+ * Thrown when an argument or option is out of its allowed range or not supported
+ * (negative lengths, window sizes, iteration counts...)
+ */
+export class InvalidArgumentError extends SecureChannelError {
+  constructor(message: string) {
+    super('INVALID_ARGUMENT', message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export type ReplayReason = 'duplicate' | 'outside_window';
+
+/**
+ * Thrown by the record layer when a message was already received
+ * or is too old to be checked against the replay window
+ */
+export class ReplayError extends SecureChannelError {
+  constructor(public readonly sequence: bigint, public readonly reason: ReplayReason) {
+    super('REPLAY', reason === 'duplicate'
+      ? `Duplicate record: sequence ${sequence}`
+      : `Record outside replay window: sequence ${sequence}`);
+    this.name = 'ReplayError';
+  }
+}
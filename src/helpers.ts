@@ -1,5 +1,10 @@
 /// <reference types="node" />
 
+import { getCryptoProvider } from './CryptoProvider';
+import { withCurveFallback } from './CurveFallback';
+import { EncodingError, InvalidArgumentError, NotInitializedError } from './errors';
+import { SubtleCrypto } from './types';
+
 /**
  * Convert byte array to base64 string (URL-safe)
  * @param bytes ArrayBuffer or Uint8Array to convert
@@ -18,6 +23,30 @@ export function byteArrayToBase64(bytes: ArrayBuffer | Uint8Array): string {
   }
 }
 
+/**
+ * Convert byte array to base64url string (RFC 4648 section 5, no padding)
+ * @param bytes ArrayBuffer or Uint8Array to convert
+ * @returns base64url encoded string
+ */
+export function byteArrayToBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return byteArrayToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert base64url string (padded or not) to byte array
+ * @param base64Url base64url encoded string
+ * @returns Uint8Array
+ * @throws {EncodingError} If the string contains characters outside the base64url alphabet or has an impossible length
+ */
+export function base64UrlToByteArr(base64Url: string): Uint8Array {
+  const base64 = base64Url.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+  // A single leftover character cannot encode a whole byte
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(base64Url) || base64.length % 4 === 1) {
+    throw new EncodingError('Invalid base64url string');
+  }
+  return base64StringToByteArr(base64 + '='.repeat((4 - base64.length % 4) % 4));
+}
+
 /**
  * Convert base64 string to byte array
  * @param base64 base64 encoded string
@@ -42,6 +71,32 @@ export function base64StringToByteArr(base64: string): Uint8Array {
   }
 }
 
+/**
+ * Get the configured SubtleCrypto implementation, falling back to the platform's
+ * @returns Promise<SubtleCrypto>
+ * @throws {NotInitializedError} If no provider is configured and the Web Crypto API is not available
+ */
+export async function getSubtleCrypto(): Promise<SubtleCrypto> {
+  const provider = getCryptoProvider();
+  if (provider) {
+    return provider.subtle;
+  }
+
+  // Platform implementations may lack X25519/Ed25519, so they get the pure TypeScript fallback
+  const globalObj = globalThis as any;
+  if (globalObj.crypto?.subtle) {
+    return withCurveFallback(globalObj.crypto.subtle, generateRandomBytes);
+  }
+  // Node.js webcrypto import (Node.js 15+)
+  let webcrypto: any;
+  try {
+    ({ webcrypto } = await import('crypto' as any));
+  } catch (error) {
+    throw new NotInitializedError('Web Crypto API not available in this environment');
+  }
+  return withCurveFallback(webcrypto.subtle, generateRandomBytes);
+}
+
 // Cache the crypto import for Node.js
 let nodeCrypto: { randomBytes: (length: number) => Uint8Array } | null = null;
 
@@ -49,11 +104,17 @@ let nodeCrypto: { randomBytes: (length: number) => Uint8Array } | null = null;
  * Generate random bytes cross-platform
  * @param length Number of bytes to generate
  * @returns Uint8Array of random bytes
+ * @throws {InvalidArgumentError} If length is negative
  */
 export async function generateRandomBytes(length: number): Promise<Uint8Array> {
   if (length < 0) {
-    throw new Error('Length must be non-negative');
+    throw new InvalidArgumentError('Length must be non-negative');
   }
+  const provider = getCryptoProvider();
+  if (provider?.getRandomValues) {
+    return provider.getRandomValues(new Uint8Array(length));
+  }
+
     const globalObj = globalThis as any;
   
   if (globalObj.crypto?.getRandomValues) {
@@ -76,6 +137,8 @@ export async function generateRandomBytes(length: number): Promise<Uint8Array> {
 export interface EncryptionResult {
   ciphertext: Uint8Array;
   nonce: Uint8Array;
+  additionalData?: Uint8Array; // Authenticated but not encrypted; must be sent alongside the ciphertext
+  epoch?: number; // Key epoch the record was encrypted under (RecordLayer only)
 }
 
 /**
@@ -85,7 +148,7 @@ export interface EncryptionResult {
  */
 export function bigIntToBase64(n: bigint): string {
   if (n < 0n || n > 0xFFFFFFFFFFFFFFFFn) {
-    throw new RangeError('value out of uint64 range');
+    throw new EncodingError('value out of uint64 range');
   }
 
   const buf = new ArrayBuffer(8);
@@ -109,7 +172,7 @@ export function bigIntToBase64(n: bigint): string {
  */
 export function base64ToBigInt(b64: string): bigint {
   if (!b64) {
-    throw new Error('Empty base64 string');
+    throw new EncodingError('Empty base64 string');
   }
 
   let bytes: Uint8Array;
@@ -127,7 +190,7 @@ export function base64ToBigInt(b64: string): bigint {
   }
 
   if (bytes.length !== 8) {
-    throw new Error(`Expected 8 bytes for uint64, got ${bytes.length}`);
+    throw new EncodingError(`Expected 8 bytes for uint64, got ${bytes.length}`);
   }
 
   const view = new DataView(bytes.buffer);
@@ -141,7 +204,7 @@ export function base64ToBigInt(b64: string): bigint {
  */
 export function numberToBase64(num: number): string {
   if (num < 0 || num > Number.MAX_SAFE_INTEGER || !Number.isInteger(num)) {
-    throw new RangeError('value out of safe integer range');
+    throw new EncodingError('value out of safe integer range');
   }
   return bigIntToBase64(BigInt(num));
 }
@@ -154,7 +217,7 @@ export function numberToBase64(num: number): string {
 export function base64ToNumber(b64: string): number {
   const bigIntValue = base64ToBigInt(b64);
   if (bigIntValue > BigInt(Number.MAX_SAFE_INTEGER)) {
-    throw new RangeError('value exceeds safe integer range');
+    throw new EncodingError('value exceeds safe integer range');
   }
   return Number(bigIntValue);
 }
@@ -164,12 +227,12 @@ export function base64ToNumber(b64: string): number {
  * Converts a 32-bit unsigned integer to a big-endian byte array
  * @param num - The number to convert (0 to 4,294,967,295)
  * @returns Uint8Array containing 4 bytes in big-endian order
- * @throws {Error} If number is out of uint32 range
+ * @throws {EncodingError} If number is out of uint32 range
  */
 export function uint32ToBytes(num: number): Uint8Array {
   // Validate input range
   if (!Number.isInteger(num) || num < 0 || num > 0xFFFFFFFF) {
-    throw new Error(`Number must be a valid uint32 (0-${0xFFFFFFFF}), got: ${num}`);
+    throw new EncodingError(`Number must be a valid uint32 (0-${0xFFFFFFFF}), got: ${num}`);
   }
 
   const buf = new Uint8Array(4);
@@ -187,45 +250,60 @@ export function uint32ToBytes(num: number): Uint8Array {
  * @param offset - Starting position in destination buffer
  * @param source - String or Uint8Array to copy
  * @returns New offset position after copying
- * @throws {Error} If offset is out of bounds or source type is invalid
+ * @throws {EncodingError} If offset is out of bounds, the source does not fit or its type is invalid
  */
 export function copyToBuffer(dest: Uint8Array, offset: number, source: string | Uint8Array): number {
   if (offset < 0 || offset >= dest.length) {
-    throw new Error(`Offset ${offset} is out of bounds for buffer length ${dest.length}`);
+    throw new EncodingError(`Offset ${offset} is out of bounds for buffer length ${dest.length}`);
   }
 
   if (typeof source === "string") {
     // Copy string character by character (platform-independent)
     for (let i = 0; i < source.length; i++) {
       if (offset >= dest.length) {
-        throw new Error(`Buffer overflow: cannot write beyond buffer length ${dest.length}`);
+        throw new EncodingError(`Buffer overflow: cannot write beyond buffer length ${dest.length}`);
       }
       dest[offset++] = source.charCodeAt(i);
     }
   } else if (source instanceof Uint8Array) {
     // Copy Uint8Array byte by byte
     if (offset + source.length > dest.length) {
-      throw new Error(`Buffer overflow: need ${source.length} bytes but only ${dest.length - offset} available`);
+      throw new EncodingError(`Buffer overflow: need ${source.length} bytes but only ${dest.length - offset} available`);
     }
     for (const byte of source) {
       dest[offset++] = byte;
     }
   } else {
-    throw new Error('Source must be a string or Uint8Array');
+    throw new EncodingError('Source must be a string or Uint8Array');
   }
 
   return offset;
 }
 
+/**
+ * Concatenates byte arrays into a new Uint8Array
+ * @param parts - Byte arrays to join, in order
+ * @returns New Uint8Array containing all parts
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
 /**
  * Converts a byte array to a UTF-8 string
  * @param bytes - Uint8Array, Array, or ArrayBuffer containing UTF-8 bytes
  * @returns Decoded string
- * @throws {Error} If input is invalid or decoding fails
+ * @throws {EncodingError} If input is invalid or decoding fails
  */
 export function bytesToString(bytes: Uint8Array | number[] | ArrayBuffer): string {
   if (!bytes) {
-    throw new Error('Input cannot be null or undefined');
+    throw new EncodingError('Input cannot be null or undefined');
   }
 
   let byteArray: Uint8Array;
@@ -238,7 +316,7 @@ export function bytesToString(bytes: Uint8Array | number[] | ArrayBuffer): strin
   } else if (bytes instanceof ArrayBuffer) {
     byteArray = new Uint8Array(bytes);
   } else {
-    throw new Error('Input must be Uint8Array, number array, or ArrayBuffer');
+    throw new EncodingError('Input must be Uint8Array, number array, or ArrayBuffer');
   }
   
   // Platform-independent UTF-8 decoding
@@ -253,7 +331,7 @@ export function bytesToString(bytes: Uint8Array | number[] | ArrayBuffer): strin
  */
 export function uint32ToBase64(num: number): string {
   if (!Number.isInteger(num) || num < 0 || num > 4294967295){
-    throw 'Number must be a valid uint32'
+    throw new EncodingError(`Number must be a valid uint32 (0-${0xFFFFFFFF}), got: ${num}`);
   }
   const bytes = new Uint8Array(4);
   // Big-endian: most significant byte first
@@ -289,11 +367,11 @@ export function base64ToUint32(b64: string): number {
       }
     }
   } catch {
-    throw new Error('Invalid base64 string');
+    throw new EncodingError('Invalid base64 string');
   }
 
   if (bytes.length !== 4) {
-    throw new Error('Base64 must represent exactly 4 bytes');
+    throw new EncodingError('Base64 must represent exactly 4 bytes');
   }
 
   // Use >>> 0 to convert to unsigned 32-bit integer
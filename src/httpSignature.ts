@@ -0,0 +1,560 @@
+import { AuthenticationFailedError, EncodingError } from './errors';
+import { base64StringToByteArr, byteArrayToBase64, getSubtleCrypto } from './helpers';
+import { Signature } from './Signature';
+import { TrustStore } from './TrustStore';
+
+/**
+ * HTTP Message Signatures (RFC 9421) for requests, with Ed25519 keys and Content-Digest (RFC 9530) bodies
+ */
+
+export const HTTP_SIGNATURE_ALGORITHM = 'ed25519';
+
+const DEFAULT_LABEL = 'sig1';
+const DEFAULT_CLOCK_SKEW_MS = 60 * 1000;
+
+type HeadersLike = Record<string, string | string[] | undefined> | { get(name: string): string | null };
+
+/**
+ * Request to sign or verify. `headers` is a plain object (Node's req.headers) or a fetch Headers.
+ */
+export interface HttpSignatureRequest {
+  method: string;
+  url: string; // Absolute target URI, e.g. `https://${req.headers.host}${req.url}` on a Node server
+  headers: HeadersLike;
+}
+
+export interface HttpSignOptions {
+  keyId: string;
+  components?: string[]; // Covered components, in order (default @method, @target-uri, and content-digest/content-type when present)
+  label?: string; // Signature label (default 'sig1')
+  created?: number; // Epoch seconds (default now)
+  expires?: number; // Epoch seconds
+  nonce?: string;
+  tag?: string; // Application-specific tag, e.g. 'webhook'
+  includeAlg?: boolean; // Add alg="ed25519" (default true)
+}
+
+/**
+ * Headers to add to the request
+ */
+export interface HttpSignatureHeaders {
+  'signature-input': string;
+  signature: string;
+}
+
+export interface HttpVerifyOptions {
+  keys: TrustStore | ((keyId: string) => Uint8Array | string | null | undefined | Promise<Uint8Array | string | null | undefined>);
+  label?: string; // Signature to check (default: the first one in Signature-Input)
+  requiredComponents?: string[]; // Components the signature must cover
+  tag?: string; // Required tag parameter
+  body?: string | Uint8Array; // When given, Content-Digest must be signed and match it
+  maxAgeMs?: number; // Reject signatures whose `created` is older than this
+  clockSkewMs?: number; // Tolerance for created/expires (default 60 s)
+  now?: number; // Epoch ms (default Date.now())
+}
+
+/**
+ * A verified signature
+ */
+export interface HttpSignatureVerification {
+  label: string;
+  keyId: string;
+  components: string[];
+  created?: number;
+  expires?: number;
+  nonce?: string;
+  tag?: string;
+}
+
+/**
+ * Sign a request with our Ed25519 identity
+ * @param request Method, absolute URL and headers; covered headers must already be set
+ * @param signer Signature instance holding our identity
+ * @param options Key ID, covered components and signature parameters
+ * @returns Promise<HttpSignatureHeaders> Signature-Input and Signature header values
+ * @throws {EncodingError} If a component is unsupported or a covered header is missing
+ */
+export async function signHttpRequest(request: HttpSignatureRequest, signer: Signature, options: HttpSignOptions): Promise<HttpSignatureHeaders> {
+  const label = options.label ?? DEFAULT_LABEL;
+  const components = options.components ?? defaultComponents(request);
+  const params: SignatureParams = {
+    created: options.created ?? Math.floor(Date.now() / 1000),
+    expires: options.expires,
+    nonce: options.nonce,
+    alg: options.includeAlg === false ? undefined : HTTP_SIGNATURE_ALGORITHM,
+    keyid: options.keyId,
+    tag: options.tag,
+  };
+  checkKey(label);
+
+  const signatureParams = serializeSignatureParams(components, params);
+  const signature = await signer.sign(signatureBase(request, components, signatureParams));
+
+  return {
+    'signature-input': `${label}=${signatureParams}`,
+    signature: `${label}=:${byteArrayToBase64(signature)}:`,
+  };
+}
+
+/**
+ * Verify a signed request: the signature, its key, the covered components,
+ * created/expires and, when a body is given, its Content-Digest
+ * @param request Method, absolute URL and headers, including Signature-Input and Signature
+ * @param options Key lookup and checks
+ * @returns Promise<HttpSignatureVerification>
+ * @throws {AuthenticationFailedError} If the signature is missing, invalid, expired or does not cover what it must
+ * @throws {EncodingError} If the signature headers are malformed
+ */
+export async function verifyHttpRequest(request: HttpSignatureRequest, options: HttpVerifyOptions): Promise<HttpSignatureVerification> {
+  const inputHeader = getHeader(request.headers, 'signature-input');
+  const signatureHeader = getHeader(request.headers, 'signature');
+  if (inputHeader === undefined || signatureHeader === undefined) {
+    throw new AuthenticationFailedError('Request is not signed');
+  }
+
+  const inputs = parseDictionary(inputHeader);
+  const signatures = parseDictionary(signatureHeader);
+  const label = options.label ?? inputs.keys().next().value;
+  const input = label === undefined ? undefined : inputs.get(label);
+  const signatureMember = label === undefined ? undefined : signatures.get(label);
+  if (label === undefined || !input || !signatureMember) {
+    throw new AuthenticationFailedError(`No signature labelled ${options.label ?? DEFAULT_LABEL}`);
+  }
+  if (!Array.isArray(input.value) || !(signatureMember.value instanceof Uint8Array)) {
+    throw new EncodingError(`Malformed signature ${label}`);
+  }
+
+  const components = input.value.map(item => {
+    if (typeof item.value !== 'string' || item.params.size > 0) {
+      throw new EncodingError('Signature components must be plain strings');
+    }
+    return item.value;
+  });
+  const params = signatureParamsFrom(input.params);
+
+  if (params.alg !== undefined && params.alg !== HTTP_SIGNATURE_ALGORITHM) {
+    throw new AuthenticationFailedError(`Unsupported signature algorithm: ${params.alg}`);
+  }
+  if (params.keyid === undefined) {
+    throw new AuthenticationFailedError('Signature has no keyid');
+  }
+  if (options.tag !== undefined && params.tag !== options.tag) {
+    throw new AuthenticationFailedError(`Signature tag must be ${options.tag}`);
+  }
+  for (const required of options.requiredComponents ?? []) {
+    if (!components.includes(required)) {
+      throw new AuthenticationFailedError(`Signature does not cover ${required}`);
+    }
+  }
+  checkTimes(params, options);
+
+  let base: Uint8Array;
+  try {
+    // The signature covers the Signature-Input member exactly as the signer serialized it
+    base = signatureBase(request, components, input.raw);
+  } catch (error) {
+    throw new AuthenticationFailedError(`Cannot rebuild the signature base: ${(error as Error).message}`);
+  }
+  if (!await verifyWithKeys(options.keys, params.keyid, signatureMember.value, base, options.now)) {
+    throw new AuthenticationFailedError(`Invalid signature ${label}`);
+  }
+
+  if (options.body !== undefined) {
+    if (!components.includes('content-digest')) {
+      throw new AuthenticationFailedError('Signature does not cover content-digest');
+    }
+    if (!await verifyContentDigest(getHeader(request.headers, 'content-digest')!, options.body)) {
+      throw new AuthenticationFailedError('Content-Digest does not match the body');
+    }
+  }
+
+  return {
+    label,
+    keyId: params.keyid,
+    components,
+    ...(params.created !== undefined ? { created: params.created } : {}),
+    ...(params.expires !== undefined ? { expires: params.expires } : {}),
+    ...(params.nonce !== undefined ? { nonce: params.nonce } : {}),
+    ...(params.tag !== undefined ? { tag: params.tag } : {}),
+  };
+}
+
+/**
+ * Compute a Content-Digest header value (RFC 9530)
+ * @param body Request or response body
+ * @param algorithm 'sha-256' (default) or 'sha-512'
+ * @returns Promise<string> e.g. `sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:`
+ */
+export async function createContentDigest(body: string | Uint8Array, algorithm: 'sha-256' | 'sha-512' = 'sha-256'): Promise<string> {
+  return `${algorithm}=:${byteArrayToBase64(await digest(algorithm, body))}:`;
+}
+
+/**
+ * Check a Content-Digest header value against a body. Every supported digest present must match.
+ * @param header Content-Digest header value
+ * @param body Received body
+ * @returns Promise<boolean> false if no supported digest is present or one does not match
+ */
+export async function verifyContentDigest(header: string, body: string | Uint8Array): Promise<boolean> {
+  let digests: Dictionary;
+  try {
+    digests = parseDictionary(header);
+  } catch {
+    return false;
+  }
+
+  let checked = 0;
+  for (const algorithm of ['sha-256', 'sha-512'] as const) {
+    const expected = digests.get(algorithm)?.value;
+    if (expected === undefined) continue;
+    if (!(expected instanceof Uint8Array) || !equalBytes(expected, await digest(algorithm, body))) {
+      return false;
+    }
+    checked++;
+  }
+  return checked > 0;
+}
+
+interface SignatureParams {
+  created?: number;
+  expires?: number;
+  nonce?: string;
+  alg?: string;
+  keyid?: string;
+  tag?: string;
+}
+
+function defaultComponents(request: HttpSignatureRequest): string[] {
+  const components = ['@method', '@target-uri'];
+  if (getHeader(request.headers, 'content-digest') !== undefined) components.push('content-digest');
+  if (getHeader(request.headers, 'content-type') !== undefined) components.push('content-type');
+  return components;
+}
+
+// RFC 9421 section 2.5
+function signatureBase(request: HttpSignatureRequest, components: string[], signatureParams: string): Uint8Array {
+  if (new Set(components).size !== components.length) {
+    throw new EncodingError('Duplicate signature component');
+  }
+  const lines = components.map(component => `"${component}": ${componentValue(request, component)}`);
+  lines.push(`"@signature-params": ${signatureParams}`);
+  return new TextEncoder().encode(lines.join('\n'));
+}
+
+function componentValue(request: HttpSignatureRequest, component: string): string {
+  if (!component.startsWith('@')) {
+    if (component !== component.toLowerCase()) {
+      throw new EncodingError(`Header component names must be lowercase: ${component}`);
+    }
+    const value = getHeader(request.headers, component);
+    if (value === undefined) {
+      throw new EncodingError(`Missing header for signature component: ${component}`);
+    }
+    return value;
+  }
+
+  const url = new URL(request.url);
+  switch (component) {
+    case '@method':
+      return request.method;
+    case '@target-uri':
+      return request.url;
+    case '@authority':
+      return url.host;
+    case '@scheme':
+      return url.protocol.slice(0, -1);
+    case '@request-target':
+      return url.pathname + url.search;
+    case '@path':
+      return url.pathname || '/';
+    case '@query':
+      return url.search || '?';
+    default:
+      throw new EncodingError(`Unsupported signature component: ${component}`);
+  }
+}
+
+// Header value with surrounding whitespace trimmed; repeated headers are joined with ", "
+function getHeader(headers: HeadersLike, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    const value = (headers as { get(name: string): string | null }).get(name);
+    return value === null ? undefined : value.trim();
+  }
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+  if (entry === undefined || typeof entry === 'function') return undefined;
+  return Array.isArray(entry) ? entry.map(value => value.trim()).join(', ') : String(entry).trim();
+}
+
+function serializeSignatureParams(components: string[], params: SignatureParams): string {
+  let serialized = `(${components.map(serializeString).join(' ')})`;
+  if (params.created !== undefined) serialized += `;created=${checkInteger(params.created)}`;
+  if (params.expires !== undefined) serialized += `;expires=${checkInteger(params.expires)}`;
+  if (params.nonce !== undefined) serialized += `;nonce=${serializeString(params.nonce)}`;
+  if (params.alg !== undefined) serialized += `;alg=${serializeString(params.alg)}`;
+  if (params.keyid !== undefined) serialized += `;keyid=${serializeString(params.keyid)}`;
+  if (params.tag !== undefined) serialized += `;tag=${serializeString(params.tag)}`;
+  return serialized;
+}
+
+function signatureParamsFrom(params: Map<string, BareItem>): SignatureParams {
+  const result: SignatureParams = {};
+  for (const [name, value] of params) {
+    switch (name) {
+      case 'created':
+      case 'expires':
+        if (typeof value !== 'number') throw new EncodingError(`Signature parameter ${name} must be an integer`);
+        result[name] = value;
+        break;
+      case 'nonce':
+      case 'alg':
+      case 'keyid':
+      case 'tag':
+        if (typeof value !== 'string') throw new EncodingError(`Signature parameter ${name} must be a string`);
+        result[name] = value;
+        break;
+      default:
+        // RFC 9421 section 2.3: unknown parameters are covered by the signature but otherwise ignored
+        break;
+    }
+  }
+  return result;
+}
+
+function checkTimes(params: SignatureParams, options: HttpVerifyOptions): void {
+  const now = options.now ?? Date.now();
+  const skew = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+
+  if (params.created !== undefined && params.created * 1000 > now + skew) {
+    throw new AuthenticationFailedError('Signature created in the future');
+  }
+  if (params.expires !== undefined && params.expires * 1000 <= now - skew) {
+    throw new AuthenticationFailedError('Signature expired');
+  }
+  if (options.maxAgeMs !== undefined) {
+    if (params.created === undefined) {
+      throw new AuthenticationFailedError('Signature has no created parameter');
+    }
+    if (now - params.created * 1000 > options.maxAgeMs + skew) {
+      throw new AuthenticationFailedError('Signature too old');
+    }
+  }
+}
+
+async function verifyWithKeys(
+  keys: HttpVerifyOptions['keys'],
+  keyId: string,
+  signature: Uint8Array,
+  base: Uint8Array,
+  now?: number
+): Promise<boolean> {
+  if (keys instanceof TrustStore) {
+    if (!keys.getKey(keyId)) {
+      throw new AuthenticationFailedError(`Unknown key ID: ${keyId}`);
+    }
+    return keys.verify(signature, base, keyId, now);
+  }
+
+  const key = await keys(keyId);
+  if (key === null || key === undefined) {
+    throw new AuthenticationFailedError(`Unknown key ID: ${keyId}`);
+  }
+  const verifier = await Signature.getInstance();
+  return verifier.verifyWithKey(typeof key === 'string' ? base64StringToByteArr(key) : key, signature, base);
+}
+
+async function digest(algorithm: 'sha-256' | 'sha-512', body: string | Uint8Array): Promise<Uint8Array> {
+  const subtle = await getSubtleCrypto();
+  const data = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  return new Uint8Array(await subtle.digest(algorithm === 'sha-256' ? 'SHA-256' : 'SHA-512', data as any));
+}
+
+function checkKey(key: string): void {
+  if (!/^[a-z*][a-z0-9_\-.*]*$/.test(key)) {
+    throw new EncodingError(`Invalid signature label: ${key}`);
+  }
+}
+
+function checkInteger(value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > 999999999999999) {
+    throw new EncodingError(`Invalid integer signature parameter: ${value}`);
+  }
+  return value;
+}
+
+function serializeString(value: string): string {
+  if (!/^[\x20-\x7e]*$/.test(value)) {
+    throw new EncodingError('Signature strings must be printable ASCII');
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+  return diff === 0;
+}
+
+// Minimal Structured Field Values (RFC 8941) dictionary parser: the item types used by
+// Signature-Input, Signature and Content-Digest (no decimals)
+
+type BareItem = string | number | boolean | Uint8Array;
+
+interface Item {
+  value: BareItem;
+  params: Map<string, BareItem>;
+}
+
+interface Member {
+  value: BareItem | Item[]; // Item[] for inner lists
+  params: Map<string, BareItem>;
+  raw: string; // Value and parameters as received
+}
+
+type Dictionary = Map<string, Member>;
+
+function parseDictionary(input: string): Dictionary {
+  const parser = new FieldParser(input);
+  const dictionary: Dictionary = new Map();
+  parser.skipSpaces();
+  while (!parser.done()) {
+    const key = parser.key();
+    const hasValue = parser.consume('=');
+    const start = parser.offset;
+    const value = !hasValue ? true : parser.peek() === '(' ? parser.innerList() : parser.bareItem();
+    const params = parser.params();
+    dictionary.set(key, { value, params, raw: parser.textFrom(start) });
+
+    parser.skipWhitespace();
+    if (parser.done()) break;
+    parser.expect(',');
+    parser.skipWhitespace();
+    if (parser.done()) throw new EncodingError('Trailing comma in structured field');
+  }
+  return dictionary;
+}
+
+class FieldParser {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  public get offset(): number {
+    return this.position;
+  }
+
+  public textFrom(start: number): string {
+    return this.input.slice(start, this.position);
+  }
+
+  public done(): boolean {
+    return this.position >= this.input.length;
+  }
+
+  public peek(): string | undefined {
+    return this.input[this.position];
+  }
+
+  public consume(char: string): boolean {
+    if (this.peek() !== char) return false;
+    this.position++;
+    return true;
+  }
+
+  public expect(char: string): void {
+    if (!this.consume(char)) throw this.error(`expected "${char}"`);
+  }
+
+  public skipSpaces(): void {
+    while (this.peek() === ' ') this.position++;
+  }
+
+  public skipWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.position++;
+  }
+
+  public key(): string {
+    const match = /^[a-z*][a-z0-9_\-.*]*/.exec(this.input.slice(this.position));
+    if (!match) throw this.error('expected a key');
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  public innerList(): Item[] {
+    this.expect('(');
+    const items: Item[] = [];
+    for (;;) {
+      this.skipSpaces();
+      if (this.consume(')')) return items;
+      items.push({ value: this.bareItem(), params: this.params() });
+      const next = this.peek();
+      if (next !== ' ' && next !== ')') throw this.error('expected " " or ")"');
+    }
+  }
+
+  public params(): Map<string, BareItem> {
+    const params = new Map<string, BareItem>();
+    while (this.consume(';')) {
+      this.skipSpaces();
+      const key = this.key();
+      params.set(key, this.consume('=') ? this.bareItem() : true);
+    }
+    return params;
+  }
+
+  public bareItem(): BareItem {
+    const rest = this.input.slice(this.position);
+    const first = rest[0];
+
+    if (first === '"') {
+      let value = '';
+      for (let i = 1; i < rest.length; i++) {
+        const char = rest[i]!;
+        if (char === '\\') {
+          const escaped = rest[++i];
+          if (escaped !== '"' && escaped !== '\\') throw this.error('invalid escape');
+          value += escaped;
+        } else if (char === '"') {
+          this.position += i + 1;
+          return value;
+        } else if (char < ' ' || char > '~') {
+          throw this.error('invalid string character');
+        } else {
+          value += char;
+        }
+      }
+      throw this.error('unterminated string');
+    }
+
+    if (first === ':') {
+      const end = rest.indexOf(':', 1);
+      const encoded = end < 0 ? '' : rest.slice(1, end);
+      if (end < 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) throw this.error('invalid byte sequence');
+      this.position += end + 1;
+      return base64StringToByteArr(encoded);
+    }
+
+    if (first === '?') {
+      if (rest[1] !== '0' && rest[1] !== '1') throw this.error('invalid boolean');
+      this.position += 2;
+      return rest[1] === '1';
+    }
+
+    const integer = /^-?\d{1,15}(?![\d.])/.exec(rest);
+    if (integer) {
+      this.position += integer[0].length;
+      return Number(integer[0]);
+    }
+
+    const token = /^[A-Za-z*][A-Za-z0-9!#$%&'*+\-.^_`|~:/]*/.exec(rest);
+    if (token) {
+      this.position += token[0].length;
+      return token[0];
+    }
+    throw this.error('invalid item');
+  }
+
+  private error(reason: string): EncodingError {
+    return new EncodingError(`Invalid structured field at position ${this.position}: ${reason}`);
+  }
+}
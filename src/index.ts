@@ -1,8 +1,204 @@
 export { KeyExchange } from './KeyExchange';
-export { Signature } from './Signature';
+export { setCryptoProvider, getCryptoProvider } from './CryptoProvider';
+export { CurveFallbackSubtle, withCurveFallback } from './CurveFallback';
+export { detectCapabilities, Capability, CapabilityReport } from './capabilities';
+export { Signature, IDENTITY_BLOB_VERSION } from './Signature';
+export { TrustStore, TrustedKeyOptions, TrustedKeyInfo } from './TrustStore';
+export { KeyStore, MemoryKeyStore, FileKeyStore, IndexedDBKeyStore } from './KeyStore';
+export {
+  Handshake,
+  HANDSHAKE_VERSION,
+  serializeHandshakeMessage,
+  parseHandshakeMessage,
+  handshakeMessageToJson,
+  handshakeMessageFromJson,
+  encodeHandshakeMessage,
+  decodeHandshakeMessage,
+  HandshakeMessage,
+  HandshakeMessageType,
+  HandshakeEncoding,
+  HandshakeFrame,
+  HandshakeState,
+  HandshakeOptions
+} from './Handshake';
+export {
+  getCipherSuite,
+  listCipherSuites,
+  negotiateCipherSuite,
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+  CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305,
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV,
+  DEFAULT_CIPHER_SUITE,
+  DEFAULT_CIPHER_SUITES,
+  CipherSuite,
+  CipherSuiteAead,
+  AeadKey
+} from './CipherSuite';
+export { RecordLayer, RecordLayerOptions, RecordLayerState, RekeyPolicy } from './RecordLayer';
+export {
+  SecureWebSocket,
+  SecureWebSocketOptions,
+  SecureWebSocketState,
+  SecureWebSocketEventMap,
+  SecureWebSocketListener,
+  WebSocketLike,
+  createWebSocketLoopback
+} from './SecureWebSocket';
+export {
+  secureFetch,
+  createSecureMiddleware,
+  SECURE_HTTP_CONTENT_TYPE,
+  SECURE_HTTP_SESSION_HEADER,
+  SECURE_HTTP_REQUEST_ID_HEADER,
+  SECURE_HTTP_CONTENT_TYPE_HEADER,
+  SECURE_HTTP_AUTH_HEADER,
+  SecureHttpSession,
+  SecureRequestInit,
+  SecureHttpRequest,
+  SecureHttpResponse,
+  SecureMiddleware,
+  SecureMiddlewareOptions
+} from './secureHttp';
+export {
+  signHttpRequest,
+  verifyHttpRequest,
+  createContentDigest,
+  verifyContentDigest,
+  HTTP_SIGNATURE_ALGORITHM,
+  HttpSignatureRequest,
+  HttpSignOptions,
+  HttpSignatureHeaders,
+  HttpVerifyOptions,
+  HttpSignatureVerification
+} from './httpSignature';
+export {
+  signJws,
+  verifyJws,
+  signJwt,
+  verifyJwt,
+  JWS_ALGORITHM,
+  JwsHeader,
+  JwtClaims,
+  JwsKeys,
+  JwsSignOptions,
+  JwtSignOptions,
+  JwsVerifyOptions,
+  JwtVerifyOptions,
+  VerifiedJws,
+  VerifiedJwt
+} from './jwt';
+export {
+  encryptJwe,
+  encryptJweJson,
+  decryptJwe,
+  concatKdf,
+  JWE_ALG_ECDH_ES,
+  JWE_ALG_ECDH_ES_A256KW,
+  JWE_ENC_A256GCM,
+  JweAlgorithm,
+  OkpJwk,
+  JweHeader,
+  JweJson,
+  JwePublicKey,
+  JwePrivateKey,
+  JweRecipient,
+  JweEncryptOptions,
+  JweJsonEncryptOptions,
+  JweDecryptOptions,
+  DecryptedJwe
+} from './jwe';
+export {
+  exportSession,
+  restoreSession,
+  SESSION_STATE_VERSION,
+  SessionExportOptions,
+  SessionRestoreOptions,
+  RestoredSession
+} from './SessionState';
+export {
+  wrapWithPassphrase,
+  unwrapWithPassphrase,
+  DEFAULT_PBKDF2_ITERATIONS,
+  MIN_PBKDF2_ITERATIONS,
+  MAX_PBKDF2_ITERATIONS,
+  PassphraseWrapped
+} from './passphrase';
+export {
+  DoubleRatchet,
+  serializeRatchetHeader,
+  serializeRatchetMessage,
+  parseRatchetMessage,
+  RatchetHeader,
+  RatchetMessage,
+  RatchetState,
+  DoubleRatchetOptions
+} from './DoubleRatchet';
+export { SealedBox, SEALED_BOX_VERSION, SEALED_BOX_SUITE_X25519_AES256GCM } from './SealedBox';
+export {
+  Hpke,
+  HpkeContext,
+  HPKE_KEM_X25519_HKDF_SHA256,
+  HPKE_KDF_HKDF_SHA256,
+  HPKE_AEAD_AES_128_GCM,
+  HPKE_AEAD_AES_256_GCM,
+  HPKE_AEAD_EXPORT_ONLY,
+  HpkeMode,
+  HpkeAeadId,
+  HpkeRole,
+  HpkeSenderOptions,
+  HpkeRecipientOptions,
+  HpkeSealed
+} from './Hpke';
+export {
+  createEncryptionStream,
+  createDecryptionStream,
+  createNodeEncryptionStream,
+  createNodeDecryptionStream,
+  STREAM_VERSION,
+  DEFAULT_STREAM_CHUNK_SIZE,
+  StreamKeySource,
+  StreamOptions
+} from './Stream';
+export {
+  encodeEnvelope,
+  decodeEnvelope,
+  envelopeToBase64Url,
+  envelopeFromBase64Url,
+  envelopeToJson,
+  envelopeFromJson,
+  ENVELOPE_VERSION,
+  ENVELOPE_ALG_AES_256_GCM,
+  ENVELOPE_ALG_CHACHA20_POLY1305,
+  envelopeAlgorithm,
+  Envelope,
+  EnvelopeJson
+} from './Envelope';
+export {
+  SecureChannelError,
+  SecureChannelErrorCode,
+  NotInitializedError,
+  AuthenticationFailedError,
+  InvalidKeyError,
+  EncodingError,
+  InvalidStateError,
+  InvalidArgumentError,
+  ReplayError,
+  ReplayReason
+} from './errors';
+export {
+  CryptoProvider,
+  SubtleCrypto,
+  KeyExchangeRole,
+  KeyExchangeSessionOptions,
+  KeyExchangeState,
+  IdentityKeyFormat,
+  IdentityStoreOptions
+} from './types';
 export { 
   byteArrayToBase64, 
   base64StringToByteArr,
+  byteArrayToBase64Url,
+  base64UrlToByteArr,
   byteArrayToString,
   base64ToBigInt,
   bigIntToBase64,
@@ -12,7 +208,9 @@ export {
   uint32ToBase64,
   uint32ToBytes,
   copyToBuffer,
+  concatBytes,
   generateRandomBytes,
+  getSubtleCrypto,
   convertToJsonSerializable,
   EncryptionResult 
 } from './helpers';
\ No newline at end of file
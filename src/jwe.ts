@@ -0,0 +1,510 @@
+import { AuthenticationFailedError, EncodingError, InvalidArgumentError, InvalidKeyError, InvalidStateError } from './errors';
+import {
+  base64StringToByteArr,
+  base64UrlToByteArr,
+  byteArrayToBase64Url,
+  byteArrayToString,
+  concatBytes,
+  generateRandomBytes,
+  getSubtleCrypto,
+  uint32ToBytes
+} from './helpers';
+import { CryptoKey, CryptoKeyPair, SubtleCrypto } from './types';
+
+/**
+ * JWE (RFC 7516) with ECDH-ES / ECDH-ES+A256KW key agreement over X25519 (RFC 8037)
+ * and A256GCM content encryption, in compact and JSON serialization
+ */
+
+export const JWE_ALG_ECDH_ES = 'ECDH-ES';
+export const JWE_ALG_ECDH_ES_A256KW = 'ECDH-ES+A256KW';
+export const JWE_ENC_A256GCM = 'A256GCM';
+
+export type JweAlgorithm = typeof JWE_ALG_ECDH_ES | typeof JWE_ALG_ECDH_ES_A256KW;
+
+const PUBLIC_KEY_LENGTH = 32;
+const CEK_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const EMPTY = new Uint8Array(0);
+// Computed by encryptJweJson(), or unsupported (zip, crit); callers may not set them
+const RESERVED_HEADER_PARAMETERS = ['alg', 'enc', 'epk', 'apu', 'apv', 'zip', 'crit'];
+
+/**
+ * X25519 key as a JWK (RFC 8037); d is only present on private keys
+ */
+export interface OkpJwk {
+  kty: 'OKP';
+  crv: 'X25519';
+  x: string;
+  d?: string;
+  kid?: string;
+}
+
+export interface JweHeader {
+  alg?: string;
+  enc?: string;
+  kid?: string;
+  typ?: string;
+  cty?: string;
+  epk?: OkpJwk;
+  apu?: string;
+  apv?: string;
+  [name: string]: unknown;
+}
+
+/**
+ * Flattened (single recipient) or general (recipients array) JSON serialization
+ */
+export interface JweJson {
+  protected?: string;
+  unprotected?: JweHeader;
+  header?: JweHeader;
+  encrypted_key?: string;
+  recipients?: { header?: JweHeader; encrypted_key?: string }[];
+  aad?: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/** Recipient public key: raw bytes, base64 raw bytes or an OKP JWK */
+export type JwePublicKey = Uint8Array | string | OkpJwk;
+
+/** Recipient private key: an X25519 key pair or private key, or an OKP JWK with d */
+export type JwePrivateKey = CryptoKeyPair | CryptoKey | OkpJwk;
+
+export interface JweRecipient {
+  publicKey: JwePublicKey;
+  kid?: string;
+}
+
+export interface JweEncryptOptions {
+  alg?: JweAlgorithm; // Default ECDH-ES
+  kid?: string;
+  typ?: string;
+  cty?: string; // e.g. 'JWT' for a nested signed token
+  header?: JweHeader; // Extra protected header parameters; alg, enc, epk, apu, apv, zip and crit are rejected
+  partyUInfo?: Uint8Array; // apu, mixed into the Concat KDF
+  partyVInfo?: Uint8Array; // apv, mixed into the Concat KDF
+}
+
+export interface JweJsonEncryptOptions extends Omit<JweEncryptOptions, 'kid'> {
+  unprotected?: JweHeader; // Shared unprotected header
+  additionalData?: Uint8Array; // Authenticated but unencrypted, sent as aad
+}
+
+export interface JweDecryptOptions {
+  algorithms?: JweAlgorithm[]; // Accepted alg values (default both)
+  kid?: string; // Only try recipients with this kid (JSON serialization)
+}
+
+export interface DecryptedJwe {
+  plaintext: Uint8Array;
+  protectedHeader: JweHeader;
+  header: JweHeader; // Protected, shared unprotected and recipient headers combined
+  additionalData?: Uint8Array;
+}
+
+/**
+ * Encrypt to one recipient in compact serialization
+ * @param plaintext Data to encrypt
+ * @param recipientPublicKey Recipient's X25519 public key
+ * @param options alg, kid and header parameters
+ * @returns Promise<string> `protected.encrypted_key.iv.ciphertext.tag`
+ * @throws {InvalidKeyError} If the public key is not an X25519 key
+ */
+export async function encryptJwe(
+  plaintext: string | Uint8Array,
+  recipientPublicKey: JwePublicKey,
+  options: JweEncryptOptions = {}
+): Promise<string> {
+  const jwe = await encryptJweJson(plaintext, [{ publicKey: recipientPublicKey, kid: options.kid }], options);
+  return [jwe.protected, jwe.encrypted_key ?? '', jwe.iv, jwe.ciphertext, jwe.tag].join('.');
+}
+
+/**
+ * Encrypt in JSON serialization: flattened for one recipient, general for several.
+ * Several recipients need ECDH-ES+A256KW, as direct key agreement yields a different key per recipient.
+ * @param plaintext Data to encrypt
+ * @param recipients Recipients' X25519 public keys and key IDs
+ * @param options alg, header parameters and additional data
+ * @returns Promise<JweJson>
+ * @throws {EncodingError} If a header parameter is set in more than one header
+ * @throws {InvalidArgumentError} If alg, the number of recipients or a header parameter is not supported
+ * @throws {InvalidKeyError} If a public key is not an X25519 key
+ * @throws {InvalidStateError} If ECDH-ES+A256KW is used with a crypto provider without wrapKey()
+ */
+export async function encryptJweJson(
+  plaintext: string | Uint8Array,
+  recipients: JweRecipient[],
+  options: JweJsonEncryptOptions = {}
+): Promise<JweJson> {
+  const alg = options.alg ?? JWE_ALG_ECDH_ES;
+  if (alg !== JWE_ALG_ECDH_ES && alg !== JWE_ALG_ECDH_ES_A256KW) {
+    throw new InvalidArgumentError(`Unsupported JWE algorithm: ${String(alg)}`);
+  }
+  if (recipients.length === 0) {
+    throw new InvalidArgumentError('JWE needs at least one recipient');
+  }
+  if (alg === JWE_ALG_ECDH_ES && recipients.length > 1) {
+    throw new InvalidArgumentError('ECDH-ES supports a single recipient; use ECDH-ES+A256KW');
+  }
+  for (const header of [options.header, options.unprotected]) {
+    const reserved = Object.keys(header ?? {}).filter(name => RESERVED_HEADER_PARAMETERS.includes(name));
+    if (reserved.length > 0) {
+      throw new InvalidArgumentError(`Reserved JWE header parameters cannot be set: ${reserved.join(', ')}`);
+    }
+  }
+
+  const shared: JweHeader = {
+    enc: JWE_ENC_A256GCM,
+    ...(options.typ !== undefined ? { typ: options.typ } : {}),
+    ...(options.cty !== undefined ? { cty: options.cty } : {}),
+    ...(options.partyUInfo ? { apu: byteArrayToBase64Url(options.partyUInfo) } : {}),
+    ...(options.partyVInfo ? { apv: byteArrayToBase64Url(options.partyVInfo) } : {}),
+  };
+  for (const recipient of recipients) {
+    // A parameter may only appear in one of the headers (RFC 7516 section 7.2.1), which decryptJwe() enforces too
+    mergeHeaders(shared, options.header, options.unprotected, { alg, ...(recipient.kid !== undefined ? { kid: recipient.kid } : {}) });
+  }
+
+  const subtle = await getSubtleCrypto();
+  const apu = options.partyUInfo ?? EMPTY;
+  const apv = options.partyVInfo ?? EMPTY;
+  const cek = alg === JWE_ALG_ECDH_ES ? null : await generateRandomBytes(CEK_LENGTH);
+
+  const encryptedKeys: { header: JweHeader; encryptedKey: Uint8Array; cek: Uint8Array }[] = [];
+  for (const recipient of recipients) {
+    const { epk, derivedKey } = await agreeAsSender(subtle, publicKeyBytes(recipient.publicKey), alg, apu, apv);
+    const header: JweHeader = {
+      alg,
+      ...(recipient.kid !== undefined ? { kid: recipient.kid } : {}),
+      epk,
+    };
+    encryptedKeys.push(cek
+      ? { header, encryptedKey: await wrapCek(subtle, derivedKey, cek), cek }
+      : { header, encryptedKey: EMPTY, cek: derivedKey });
+  }
+
+  const flattened = encryptedKeys.length === 1;
+  const protectedHeader = flattened ? { ...encryptedKeys[0]!.header, ...shared, ...options.header } : { ...shared, ...options.header };
+  const encodedProtected = byteArrayToBase64Url(new TextEncoder().encode(JSON.stringify(protectedHeader)));
+  const encodedAad = options.additionalData ? byteArrayToBase64Url(options.additionalData) : undefined;
+
+  const iv = await generateRandomBytes(IV_LENGTH);
+  const key = await subtle.importKey('raw', encryptedKeys[0]!.cek as any, { name: 'AES-GCM' }, false, ['encrypt']);
+  const sealed = new Uint8Array(await subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: jweAad(encodedProtected, encodedAad), tagLength: TAG_LENGTH * 8 },
+    key,
+    typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext
+  ));
+
+  const jwe: JweJson = {
+    protected: encodedProtected,
+    ...(options.unprotected ? { unprotected: options.unprotected } : {}),
+    ...(flattened
+      ? encryptedKeys[0]!.encryptedKey.length > 0 ? { encrypted_key: byteArrayToBase64Url(encryptedKeys[0]!.encryptedKey) } : {}
+      : { recipients: encryptedKeys.map(({ header, encryptedKey }) => ({ header, encrypted_key: byteArrayToBase64Url(encryptedKey) })) }),
+    ...(encodedAad !== undefined ? { aad: encodedAad } : {}),
+    iv: byteArrayToBase64Url(iv),
+    ciphertext: byteArrayToBase64Url(sealed.slice(0, sealed.length - TAG_LENGTH)),
+    tag: byteArrayToBase64Url(sealed.slice(sealed.length - TAG_LENGTH)),
+  };
+  return jwe;
+}
+
+/**
+ * Decrypt a JWE in compact or JSON serialization. With several recipients, each one
+ * (or those matching options.kid) is tried until one decrypts.
+ * @param jwe Compact string, JSON string or parsed JSON serialization
+ * @param recipientKey Our X25519 private key
+ * @param options Accepted algorithms and kid
+ * @returns Promise<DecryptedJwe>
+ * @throws {AuthenticationFailedError} If the algorithm is not accepted or decryption fails
+ * @throws {EncodingError} If the JWE is malformed
+ * @throws {InvalidKeyError} If the ephemeral or private key is not an X25519 key
+ * @throws {InvalidStateError} If ECDH-ES+A256KW is used with a crypto provider without unwrapKey()
+ */
+export async function decryptJwe(
+  jwe: string | JweJson,
+  recipientKey: JwePrivateKey,
+  options: JweDecryptOptions = {}
+): Promise<DecryptedJwe> {
+  const parsed = typeof jwe === 'string' ? parseJwe(jwe) : jwe;
+  if (typeof parsed !== 'object' || parsed === null || [parsed.iv, parsed.ciphertext, parsed.tag].some(part => typeof part !== 'string')) {
+    throw new EncodingError('Invalid JWE: iv, ciphertext and tag are required');
+  }
+
+  if ([parsed.protected, parsed.aad, parsed.encrypted_key].some(part => part !== undefined && typeof part !== 'string')) {
+    throw new EncodingError('Invalid JWE: protected, aad and encrypted_key must be strings');
+  }
+  if (parsed.recipients !== undefined) {
+    if (!Array.isArray(parsed.recipients) || parsed.recipients.length === 0) {
+      throw new EncodingError('Invalid JWE: recipients must be a non-empty array');
+    }
+    for (const recipient of parsed.recipients) {
+      if (typeof recipient !== 'object' || recipient === null
+        || (recipient.encrypted_key !== undefined && typeof recipient.encrypted_key !== 'string')) {
+        throw new EncodingError('Invalid JWE recipient');
+      }
+    }
+  }
+
+  const protectedHeader = parsed.protected ? parseHeader(decodeSegment(parsed.protected)) : {};
+  const recipients = parsed.recipients ?? [{ header: parsed.header, encrypted_key: parsed.encrypted_key }];
+  const subtle = await getSubtleCrypto();
+  const privateKey = await importPrivateKey(subtle, recipientKey);
+  const algorithms = options.algorithms ?? [JWE_ALG_ECDH_ES, JWE_ALG_ECDH_ES_A256KW];
+
+  let lastError: Error = new AuthenticationFailedError(`No JWE recipient with kid ${options.kid}`);
+  for (const recipient of recipients) {
+    const header = mergeHeaders(protectedHeader, parsed.unprotected, recipient.header);
+    if (options.kid !== undefined && header.kid !== undefined && header.kid !== options.kid) continue;
+
+    try {
+      const cek = await recipientCek(subtle, privateKey, header, recipient.encrypted_key, algorithms);
+      const plaintext = await decryptContent(subtle, cek, parsed);
+      return {
+        plaintext,
+        protectedHeader,
+        header,
+        ...(parsed.aad !== undefined ? { additionalData: decodeSegment(parsed.aad) } : {}),
+      };
+    } catch (error) {
+      lastError = error as Error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Concat KDF (NIST SP 800-56A section 5.8.1) with SHA-256, as used by ECDH-ES (RFC 7518 section 4.6.2)
+ * @param sharedSecret Z, the ECDH output
+ * @param keyDataLen Key length in bits
+ * @param algorithmId enc for ECDH-ES, alg for ECDH-ES+A256KW
+ * @param partyUInfo apu, decoded
+ * @param partyVInfo apv, decoded
+ * @returns Promise<Uint8Array> keyDataLen / 8 bytes
+ */
+export async function concatKdf(
+  sharedSecret: Uint8Array,
+  keyDataLen: number,
+  algorithmId: string,
+  partyUInfo: Uint8Array = EMPTY,
+  partyVInfo: Uint8Array = EMPTY
+): Promise<Uint8Array> {
+  const subtle = await getSubtleCrypto();
+  const otherInfo = concatBytes(
+    lengthPrefixed(new TextEncoder().encode(algorithmId)),
+    lengthPrefixed(partyUInfo),
+    lengthPrefixed(partyVInfo),
+    uint32ToBytes(keyDataLen)
+  );
+
+  const rounds: Uint8Array[] = [];
+  for (let counter = 1; counter <= Math.ceil(keyDataLen / 256); counter++) {
+    const input = concatBytes(uint32ToBytes(counter), sharedSecret, otherInfo);
+    rounds.push(new Uint8Array(await subtle.digest('SHA-256', input as any)));
+  }
+  return concatBytes(...rounds).slice(0, keyDataLen / 8);
+}
+
+async function agreeAsSender(
+  subtle: SubtleCrypto,
+  recipientPublicKey: Uint8Array,
+  alg: JweAlgorithm,
+  apu: Uint8Array,
+  apv: Uint8Array
+): Promise<{ epk: OkpJwk; derivedKey: Uint8Array }> {
+  const ephemeral = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']) as CryptoKeyPair;
+  const epk: OkpJwk = {
+    kty: 'OKP',
+    crv: 'X25519',
+    x: byteArrayToBase64Url(await subtle.exportKey('raw', ephemeral.publicKey)),
+  };
+  const sharedSecret = await diffieHellman(subtle, ephemeral.privateKey, recipientPublicKey);
+  return { epk, derivedKey: await concatKdf(sharedSecret, CEK_LENGTH * 8, kdfAlgorithmId(alg), apu, apv) };
+}
+
+async function recipientCek(
+  subtle: SubtleCrypto,
+  privateKey: CryptoKey,
+  header: JweHeader,
+  encryptedKey: string | undefined,
+  algorithms: JweAlgorithm[]
+): Promise<Uint8Array> {
+  const alg = header.alg as JweAlgorithm;
+  if (!algorithms.includes(alg)) {
+    throw new AuthenticationFailedError(`Unsupported JWE algorithm: ${String(header.alg)}`);
+  }
+  if (header.enc !== JWE_ENC_A256GCM) {
+    throw new AuthenticationFailedError(`Unsupported JWE content encryption: ${String(header.enc)}`);
+  }
+  if (header.crit !== undefined || header.zip !== undefined) {
+    throw new AuthenticationFailedError('Unsupported JWE header parameters (crit, zip)');
+  }
+  if (typeof header.epk !== 'object' || header.epk === null) {
+    throw new EncodingError('JWE header has no epk');
+  }
+
+  const sharedSecret = await diffieHellman(subtle, privateKey, publicKeyBytes(header.epk));
+  const apu = typeof header.apu === 'string' ? decodeSegment(header.apu) : EMPTY;
+  const apv = typeof header.apv === 'string' ? decodeSegment(header.apv) : EMPTY;
+  const derivedKey = await concatKdf(sharedSecret, CEK_LENGTH * 8, kdfAlgorithmId(alg), apu, apv);
+
+  if (alg === JWE_ALG_ECDH_ES) {
+    if (encryptedKey) throw new EncodingError('ECDH-ES JWE must not have an encrypted key');
+    return derivedKey;
+  }
+  if (!encryptedKey) throw new EncodingError('ECDH-ES+A256KW JWE has no encrypted key');
+  return unwrapCek(subtle, derivedKey, decodeSegment(encryptedKey));
+}
+
+async function decryptContent(subtle: SubtleCrypto, cek: Uint8Array, jwe: JweJson): Promise<Uint8Array> {
+  const iv = decodeSegment(jwe.iv);
+  const tag = decodeSegment(jwe.tag);
+  if (iv.length !== IV_LENGTH || tag.length !== TAG_LENGTH) {
+    throw new EncodingError('Invalid JWE iv or tag length');
+  }
+
+  const key = await subtle.importKey('raw', cek as any, { name: 'AES-GCM' }, false, ['decrypt']);
+  try {
+    return new Uint8Array(await subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: jweAad(jwe.protected ?? '', jwe.aad), tagLength: TAG_LENGTH * 8 },
+      key,
+      concatBytes(decodeSegment(jwe.ciphertext), tag)
+    ));
+  } catch {
+    throw new AuthenticationFailedError('JWE decryption failed');
+  }
+}
+
+async function wrapCek(subtle: SubtleCrypto, kek: Uint8Array, cek: Uint8Array): Promise<Uint8Array> {
+  if (!subtle.wrapKey) throw new InvalidStateError('ECDH-ES+A256KW needs a crypto provider with wrapKey()');
+  const wrappingKey = await subtle.importKey('raw', kek as any, { name: 'AES-KW' }, false, ['wrapKey']);
+  const cekKey = await subtle.importKey('raw', cek as any, { name: 'AES-GCM' }, true, ['encrypt']);
+  return new Uint8Array(await subtle.wrapKey('raw', cekKey, wrappingKey, { name: 'AES-KW' }));
+}
+
+async function unwrapCek(subtle: SubtleCrypto, kek: Uint8Array, encryptedKey: Uint8Array): Promise<Uint8Array> {
+  if (!subtle.unwrapKey) throw new InvalidStateError('ECDH-ES+A256KW needs a crypto provider with unwrapKey()');
+  const unwrappingKey = await subtle.importKey('raw', kek as any, { name: 'AES-KW' }, false, ['unwrapKey']);
+  let cek: Uint8Array;
+  try {
+    const cekKey = await subtle.unwrapKey('raw', encryptedKey as any, unwrappingKey, { name: 'AES-KW' }, { name: 'AES-GCM' }, true, ['decrypt']);
+    cek = new Uint8Array(await subtle.exportKey('raw', cekKey));
+  } catch {
+    throw new AuthenticationFailedError('JWE key unwrap failed');
+  }
+  if (cek.length !== CEK_LENGTH) {
+    throw new AuthenticationFailedError(`Invalid A256GCM key length: ${cek.length}`);
+  }
+  return cek;
+}
+
+async function diffieHellman(subtle: SubtleCrypto, privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> {
+  let sharedSecret: Uint8Array;
+  try {
+    const peerKey = await subtle.importKey('raw', publicKey as any, { name: 'X25519' }, false, []);
+    sharedSecret = new Uint8Array(await subtle.deriveBits({ name: 'X25519', public: peerKey }, privateKey, 256));
+  } catch {
+    throw new InvalidKeyError('Invalid X25519 public key');
+  }
+  // RFC 8037 section 3.2.1: reject the all-zero output of small-order points
+  if (sharedSecret.every(byte => byte === 0)) throw new InvalidKeyError('Invalid X25519 public key');
+  return sharedSecret;
+}
+
+async function importPrivateKey(subtle: SubtleCrypto, key: JwePrivateKey): Promise<CryptoKey> {
+  if ('privateKey' in key) return key.privateKey;
+  if (!('kty' in key)) return key;
+
+  if (key.kty !== 'OKP' || key.crv !== 'X25519' || typeof key.d !== 'string') {
+    throw new InvalidKeyError('Expected a private X25519 OKP JWK');
+  }
+  try {
+    return await subtle.importKey('jwk', { kty: 'OKP', crv: 'X25519', d: key.d, x: key.x }, { name: 'X25519' }, false, ['deriveBits']);
+  } catch {
+    throw new InvalidKeyError('Invalid X25519 private key');
+  }
+}
+
+function publicKeyBytes(key: JwePublicKey): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof key === 'string') {
+    bytes = base64StringToByteArr(key);
+  } else if (key instanceof Uint8Array) {
+    bytes = key;
+  } else {
+    if (key.kty !== 'OKP' || key.crv !== 'X25519' || typeof key.x !== 'string') {
+      throw new InvalidKeyError('Expected an X25519 OKP JWK');
+    }
+    bytes = base64UrlToByteArr(key.x);
+  }
+  if (bytes.length !== PUBLIC_KEY_LENGTH) {
+    throw new InvalidKeyError(`Invalid X25519 public key length: ${bytes.length}`);
+  }
+  return bytes;
+}
+
+function kdfAlgorithmId(alg: JweAlgorithm): string {
+  return alg === JWE_ALG_ECDH_ES ? JWE_ENC_A256GCM : alg;
+}
+
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  return concatBytes(uint32ToBytes(data.length), data);
+}
+
+// RFC 7516 section 5.1 step 14
+function jweAad(encodedProtected: string, encodedAad?: string): Uint8Array {
+  return new TextEncoder().encode(encodedAad === undefined ? encodedProtected : `${encodedProtected}.${encodedAad}`);
+}
+
+function mergeHeaders(...headers: (JweHeader | undefined)[]): JweHeader {
+  const merged: JweHeader = {};
+  for (const header of headers) {
+    for (const [name, value] of Object.entries(header ?? {})) {
+      if (name in merged) throw new EncodingError(`Duplicate JWE header parameter: ${name}`);
+      merged[name] = value;
+    }
+  }
+  return merged;
+}
+
+function parseJwe(jwe: string): JweJson {
+  if (jwe.trimStart().startsWith('{')) {
+    try {
+      return JSON.parse(jwe) as JweJson;
+    } catch {
+      throw new EncodingError('Invalid JWE: not JSON');
+    }
+  }
+
+  const segments = jwe.split('.');
+  if (segments.length !== 5 || segments[0] === '') {
+    throw new EncodingError('Invalid compact JWE');
+  }
+  const [encodedProtected, encryptedKey, iv, ciphertext, tag] = segments as [string, string, string, string, string];
+  return { protected: encodedProtected, encrypted_key: encryptedKey, iv, ciphertext, tag };
+}
+
+function parseHeader(json: Uint8Array): JweHeader {
+  let header: unknown;
+  try {
+    header = JSON.parse(byteArrayToString(json));
+  } catch {
+    throw new EncodingError('Invalid JWE header: not JSON');
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new EncodingError('Invalid JWE header: not a JSON object');
+  }
+  return header as JweHeader;
+}
+
+function decodeSegment(segment: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+    throw new EncodingError('Invalid base64url JWE segment');
+  }
+  return base64UrlToByteArr(segment);
+}
@@ -0,0 +1,283 @@
+import { AuthenticationFailedError, EncodingError, InvalidKeyError } from './errors';
+import { base64StringToByteArr, base64UrlToByteArr, byteArrayToBase64Url, byteArrayToString } from './helpers';
+import { Signature } from './Signature';
+import { TrustStore } from './TrustStore';
+
+/**
+ * Compact JWS (RFC 7515) and JWT (RFC 7519) with Ed25519 signatures (alg EdDSA, RFC 8037)
+ */
+
+export const JWS_ALGORITHM = 'EdDSA';
+
+const DEFAULT_CLOCK_SKEW_MS = 60 * 1000;
+
+export interface JwsHeader {
+  alg: typeof JWS_ALGORITHM;
+  kid?: string;
+  typ?: string;
+  cty?: string;
+  [name: string]: unknown;
+}
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number; // Epoch seconds
+  nbf?: number; // Epoch seconds
+  iat?: number; // Epoch seconds
+  jti?: string;
+  [name: string]: unknown;
+}
+
+/**
+ * Keys a token can be verified with:
+ * - a Signature: the key ID is looked up in its trust store; tokens without one are rejected unless tryAllKeys
+ *   is set, then its server key and every active trusted key are tried
+ * - a TrustStore: the key ID is looked up; tokens without one are rejected unless tryAllKeys is set, then every active key is tried
+ * - a function returning the public key (bytes or base64) for a key ID
+ */
+export type JwsKeys =
+  | Signature
+  | TrustStore
+  | ((kid: string | undefined) => Uint8Array | string | null | undefined | Promise<Uint8Array | string | null | undefined>);
+
+export interface JwsSignOptions {
+  kid?: string;
+  typ?: string;
+  header?: Record<string, unknown>; // Extra protected header parameters
+}
+
+export interface JwtSignOptions extends JwsSignOptions {
+  expiresInMs?: number; // Sets exp
+  notBefore?: number; // Epoch ms; sets nbf
+  issuer?: string;
+  subject?: string;
+  audience?: string | string[];
+  now?: number; // Epoch ms used for iat (default Date.now())
+}
+
+export interface JwsVerifyOptions {
+  keys: JwsKeys;
+  typ?: string; // Required typ header
+  tryAllKeys?: boolean; // Accept tokens without kid from any trusted key (default false: any trusted peer could pose as another)
+}
+
+export interface JwtVerifyOptions extends JwsVerifyOptions {
+  issuer?: string | string[]; // Accepted iss values
+  audience?: string | string[]; // We accept the token if aud contains any of these
+  subject?: string;
+  requiredClaims?: string[]; // e.g. ['exp', 'jti']
+  maxAgeMs?: number; // Reject tokens whose iat is older than this
+  clockSkewMs?: number; // Tolerance for exp/nbf/iat (default 60 s)
+  now?: number; // Epoch ms (default Date.now())
+}
+
+export interface VerifiedJws {
+  header: JwsHeader;
+  payload: Uint8Array;
+}
+
+export interface VerifiedJwt {
+  header: JwsHeader;
+  claims: JwtClaims;
+}
+
+/**
+ * Sign a payload as a compact JWS with our Ed25519 identity
+ * @param payload Bytes or string to sign
+ * @param signer Signature instance holding our identity
+ * @param options kid, typ and extra header parameters
+ * @returns Promise<string> `header.payload.signature`, base64url encoded
+ */
+export async function signJws(payload: string | Uint8Array, signer: Signature, options: JwsSignOptions = {}): Promise<string> {
+  const header: JwsHeader = {
+    alg: JWS_ALGORITHM,
+    ...(options.kid !== undefined ? { kid: options.kid } : {}),
+    ...(options.typ !== undefined ? { typ: options.typ } : {}),
+    ...options.header,
+  };
+  if (header.alg !== JWS_ALGORITHM) {
+    throw new EncodingError(`JWS alg must be ${JWS_ALGORITHM}`);
+  }
+
+  const payloadBytes = typeof payload === 'string' ? new TextEncoder().encode(payload) : payload;
+  const signingInput = `${encodeSegment(JSON.stringify(header))}.${byteArrayToBase64Url(payloadBytes)}`;
+  const signature = await signer.sign(signingInput);
+  return `${signingInput}.${byteArrayToBase64Url(signature)}`;
+}
+
+/**
+ * Verify a compact JWS
+ * @param token Compact JWS
+ * @param options Keys and the required typ
+ * @returns Promise<VerifiedJws> Protected header and payload bytes
+ * @throws {AuthenticationFailedError} If the algorithm, key or signature is not accepted, or kid is missing without tryAllKeys
+ * @throws {EncodingError} If the token is malformed
+ */
+export async function verifyJws(token: string, options: JwsVerifyOptions): Promise<VerifiedJws> {
+  const segments = token.split('.');
+  if (segments.length !== 3 || !segments.every(segment => /^[A-Za-z0-9_-]*$/.test(segment))) {
+    throw new EncodingError('Invalid compact JWS');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments as [string, string, string];
+
+  const header = parseJson(decodeSegment(encodedHeader), 'JWS header') as JwsHeader;
+  if (header.alg !== JWS_ALGORITHM) {
+    throw new AuthenticationFailedError(`Unsupported JWS algorithm: ${String(header.alg)}`);
+  }
+  if (header.crit !== undefined) {
+    throw new AuthenticationFailedError('Unsupported critical JWS header parameters');
+  }
+  if (header.kid !== undefined && typeof header.kid !== 'string') {
+    throw new EncodingError('JWS kid must be a string');
+  }
+  if (options.typ !== undefined && header.typ !== options.typ) {
+    throw new AuthenticationFailedError(`JWS typ must be ${options.typ}`);
+  }
+
+  const signature = base64UrlToByteArr(encodedSignature);
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  if (!await verifyWithKeys(options.keys, header.kid, signature, signingInput, options.tryAllKeys ?? false)) {
+    throw new AuthenticationFailedError('Invalid JWS signature');
+  }
+
+  return { header, payload: base64UrlToByteArr(encodedPayload) };
+}
+
+/**
+ * Issue a JWT. iat is always set; exp, nbf, iss, sub and aud come from the options unless the claims already have them.
+ * @param claims Token claims
+ * @param signer Signature instance holding our identity
+ * @param options kid, lifetime and registered claims
+ * @returns Promise<string> Compact JWT
+ */
+export async function signJwt(claims: JwtClaims, signer: Signature, options: JwtSignOptions = {}): Promise<string> {
+  const now = options.now ?? Date.now();
+  const payload: JwtClaims = {
+    iat: Math.floor(now / 1000),
+    ...(options.expiresInMs !== undefined ? { exp: Math.floor((now + options.expiresInMs) / 1000) } : {}),
+    ...(options.notBefore !== undefined ? { nbf: Math.floor(options.notBefore / 1000) } : {}),
+    ...(options.issuer !== undefined ? { iss: options.issuer } : {}),
+    ...(options.subject !== undefined ? { sub: options.subject } : {}),
+    ...(options.audience !== undefined ? { aud: options.audience } : {}),
+    ...claims,
+  };
+  return signJws(JSON.stringify(payload), signer, { ...options, typ: options.typ ?? 'JWT' });
+}
+
+/**
+ * Verify a JWT's signature and claims
+ * @param token Compact JWT
+ * @param options Keys and claim checks
+ * @returns Promise<VerifiedJwt> Protected header and claims
+ * @throws {AuthenticationFailedError} If the signature or a claim check fails
+ * @throws {EncodingError} If the token is malformed
+ */
+export async function verifyJwt(token: string, options: JwtVerifyOptions): Promise<VerifiedJwt> {
+  const { header, payload } = await verifyJws(token, options);
+  const claims = parseJson(byteArrayToString(payload), 'JWT claims') as JwtClaims;
+  validateClaims(claims, options);
+  return { header, claims };
+}
+
+function validateClaims(claims: JwtClaims, options: JwtVerifyOptions): void {
+  const now = options.now ?? Date.now();
+  const skew = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+
+  for (const name of options.requiredClaims ?? []) {
+    if (claims[name] === undefined) {
+      throw new AuthenticationFailedError(`Missing ${name} claim`);
+    }
+  }
+  for (const name of ['exp', 'nbf', 'iat'] as const) {
+    if (claims[name] !== undefined && typeof claims[name] !== 'number') {
+      throw new AuthenticationFailedError(`Invalid ${name} claim`);
+    }
+  }
+
+  if (claims.exp !== undefined && claims.exp * 1000 <= now - skew) {
+    throw new AuthenticationFailedError('Token expired');
+  }
+  if (claims.nbf !== undefined && claims.nbf * 1000 > now + skew) {
+    throw new AuthenticationFailedError('Token not yet valid');
+  }
+  if (claims.iat !== undefined && claims.iat * 1000 > now + skew) {
+    throw new AuthenticationFailedError('Token issued in the future');
+  }
+  if (options.maxAgeMs !== undefined) {
+    if (claims.iat === undefined) {
+      throw new AuthenticationFailedError('Missing iat claim');
+    }
+    if (now - claims.iat * 1000 > options.maxAgeMs + skew) {
+      throw new AuthenticationFailedError('Token too old');
+    }
+  }
+
+  if (options.issuer !== undefined && !toArray(options.issuer).includes(claims.iss as string)) {
+    throw new AuthenticationFailedError(`Unexpected issuer: ${String(claims.iss)}`);
+  }
+  if (options.subject !== undefined && claims.sub !== options.subject) {
+    throw new AuthenticationFailedError(`Unexpected subject: ${String(claims.sub)}`);
+  }
+  if (options.audience !== undefined) {
+    const audiences = claims.aud === undefined ? [] : toArray(claims.aud);
+    if (!toArray(options.audience).some(audience => audiences.includes(audience))) {
+      throw new AuthenticationFailedError('Token is not for this audience');
+    }
+  }
+}
+
+async function verifyWithKeys(
+  keys: JwsKeys,
+  kid: string | undefined,
+  signature: Uint8Array,
+  signingInput: string,
+  tryAllKeys: boolean
+): Promise<boolean> {
+  try {
+    if (keys instanceof Signature || keys instanceof TrustStore) {
+      if (kid === undefined && !tryAllKeys) {
+        throw new AuthenticationFailedError('JWS has no kid. Set tryAllKeys to accept any trusted key.');
+      }
+      return await keys.verify(signature, signingInput, kid);
+    }
+  } catch (error) {
+    if (error instanceof InvalidKeyError) {
+      throw new AuthenticationFailedError(error.message);
+    }
+    throw error;
+  }
+
+  const key = await (keys as Exclude<JwsKeys, Signature | TrustStore>)(kid);
+  if (key === null || key === undefined) {
+    throw new AuthenticationFailedError(`Unknown key ID: ${kid}`);
+  }
+  const verifier = await Signature.getInstance();
+  return verifier.verifyWithKey(typeof key === 'string' ? base64StringToByteArr(key) : key, signature, signingInput);
+}
+
+function encodeSegment(json: string): string {
+  return byteArrayToBase64Url(new TextEncoder().encode(json));
+}
+
+function decodeSegment(segment: string): string {
+  return byteArrayToString(base64UrlToByteArr(segment));
+}
+
+function parseJson(json: string, what: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new EncodingError(`Invalid ${what}: not JSON`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new EncodingError(`Invalid ${what}: not a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
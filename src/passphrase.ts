@@ -0,0 +1,106 @@
+import { AuthenticationFailedError, EncodingError, InvalidArgumentError } from './errors';
+import { byteArrayToBase64, base64StringToByteArr, generateRandomBytes, getSubtleCrypto } from './helpers';
+import { CryptoKey } from './types';
+
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+// Bounds for wrapping and for unwrapping untrusted blobs: a crafted iteration count must not stall the caller
+export const MIN_PBKDF2_ITERATIONS = 1000;
+export const MAX_PBKDF2_ITERATIONS = 10000000;
+
+/**
+ * Data encrypted under a passphrase-derived key (PBKDF2-SHA256 + AES-256-GCM).
+ * All fields are JSON-serializable; binary values are base64.
+ */
+export interface PassphraseWrapped {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * Encrypt data with a key derived from a passphrase
+ * @param data Bytes to protect
+ * @param passphrase Passphrase to derive the key from
+ * @param iterations PBKDF2 iteration count, between MIN_PBKDF2_ITERATIONS and MAX_PBKDF2_ITERATIONS
+ * @returns Promise<PassphraseWrapped>
+ * @throws {InvalidArgumentError} If the iteration count is out of range
+ */
+export async function wrapWithPassphrase(
+  data: Uint8Array,
+  passphrase: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<PassphraseWrapped> {
+  if (!isValidIterationCount(iterations)) {
+    throw new InvalidArgumentError(
+      `Iterations must be an integer between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}, got: ${iterations}`
+    );
+  }
+
+  const subtle = await getSubtleCrypto();
+  const salt = await generateRandomBytes(16);
+  const nonce = await generateRandomBytes(12);
+  const header = { kdf: 'PBKDF2-SHA256' as const, iterations, salt: byteArrayToBase64(salt), nonce: byteArrayToBase64(nonce) };
+
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce as any, additionalData: headerAad(header) },
+    await deriveKey(passphrase, salt, iterations),
+    data as any
+  );
+
+  return { ...header, ciphertext: byteArrayToBase64(ciphertext) };
+}
+
+/**
+ * Decrypt data produced by wrapWithPassphrase()
+ * @param wrapped Wrapped data
+ * @param passphrase Passphrase used to wrap it
+ * @returns Promise<Uint8Array> The original data
+ * @throws {EncodingError} If the key derivation or its iteration count is not supported
+ * @throws {AuthenticationFailedError} If the passphrase is wrong or the data was modified
+ */
+export async function unwrapWithPassphrase(wrapped: PassphraseWrapped, passphrase: string): Promise<Uint8Array> {
+  if (wrapped.kdf !== 'PBKDF2-SHA256') {
+    throw new EncodingError(`Unsupported key derivation: ${wrapped.kdf}`);
+  }
+  // Checked before deriving: the count comes from the blob, which may be attacker-supplied
+  if (!isValidIterationCount(wrapped.iterations)) {
+    throw new EncodingError(`Unsupported PBKDF2 iteration count: ${wrapped.iterations}`);
+  }
+
+  const subtle = await getSubtleCrypto();
+  const { kdf, iterations, salt, nonce } = wrapped;
+
+  try {
+    const plaintext = await subtle.decrypt(
+      { name: 'AES-GCM', iv: base64StringToByteArr(nonce) as any, additionalData: headerAad({ kdf, iterations, salt, nonce }) },
+      await deriveKey(passphrase, base64StringToByteArr(salt), iterations),
+      base64StringToByteArr(wrapped.ciphertext) as any
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new AuthenticationFailedError('Wrong passphrase or corrupted data');
+  }
+}
+
+function isValidIterationCount(iterations: number): boolean {
+  return Number.isInteger(iterations) && iterations >= MIN_PBKDF2_ITERATIONS && iterations <= MAX_PBKDF2_ITERATIONS;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const subtle = await getSubtleCrypto();
+  const baseKey = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// The KDF parameters are authenticated so they cannot be downgraded
+function headerAad(header: Omit<PassphraseWrapped, 'ciphertext'>): Uint8Array {
+  return new TextEncoder().encode(`${header.kdf}|${header.iterations}|${header.salt}|${header.nonce}`);
+}
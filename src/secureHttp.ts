@@ -0,0 +1,362 @@
+import { decodeEnvelope, encodeEnvelope, envelopeAlgorithm, Envelope } from './Envelope';
+import { AuthenticationFailedError, ReplayError } from './errors';
+import { base64UrlToByteArr, byteArrayToBase64Url, concatBytes, generateRandomBytes } from './helpers';
+import { KeyExchange } from './KeyExchange';
+import { RecordLayer } from './RecordLayer';
+
+// Header and content-type convention shared by secureFetch() and createSecureMiddleware()
+export const SECURE_HTTP_CONTENT_TYPE = 'application/vnd.secure-channel.envelope';
+export const SECURE_HTTP_SESSION_HEADER = 'x-secure-channel-session'; // Lets the server find its side of the session
+export const SECURE_HTTP_REQUEST_ID_HEADER = 'x-secure-channel-request-id'; // Binds a response to its request
+export const SECURE_HTTP_CONTENT_TYPE_HEADER = 'x-secure-channel-content-type'; // Content type of the plaintext body
+export const SECURE_HTTP_AUTH_HEADER = 'x-secure-channel-auth'; // Encrypted empty envelope authenticating a bodiless request or response
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+const sessionQueues = new WeakMap<SecureHttpSession, Promise<unknown>>();
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Session used to protect HTTP bodies. A RecordLayer adds replay protection
+ * (each request body is accepted once), a bare KeyExchange does not.
+ */
+export type SecureHttpSession = KeyExchange | RecordLayer;
+
+export interface SecureRequestInit extends Omit<RequestInit, 'body'> {
+  body?: string | ArrayBuffer | ArrayBufferView | null;
+  session: SecureHttpSession;
+  sessionId: string; // Sent in the session header; the server resolves it to its own session
+  fetch?: typeof fetch; // Defaults to globalThis.fetch
+}
+
+/**
+ * The parts of a Node.js IncomingMessage the middleware uses
+ */
+export interface SecureHttpRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown; // Set to the decrypted Uint8Array, or read as is when a body parser already produced bytes
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * The parts of a Node.js ServerResponse the middleware uses
+ */
+export interface SecureHttpResponse {
+  statusCode: number;
+  setHeader(name: string, value: number | string | readonly string[]): unknown;
+  getHeader(name: string): number | string | string[] | undefined;
+  removeHeader(name: string): void;
+  writeHead(statusCode: number, ...args: any[]): unknown;
+  write(chunk: any, ...args: any[]): boolean;
+  end(...args: any[]): unknown;
+}
+
+export interface SecureMiddlewareOptions {
+  getSession(sessionId: string, req: SecureHttpRequest): SecureHttpSession | undefined | Promise<SecureHttpSession | undefined>;
+  limit?: number; // Maximum encrypted request body size in bytes (default 1 MiB)
+}
+
+export type SecureMiddleware = (req: SecureHttpRequest, res: SecureHttpResponse, next: (error?: unknown) => void) => Promise<void>;
+
+/**
+ * fetch() over a secure channel: encrypts the request body and decrypts the response body.
+ * The request's method, path, content type and a fresh request ID are authenticated with the body,
+ * and the response is bound to the same request ID, so bodies cannot be moved between requests.
+ * Requests and responses without a body carry an encrypted empty envelope in the auth header instead.
+ * @param input Request URL
+ * @param init fetch() options plus the session and its ID; the body must be a string, ArrayBuffer or Uint8Array
+ * @returns Promise<Response> Response with the decrypted body and original content type
+ * @throws {AuthenticationFailedError} If the response is not encrypted or fails authentication
+ */
+export async function secureFetch(input: string | URL, init: SecureRequestInit): Promise<Response> {
+  const { session, sessionId, fetch: fetchImpl = globalThis.fetch, ...requestInit } = init;
+  const method = (requestInit.method ?? 'GET').toUpperCase();
+  const url = new URL(input, (globalThis as { location?: { href: string } }).location?.href);
+  const path = url.pathname + url.search;
+  const requestId = byteArrayToBase64Url(await generateRandomBytes(16));
+
+  const headers = new Headers(requestInit.headers);
+  headers.set(SECURE_HTTP_SESSION_HEADER, sessionId);
+  headers.set(SECURE_HTTP_REQUEST_ID_HEADER, requestId);
+
+  let body: Uint8Array | undefined;
+  if (requestInit.body !== undefined && requestInit.body !== null) {
+    const plaintext = bodyBytes(requestInit.body);
+    const contentType = headers.get('content-type')
+      ?? (typeof requestInit.body === 'string' ? 'text/plain;charset=UTF-8' : 'application/octet-stream');
+    body = await sealBody(session, plaintext, requestAad(requestId, method, path, contentType));
+    headers.set('content-type', SECURE_HTTP_CONTENT_TYPE);
+    headers.set(SECURE_HTTP_CONTENT_TYPE_HEADER, contentType);
+  } else {
+    const sealed = await sealBody(session, new Uint8Array(0), requestAad(requestId, method, path, null));
+    headers.set(SECURE_HTTP_AUTH_HEADER, byteArrayToBase64Url(sealed));
+  }
+
+  // slice(): fetch() and Response only take bodies backed by a plain ArrayBuffer
+  const response = await fetchImpl(url, { ...requestInit, method, headers, body: body?.slice() });
+
+  if (response.headers.get('content-type') !== SECURE_HTTP_CONTENT_TYPE) {
+    const token = response.headers.get(SECURE_HTTP_AUTH_HEADER);
+    if ((method === 'HEAD' || NULL_BODY_STATUSES.includes(response.status)) && token) {
+      await openBody(session, decodeEnvelope(base64UrlToByteArr(token)), responseAad(requestId, method, path, response.status, null));
+      return response;
+    }
+    throw new AuthenticationFailedError(
+      `Expected an encrypted response, got ${response.status} ${response.headers.get('content-type') ?? 'without a content type'}`
+    );
+  }
+
+  const contentType = response.headers.get(SECURE_HTTP_CONTENT_TYPE_HEADER) ?? '';
+  const plaintext = await openBody(
+    session,
+    decodeEnvelope(new Uint8Array(await response.arrayBuffer())),
+    responseAad(requestId, method, path, response.status, contentType)
+  );
+
+  const responseHeaders = new Headers(response.headers);
+  responseHeaders.delete('content-length');
+  responseHeaders.delete(SECURE_HTTP_CONTENT_TYPE_HEADER);
+  if (contentType) {
+    responseHeaders.set('content-type', contentType);
+  } else {
+    responseHeaders.delete('content-type');
+  }
+  return new Response(plaintext.slice(), { status: response.status, statusText: response.statusText, headers: responseHeaders });
+}
+
+/**
+ * Node.js (req, res, next) middleware, for Express, Connect or a plain http server: decrypts
+ * request bodies sent by secureFetch() into `req.body` (a Uint8Array, with the original content type
+ * restored) and encrypts whatever the handler writes to `res`.
+ * Requests without the session header or, when bodiless, without the auth header are answered with 401,
+ * bodies and auth headers that fail authentication or replay checks with 401, unencrypted bodies with 415,
+ * oversized bodies with 413 and malformed or unreadable ones with 400.
+ * @param options Session lookup and body size limit
+ * @returns SecureMiddleware
+ */
+export function createSecureMiddleware(options: SecureMiddlewareOptions): SecureMiddleware {
+  const limit = options.limit ?? DEFAULT_BODY_LIMIT;
+
+  return async (req, res, next) => {
+    const sessionId = header(req, SECURE_HTTP_SESSION_HEADER);
+    const requestId = header(req, SECURE_HTTP_REQUEST_ID_HEADER);
+    if (!sessionId || !requestId) {
+      return respondWithError(res, 401, 'Missing secure channel headers');
+    }
+
+    let session: SecureHttpSession | undefined;
+    try {
+      session = await options.getSession(sessionId, req);
+    } catch (error) {
+      return next(error);
+    }
+    if (!session) {
+      return respondWithError(res, 401, 'Unknown secure channel session');
+    }
+
+    const method = (req.method ?? 'GET').toUpperCase();
+    const path = req.url ?? '/';
+    const contentType = header(req, 'content-type');
+    const hasBody = contentType !== undefined
+      || header(req, 'transfer-encoding') !== undefined
+      || Number(header(req, 'content-length') ?? 0) > 0;
+
+    let sealed: Uint8Array | string;
+    let additionalData: Uint8Array;
+    let plaintextType = '';
+    if (hasBody) {
+      if (contentType !== SECURE_HTTP_CONTENT_TYPE) {
+        return respondWithError(res, 415, 'Request body must be encrypted');
+      }
+      plaintextType = header(req, SECURE_HTTP_CONTENT_TYPE_HEADER) ?? '';
+      try {
+        sealed = await readBody(req, limit);
+      } catch (error) {
+        return error instanceof BodyTooLargeError
+          ? respondWithError(res, 413, 'Request body too large')
+          : respondWithError(res, 400, 'Could not read request body');
+      }
+      additionalData = requestAad(requestId, method, path, plaintextType);
+    } else {
+      // Without a body, the auth header proves the request (method and path included) comes from the session peer
+      const token = header(req, SECURE_HTTP_AUTH_HEADER);
+      if (!token) {
+        return respondWithError(res, 401, 'Missing request authentication');
+      }
+      sealed = token;
+      additionalData = requestAad(requestId, method, path, null);
+    }
+
+    let plaintext: Uint8Array;
+    try {
+      const envelope = decodeEnvelope(typeof sealed === 'string' ? base64UrlToByteArr(sealed) : sealed);
+      plaintext = await openBody(session, envelope, additionalData);
+    } catch (error) {
+      const authFailed = error instanceof AuthenticationFailedError || error instanceof ReplayError;
+      return respondWithError(res, authFailed ? 401 : 400, authFailed ? 'Request authentication failed' : 'Malformed request body');
+    }
+    if (hasBody) {
+      req.body = plaintext;
+      req.headers['content-type'] = plaintextType;
+      delete req.headers[SECURE_HTTP_CONTENT_TYPE_HEADER];
+    }
+
+    encryptResponse(res, session, requestId, method, path);
+    next();
+  };
+}
+
+// Buffer what the handler writes, then send it as one envelope
+function encryptResponse(res: SecureHttpResponse, session: SecureHttpSession, requestId: string, method: string, path: string): void {
+  const { writeHead, write, end } = res;
+  const chunks: Uint8Array[] = [];
+  // Node's end() calls writeHead() itself, so the originals must be back in place first
+  const finish = (body?: Uint8Array) => {
+    res.writeHead = writeHead;
+    res.write = write;
+    res.end = end;
+    if (body) res.end(body); else res.end();
+  };
+
+  res.writeHead = (statusCode: number, ...args: any[]) => {
+    // Headers are sent with the body, once it is encrypted
+    res.statusCode = statusCode;
+    const headers = args.find(arg => typeof arg === 'object' && arg !== null && !Array.isArray(arg));
+    if (headers) {
+      Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value as string));
+    }
+    return res;
+  };
+
+  res.write = (chunk: any, encoding?: any) => {
+    if (chunk !== undefined && chunk !== null) chunks.push(chunkBytes(chunk, encoding));
+    return true;
+  };
+
+  res.end = (chunk?: any, encoding?: any) => {
+    if (chunk !== undefined && chunk !== null && typeof chunk !== 'function') chunks.push(chunkBytes(chunk, encoding));
+
+    const status = res.statusCode;
+    const fail = () => {
+      res.statusCode = 500;
+      res.removeHeader('content-type');
+      res.setHeader('content-length', 0);
+      finish();
+    };
+
+    if (method === 'HEAD' || NULL_BODY_STATUSES.includes(status)) {
+      sealBody(session, new Uint8Array(0), responseAad(requestId, method, path, status, null)).then(
+        sealed => {
+          res.setHeader(SECURE_HTTP_AUTH_HEADER, byteArrayToBase64Url(sealed));
+          finish();
+        },
+        fail
+      );
+      return res;
+    }
+
+    const contentType = String(res.getHeader('content-type') ?? 'application/octet-stream');
+    sealBody(session, concatBytes(...chunks), responseAad(requestId, method, path, status, contentType)).then(
+      sealed => {
+        res.setHeader('content-type', SECURE_HTTP_CONTENT_TYPE);
+        res.setHeader(SECURE_HTTP_CONTENT_TYPE_HEADER, contentType);
+        res.setHeader('content-length', sealed.length);
+        finish(sealed);
+      },
+      fail
+    );
+    return res;
+  };
+}
+
+function sealBody(session: SecureHttpSession, plaintext: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array> {
+  // The additional data is rebuilt by the receiver from the request itself, so it is not sent
+  return enqueue(session, async () => {
+    if (session instanceof RecordLayer) {
+      const { ciphertext, nonce, epoch } = await session.seal(plaintext, additionalData);
+      return encodeEnvelope({ ciphertext, nonce, epoch }, envelopeAlgorithm(session.cipherSuite));
+    }
+    const epoch = session.txEpoch;
+    const { ciphertext, nonce } = await session.encrypt(plaintext, additionalData);
+    return encodeEnvelope({ ciphertext, nonce, epoch }, envelopeAlgorithm(session.cipherSuite));
+  });
+}
+
+function openBody(session: SecureHttpSession, envelope: Envelope, additionalData: Uint8Array): Promise<Uint8Array> {
+  return enqueue(session, () => session instanceof RecordLayer
+    ? session.open({ ciphertext: envelope.ciphertext, nonce: envelope.nonce, epoch: envelope.epoch, additionalData })
+    : session.decryptAtEpoch(envelope.epoch, envelope.ciphertext, envelope.nonce, additionalData));
+}
+
+// Parallel requests share a session: its seals and opens run one at a time, like SecureWebSocket's queues
+function enqueue<T>(session: SecureHttpSession, task: () => Promise<T>): Promise<T> {
+  const result = (sessionQueues.get(session) ?? Promise.resolve()).then(task);
+  sessionQueues.set(session, result.catch(() => undefined));
+  return result;
+}
+
+// contentType is null for the auth header of a bodiless message, which gets its own label so it cannot pass for a body
+function requestAad(requestId: string, method: string, path: string, contentType: string | null): Uint8Array {
+  const label = contentType === null ? 'secure-channel-http bodiless request' : 'secure-channel-http request';
+  return new TextEncoder().encode([label, requestId, method, path, contentType ?? ''].join('\n'));
+}
+
+function responseAad(requestId: string, method: string, path: string, status: number, contentType: string | null): Uint8Array {
+  const label = contentType === null ? 'secure-channel-http bodiless response' : 'secure-channel-http response';
+  return new TextEncoder().encode([label, requestId, method, path, status, contentType ?? ''].join('\n'));
+}
+
+function bodyBytes(body: string | ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (typeof body === 'string') return new TextEncoder().encode(body);
+  if (body instanceof Uint8Array) return body;
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+}
+
+function chunkBytes(chunk: unknown, encoding?: unknown): Uint8Array {
+  if (typeof chunk === 'string') {
+    if (typeof encoding === 'string' && !/^utf-?8$/i.test(encoding)) {
+      throw new Error(`Unsupported response encoding: ${encoding}`);
+    }
+    return new TextEncoder().encode(chunk);
+  }
+  if (ArrayBuffer.isView(chunk)) return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength).slice();
+  throw new Error('Response chunks must be strings or byte arrays');
+}
+
+function header(req: SecureHttpRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readBody(req: SecureHttpRequest, limit: number): Promise<Uint8Array> {
+  if (req.body instanceof Uint8Array) {
+    // Already read by a raw body parser
+    return req.body.length > limit ? Promise.reject(new BodyTooLargeError('Body too large')) : Promise.resolve(req.body);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    req.on('data', (chunk: Uint8Array) => {
+      length += chunk.length;
+      if (length > limit) {
+        reject(new BodyTooLargeError('Body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(concatBytes(...chunks)));
+    req.on('error', reject);
+  });
+}
+
+function respondWithError(res: SecureHttpResponse, status: number, message: string): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'text/plain; charset=utf-8');
+  res.end(message);
+}
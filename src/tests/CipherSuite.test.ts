@@ -0,0 +1,178 @@
+import { createCipheriv, webcrypto } from 'crypto';
+import { chacha20Poly1305Open, chacha20Poly1305Seal, poly1305 } from '../chacha20poly1305';
+import {
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+  CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305,
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV,
+  DEFAULT_CIPHER_SUITE,
+  getCipherSuite,
+  importAeadKey,
+  listCipherSuites,
+  negotiateCipherSuite
+} from '../CipherSuite';
+import { KeyExchange } from '../KeyExchange';
+import { byteArrayToString } from '../helpers';
+import { SubtleCrypto } from '../types';
+
+const hex = (value: string) => Uint8Array.from(Buffer.from(value, 'hex'));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('ChaCha20-Poly1305 (RFC 8439)', () => {
+  const key = hex('808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f');
+  const nonce = hex('070000004041424344454647');
+  const aad = hex('50515253c0c1c2c3c4c5c6c7');
+  const plaintext = new TextEncoder().encode("Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.");
+
+  it('should match the section 2.8.2 AEAD test vector', () => {
+    const sealed = chacha20Poly1305Seal(key, nonce, plaintext, aad);
+
+    expect(toHex(sealed)).toBe(
+      'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d63dbea45e8ca9671282fafb69da92728b'
+      + '1a71de0a9e060b2905d6a5b67ecd3b3692ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc'
+      + '3ff4def08e4b7a9de576d26586cec64b6116'
+      + '1ae10b594f09e26a7e902ecbd0600691'
+    );
+    expect(chacha20Poly1305Open(key, nonce, sealed, aad)).toEqual(plaintext);
+  });
+
+  it('should match the section 2.5.2 Poly1305 test vector', () => {
+    const tag = poly1305(
+      hex('85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b'),
+      new TextEncoder().encode('Cryptographic Forum Research Group')
+    );
+
+    expect(toHex(tag)).toBe('a8061dc1305136c6c22b8baf0c0127a9');
+  });
+
+  it('should match OpenSSL across message and AAD lengths', () => {
+    for (const length of [0, 1, 15, 16, 17, 63, 64, 65, 200]) {
+      for (const aadLength of [0, 1, 16, 33]) {
+        const message = webcrypto.getRandomValues(new Uint8Array(length));
+        const additionalData = webcrypto.getRandomValues(new Uint8Array(aadLength));
+
+        const cipher = createCipheriv('chacha20-poly1305', key, nonce, { authTagLength: 16 });
+        cipher.setAAD(additionalData, { plaintextLength: length });
+        const expected = Buffer.concat([cipher.update(message), cipher.final(), cipher.getAuthTag()]);
+
+        expect(toHex(chacha20Poly1305Seal(key, nonce, message, additionalData))).toBe(expected.toString('hex'));
+      }
+    }
+  });
+
+  it('should reject modified ciphertext, tag or AAD', () => {
+    const sealed = chacha20Poly1305Seal(key, nonce, plaintext, aad);
+
+    for (const position of [0, sealed.length - 1]) {
+      const tampered = sealed.slice();
+      tampered[position]! ^= 1;
+      expect(() => chacha20Poly1305Open(key, nonce, tampered, aad)).toThrow('ChaCha20-Poly1305 authentication failed');
+    }
+    expect(() => chacha20Poly1305Open(key, nonce, sealed, new Uint8Array(0))).toThrow('ChaCha20-Poly1305 authentication failed');
+    expect(() => chacha20Poly1305Open(key, nonce, sealed.slice(0, 15), aad)).toThrow('ChaCha20-Poly1305 authentication failed');
+  });
+});
+
+describe('CipherSuite', () => {
+  it('should default to AES-256-GCM with HKDF-SHA256', () => {
+    expect(getCipherSuite(DEFAULT_CIPHER_SUITE)).toMatchObject({ aead: 'AES-GCM', hash: 'SHA-256', keyLength: 32 });
+  });
+
+  it('should know reserved suites without offering them', () => {
+    expect(() => getCipherSuite(CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV)).toThrow('Unsupported cipher suite: 0x0003');
+    expect(() => getCipherSuite(0x1234)).toThrow('Unsupported cipher suite: 0x1234');
+    expect(listCipherSuites().map(suite => suite.id)).toEqual([
+      CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+      CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305,
+    ]);
+  });
+
+  it('should negotiate by our preference and skip unknown offers', () => {
+    const both = [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305, CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM];
+
+    expect(negotiateCipherSuite(both).id).toBe(CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM);
+    expect(negotiateCipherSuite(both, [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305]).id)
+      .toBe(CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+    expect(negotiateCipherSuite([0x7777, CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305]).id)
+      .toBe(CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+    expect(() => negotiateCipherSuite([CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV], [CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM_SIV]))
+      .toThrow('No cipher suite in common: offered [0x0003]');
+  });
+
+  it.each([CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM, CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305])(
+    'should round-trip through the AEAD of suite %i',
+    async (id) => {
+      const key = await importAeadKey(getCipherSuite(id), new Uint8Array(32).fill(1), webcrypto.subtle as unknown as SubtleCrypto);
+      const nonce = new Uint8Array(12);
+      const sealed = await key.encrypt(nonce, new TextEncoder().encode('suite'), new Uint8Array([1]));
+
+      expect(sealed).toHaveLength(5 + 16);
+      expect(byteArrayToString(await key.decrypt(nonce, sealed, new Uint8Array([1])))).toBe('suite');
+      await expect(key.decrypt(nonce, sealed, new Uint8Array([2]))).rejects.toThrow();
+    }
+  );
+
+  it('should reject keys of the wrong length', async () => {
+    await expect(importAeadKey(getCipherSuite(DEFAULT_CIPHER_SUITE), new Uint8Array(16), webcrypto.subtle as unknown as SubtleCrypto))
+      .rejects.toThrow('X25519_HKDF_SHA256_AES_256_GCM key must be 32 bytes, got 16');
+  });
+});
+
+describe('KeyExchange cipher suites', () => {
+  afterEach(() => {
+    KeyExchange.listSessions().forEach(peerId => KeyExchange.closeSession(peerId));
+  });
+
+  async function pair(cipherSuite?: number): Promise<[KeyExchange, KeyExchange]> {
+    const client = await KeyExchange.createSession('suite-server', 'client', { exportable: true });
+    const server = await KeyExchange.createSession('suite-client', 'server');
+    const clientKey = await client.generateKeyPair();
+    const serverKey = await server.generateKeyPair();
+    await client.deriveKeys(serverKey, cipherSuite);
+    await server.deriveKeys(clientKey, cipherSuite);
+    return [client, server];
+  }
+
+  it('should encrypt with ChaCha20-Poly1305 when that suite is agreed', async () => {
+    const [client, server] = await pair(CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+    expect(client.cipherSuite.aead).toBe('ChaCha20-Poly1305');
+
+    const { ciphertext, nonce } = await client.encrypt('over chacha', 'aad');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce, 'aad'))).toBe('over chacha');
+
+    await client.ratchetTx();
+    const next = await client.encrypt('after rekey');
+    expect(byteArrayToString(await server.decryptAtEpoch(1, next.ciphertext, next.nonce))).toBe('after rekey');
+  });
+
+  it('should not interoperate when the peers disagree on the suite', async () => {
+    const client = await KeyExchange.createSession('suite-server', 'client');
+    const server = await KeyExchange.createSession('suite-client', 'server');
+    const clientKey = await client.generateKeyPair();
+    const serverKey = await server.generateKeyPair();
+    await client.deriveKeys(serverKey, CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+    await server.deriveKeys(clientKey, CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM);
+
+    const { ciphertext, nonce } = await client.encrypt('mismatch');
+    await expect(server.decrypt(ciphertext, nonce)).rejects.toThrow();
+  });
+
+  it('should keep the suite across exportState() and restoreSession()', async () => {
+    const [client, server] = await pair(CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+    const state = client.exportState();
+    expect(state.cipherSuite).toBe(CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305);
+
+    KeyExchange.closeSession('suite-server');
+    const restored = await KeyExchange.restoreSession(state);
+    const { ciphertext, nonce } = await restored.encrypt('restored');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce))).toBe('restored');
+  });
+
+  it('should restore states exported before suites existed with the default suite', async () => {
+    const [client] = await pair();
+    const { cipherSuite, ...legacyState } = client.exportState();
+    expect(cipherSuite).toBe(DEFAULT_CIPHER_SUITE);
+
+    KeyExchange.closeSession('suite-server');
+    expect((await KeyExchange.restoreSession(legacyState)).cipherSuite.id).toBe(DEFAULT_CIPHER_SUITE);
+  });
+});
@@ -0,0 +1,83 @@
+import { webcrypto } from 'crypto';
+import { setCryptoProvider, getCryptoProvider } from '../CryptoProvider';
+import { withCurveFallback } from '../CurveFallback';
+import { KeyExchange } from '../KeyExchange';
+import { Signature } from '../Signature';
+import { SealedBox } from '../SealedBox';
+import { generateRandomBytes, getSubtleCrypto } from '../helpers';
+import { CryptoProvider, SubtleCrypto } from '../types';
+
+// Real Web Crypto behind a proxy that records which operations were used
+function recordingProvider(): { provider: CryptoProvider; calls: string[] } {
+  const calls: string[] = [];
+  const subtle = new Proxy(webcrypto.subtle, {
+    get(target, property: string) {
+      const value = (target as any)[property];
+      if (typeof value !== 'function') return value;
+      return (...args: any[]) => {
+        calls.push(property);
+        return value.apply(target, args);
+      };
+    },
+  }) as unknown as SubtleCrypto;
+
+  return { provider: { subtle }, calls };
+}
+
+describe('CryptoProvider', () => {
+  afterEach(() => {
+    setCryptoProvider(null);
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+  });
+
+  it('should default to the platform Web Crypto API', async () => {
+    expect(getCryptoProvider()).toBeNull();
+    expect(await getSubtleCrypto()).toBe(withCurveFallback(globalThis.crypto.subtle as unknown as SubtleCrypto, generateRandomBytes));
+  });
+
+  it('should route KeyExchange sessions through the provider', async () => {
+    const { provider, calls } = recordingProvider();
+    setCryptoProvider(provider);
+
+    const client = await KeyExchange.createSession('provider-server', 'client');
+    try {
+      await client.generateKeyPair();
+      expect(calls).toEqual(['generateKey', 'exportKey']);
+    } finally {
+      KeyExchange.closeSession('provider-server');
+    }
+  });
+
+  it('should route Signature and module functions through the provider', async () => {
+    const { provider, calls } = recordingProvider();
+    setCryptoProvider(provider);
+
+    const signature = await Signature.getInstance();
+    await signature.sign('data');
+    expect(calls).toEqual(['generateKey', 'sign']);
+
+    await SealedBox.generateKeyPair();
+    expect(calls).toContain('generateKey');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should use the provider random source when given', async () => {
+    setCryptoProvider({
+      subtle: webcrypto.subtle as unknown as SubtleCrypto,
+      getRandomValues: array => array.fill(9),
+    });
+
+    expect(await generateRandomBytes(4)).toEqual(new Uint8Array([9, 9, 9, 9]));
+  });
+
+  it('should keep the platform random source without one', async () => {
+    setCryptoProvider(recordingProvider().provider);
+
+    expect(await generateRandomBytes(16)).not.toEqual(new Uint8Array(16));
+  });
+
+  it('should reject a provider without SubtleCrypto', () => {
+    expect(() => setCryptoProvider({ subtle: {} as SubtleCrypto })).toThrow('Crypto provider must implement SubtleCrypto');
+  });
+});
@@ -0,0 +1,266 @@
+import { webcrypto } from 'crypto';
+import { x25519, x25519PublicKey, ed25519PublicKey, ed25519Sign, ed25519Verify } from '../curve25519';
+import { CurveFallbackSubtle, withCurveFallback } from '../CurveFallback';
+import { setCryptoProvider } from '../CryptoProvider';
+import { KeyExchange } from '../KeyExchange';
+import { Signature } from '../Signature';
+import { generateRandomBytes, getSubtleCrypto } from '../helpers';
+import { SubtleCrypto } from '../types';
+
+const hex = (value: string) => Uint8Array.from(Buffer.from(value, 'hex'));
+const toHex = (bytes: Uint8Array | ArrayBuffer) => Buffer.from(bytes as Uint8Array).toString('hex');
+const sha512 = async (data: Uint8Array) => new Uint8Array(await webcrypto.subtle.digest('SHA-512', data));
+
+// Real Web Crypto that rejects the curves like platforms without them do
+function subtleWithoutCurves(): SubtleCrypto {
+  const reject = (algorithm: any) => {
+    const name = typeof algorithm === 'string' ? algorithm : algorithm?.name;
+    return name === 'X25519' || name === 'Ed25519';
+  };
+  const notSupported = () => Promise.reject(new DOMException('Unrecognized algorithm name', 'NotSupportedError'));
+  const subtle = webcrypto.subtle as any;
+
+  return {
+    generateKey: (algorithm, ...rest) => reject(algorithm) ? notSupported() : subtle.generateKey(algorithm, ...rest),
+    importKey: (format, data, algorithm, ...rest) => reject(algorithm) ? notSupported() : subtle.importKey(format, data, algorithm, ...rest),
+    exportKey: (...args) => subtle.exportKey(...args),
+    encrypt: (...args) => subtle.encrypt(...args),
+    decrypt: (...args) => subtle.decrypt(...args),
+    sign: (...args) => subtle.sign(...args),
+    verify: (...args) => subtle.verify(...args),
+    deriveBits: (...args) => subtle.deriveBits(...args),
+    deriveKey: (...args) => subtle.deriveKey(...args),
+    digest: (...args) => subtle.digest(...args),
+  } as SubtleCrypto;
+}
+
+describe('curve25519', () => {
+  describe('X25519 (RFC 7748)', () => {
+    it('should match the section 5.2 test vectors', () => {
+      expect(toHex(x25519(
+        hex('a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4'),
+        hex('e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c')
+      ))).toBe('c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552');
+      expect(toHex(x25519(
+        hex('4b66e9d4d1b4673c5ad22691957d6af5c11b6421e0ea01d42ca4169e7918ba0d'),
+        hex('e5210f12786811d3f4b7959d0538ae2c31dbe7106fc03c3efc4cd549c715a493')
+      ))).toBe('95cbde9476e8907d7aade45cb4b873f88b595a68799fa152e6f8f7647aac7957');
+    });
+
+    it('should match the first iteration of the section 5.2 loop', () => {
+      const nine = new Uint8Array(32);
+      nine[0] = 9;
+      expect(toHex(x25519(nine, nine))).toBe('422c8e7a6227d7bca1350b3e2bb7279f7897b87bb6854b783c60e80311ae3079');
+    });
+
+    it('should match the section 6.1 Diffie-Hellman example', () => {
+      const alicePrivate = hex('77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a');
+      const bobPrivate = hex('5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb');
+      const alicePublic = x25519PublicKey(alicePrivate);
+      const bobPublic = x25519PublicKey(bobPrivate);
+
+      expect(toHex(alicePublic)).toBe('8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a');
+      expect(toHex(bobPublic)).toBe('de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f');
+      expect(toHex(x25519(alicePrivate, bobPublic))).toBe('4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742');
+      expect(toHex(x25519(bobPrivate, alicePublic))).toBe('4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742');
+    });
+
+    it('should reject inputs of the wrong length', () => {
+      expect(() => x25519(new Uint8Array(31), new Uint8Array(32))).toThrow('X25519 scalar must be 32 bytes, got 31');
+      expect(() => x25519(new Uint8Array(32), new Uint8Array(33))).toThrow('X25519 u-coordinate must be 32 bytes, got 33');
+    });
+  });
+
+  describe('Ed25519 (RFC 8032)', () => {
+    const vectors = [
+      {
+        secretKey: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+        publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+        message: '',
+        signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+      },
+      {
+        secretKey: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+        publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+        message: '72',
+        signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+      },
+      {
+        secretKey: 'c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7',
+        publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+        message: 'af82',
+        signature: '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a',
+      },
+    ];
+
+    it.each(vectors.map((vector, i) => [i + 1, vector] as const))('should match section 7.1 test %i', async (_, vector) => {
+      const seed = hex(vector.secretKey);
+      const message = hex(vector.message);
+
+      expect(toHex(await ed25519PublicKey(seed, sha512))).toBe(vector.publicKey);
+      expect(toHex(await ed25519Sign(seed, message, sha512))).toBe(vector.signature);
+      expect(await ed25519Verify(hex(vector.publicKey), message, hex(vector.signature), sha512)).toBe(true);
+    });
+
+    it('should reject modified signatures and messages', async () => {
+      const { publicKey, signature } = vectors[2]!;
+      const tampered = hex(signature);
+      tampered[40]! ^= 1;
+
+      expect(await ed25519Verify(hex(publicKey), hex('af82'), tampered, sha512)).toBe(false);
+      expect(await ed25519Verify(hex(publicKey), hex('af83'), hex(signature), sha512)).toBe(false);
+      expect(await ed25519Verify(hex(publicKey), hex('af82'), hex(signature).slice(0, 63), sha512)).toBe(false);
+    });
+
+    it('should reject a non-canonical S (S + L)', async () => {
+      const { publicKey, signature } = vectors[0]!;
+      const bytes = hex(signature);
+      const order = hex('edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010');
+      let carry = 0;
+      for (let i = 0; i < 32; i++) {
+        const sum = bytes[32 + i]! + order[i]! + carry;
+        bytes[32 + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+
+      expect(await ed25519Verify(hex(publicKey), new Uint8Array(0), bytes, sha512)).toBe(false);
+    });
+  });
+});
+
+describe('CurveFallbackSubtle', () => {
+  let subtle: CurveFallbackSubtle;
+
+  beforeEach(() => {
+    subtle = new CurveFallbackSubtle(subtleWithoutCurves(), generateRandomBytes);
+  });
+
+  it('should keep using the platform implementation when it supports the curves', async () => {
+    const native = new CurveFallbackSubtle(webcrypto.subtle as unknown as SubtleCrypto, generateRandomBytes);
+    const keyPair = await native.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify']);
+
+    expect(native.usesFallback('Ed25519')).toBe(false);
+    expect(keyPair.privateKey.constructor.name).toBe('CryptoKey');
+  });
+
+  it('should switch to the fallback once the platform rejects a curve', async () => {
+    await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+
+    expect(subtle.usesFallback('X25519')).toBe(true);
+    expect(subtle.usesFallback('Ed25519')).toBe(false);
+  });
+
+  it('should produce Ed25519 signatures the platform verifies, and verify platform signatures', async () => {
+    const keyPair = await subtle.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify']);
+    const data = new TextEncoder().encode('fallback');
+    const signature = await subtle.sign('Ed25519', keyPair.privateKey, data);
+
+    const publicKey = await webcrypto.subtle.importKey('raw', await subtle.exportKey('raw', keyPair.publicKey), 'Ed25519', true, ['verify']);
+    expect(await webcrypto.subtle.verify('Ed25519', publicKey, signature, data)).toBe(true);
+
+    const nativePair = await webcrypto.subtle.generateKey('Ed25519', true, ['sign', 'verify']) as any;
+    const nativeSignature = await webcrypto.subtle.sign('Ed25519', nativePair.privateKey, data);
+    const imported = await subtle.importKey('raw', await webcrypto.subtle.exportKey('raw', nativePair.publicKey), { name: 'Ed25519' }, true, ['verify']);
+    expect(await subtle.verify('Ed25519', imported, nativeSignature, data)).toBe(true);
+    expect(await subtle.verify('Ed25519', imported, nativeSignature, new TextEncoder().encode('other'))).toBe(false);
+  });
+
+  it('should agree with the platform on X25519 shared secrets', async () => {
+    const ours = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+    const theirs = await webcrypto.subtle.generateKey('X25519', true, ['deriveBits']) as any;
+
+    const theirPublic = await subtle.importKey('raw', await webcrypto.subtle.exportKey('raw', theirs.publicKey), { name: 'X25519' }, false, []);
+    const ourSecret = await subtle.deriveBits({ name: 'X25519', public: theirPublic }, ours.privateKey, 256);
+
+    const ourPublic = await webcrypto.subtle.importKey('raw', await subtle.exportKey('raw', ours.publicKey), 'X25519', true, []);
+    const theirSecret = await webcrypto.subtle.deriveBits({ name: 'X25519', public: ourPublic } as any, theirs.privateKey, 256);
+
+    expect(toHex(ourSecret)).toBe(toHex(theirSecret));
+  });
+
+  it('should reject an all-zero X25519 shared secret', async () => {
+    const keyPair = await subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+    const lowOrder = await subtle.importKey('raw', new Uint8Array(32), { name: 'X25519' }, false, []);
+
+    await expect(subtle.deriveBits({ name: 'X25519', public: lowOrder }, keyPair.privateKey, 256))
+      .rejects.toThrow('X25519 shared secret is all zero');
+  });
+
+  it('should round-trip keys through pkcs8, spki and jwk', async () => {
+    const seed = hex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+    const pkcs8 = new Uint8Array([...hex('302e020100300506032b657004220420'), ...seed]);
+    const privateKey = await subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+
+    const jwk = await subtle.exportKey('jwk', privateKey) as any;
+    expect(jwk).toMatchObject({ kty: 'OKP', crv: 'Ed25519', x: Buffer.from(hex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a')).toString('base64url') });
+    expect(toHex(await subtle.exportKey('pkcs8', privateKey))).toBe(toHex(pkcs8));
+
+    const fromJwk = await subtle.importKey('jwk', jwk, { name: 'Ed25519' }, false, ['sign']);
+    const publicKey = await subtle.importKey('jwk', { kty: 'OKP', crv: 'Ed25519', x: jwk.x }, { name: 'Ed25519' }, true, ['verify']);
+    const spki = await subtle.exportKey('spki', publicKey);
+    const fromSpki = await subtle.importKey('spki', spki, { name: 'Ed25519' }, true, ['verify']);
+
+    const signature = await subtle.sign('Ed25519', fromJwk, new Uint8Array(0));
+    expect(toHex(signature)).toBe('e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b');
+    expect(await subtle.verify('Ed25519', fromSpki, signature, new Uint8Array(0))).toBe(true);
+  });
+
+  it('should enforce extractability and key usages', async () => {
+    const keyPair = await subtle.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify']);
+
+    await expect(subtle.exportKey('pkcs8', keyPair.privateKey)).rejects.toThrow('Key is not extractable');
+    await expect(subtle.verify('Ed25519', keyPair.privateKey, new Uint8Array(64), new Uint8Array(0))).rejects.toThrow('Key does not support verify');
+    await expect(subtle.importKey('raw', new Uint8Array(32), { name: 'Ed25519' }, true, ['sign'])).rejects.toThrow('Invalid key usage for Ed25519: sign');
+    await expect(subtle.importKey('raw', new Uint8Array(31), { name: 'X25519' }, true, [])).rejects.toThrow('Invalid X25519 public key length: 31');
+  });
+
+  it('should pass other algorithms straight through', async () => {
+    const key = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+    expect(key.constructor.name).toBe('CryptoKey');
+  });
+
+  it('should wrap each SubtleCrypto once', () => {
+    const native = subtleWithoutCurves();
+
+    expect(withCurveFallback(native, generateRandomBytes)).toBe(withCurveFallback(native, generateRandomBytes));
+    expect(withCurveFallback(subtle, generateRandomBytes)).toBe(subtle);
+  });
+});
+
+describe('curve fallback integration', () => {
+  afterEach(() => {
+    setCryptoProvider(null);
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+  });
+
+  it('should add the fallback to the platform implementation', async () => {
+    expect(await getSubtleCrypto()).toBeInstanceOf(CurveFallbackSubtle);
+    expect(await getSubtleCrypto()).toBe(await getSubtleCrypto());
+  });
+
+  it('should run KeyExchange and Signature without native curve support', async () => {
+    setCryptoProvider({ subtle: withCurveFallback(subtleWithoutCurves(), generateRandomBytes) });
+
+    const client = await KeyExchange.createSession('fallback-server', 'client');
+    const server = await KeyExchange.createSession('fallback-client', 'server');
+    try {
+      const clientPublicKey = await client.generateKeyPair();
+      const serverPublicKey = await server.generateKeyPair();
+      await client.deriveKeys(serverPublicKey);
+      await server.deriveKeys(clientPublicKey);
+
+      const { ciphertext, nonce } = await client.encrypt('hello');
+      expect(new TextDecoder().decode(await server.decrypt(ciphertext, nonce))).toBe('hello');
+    } finally {
+      KeyExchange.closeSession('fallback-server');
+      KeyExchange.closeSession('fallback-client');
+    }
+
+    const signature = await Signature.getInstance();
+    const signed = await signature.sign('data');
+    const publicKey = Buffer.from(await signature.getPublicKey(), 'base64');
+    expect(await signature.verifyWithKey(publicKey, signed, 'data')).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  DoubleRatchet,
+  serializeRatchetMessage,
+  parseRatchetMessage,
+  RatchetMessage
+} from '../DoubleRatchet';
+import { AuthenticationFailedError } from '../errors';
+import { byteArrayToString, generateRandomBytes } from '../helpers';
+
+async function createPair(options = {}): Promise<[DoubleRatchet, DoubleRatchet]> {
+  const sharedSecret = await generateRandomBytes(32);
+  const bobKeyPair = await DoubleRatchet.generateKeyPair();
+  const bobPublicKey = new Uint8Array(await (globalThis as any).crypto.subtle.exportKey('raw', bobKeyPair.publicKey));
+
+  const alice = await DoubleRatchet.initSender(sharedSecret, bobPublicKey, options);
+  const bob = await DoubleRatchet.initReceiver(sharedSecret, bobKeyPair, options);
+  return [alice, bob];
+}
+
+async function read(ratchet: DoubleRatchet, message: RatchetMessage): Promise<string> {
+  return byteArrayToString(await ratchet.decrypt(message));
+}
+
+describe('DoubleRatchet', () => {
+  it('should exchange messages in both directions', async () => {
+    const [alice, bob] = await createPair();
+
+    expect(await read(bob, await alice.encrypt('hi bob'))).toBe('hi bob');
+    expect(await read(alice, await bob.encrypt('hi alice'))).toBe('hi alice');
+    expect(await read(bob, await alice.encrypt('how are you?'))).toBe('how are you?');
+  });
+
+  it('should not let the receiver send first', async () => {
+    const [, bob] = await createPair();
+
+    await expect(bob.encrypt('too early')).rejects.toThrow('Cannot send before receiving the first message');
+  });
+
+  it('should rotate the ratchet public key on every turn', async () => {
+    const [alice, bob] = await createPair();
+
+    const first = await alice.encrypt('one');
+    const second = await alice.encrypt('two');
+    expect(second.header.publicKey).toEqual(first.header.publicKey);
+    expect(second.header.messageNumber).toBe(1);
+
+    await bob.decrypt(first);
+    await bob.decrypt(second);
+    const reply = await bob.encrypt('three');
+    await alice.decrypt(reply);
+    const next = await alice.encrypt('four');
+
+    expect(next.header.publicKey).not.toEqual(first.header.publicKey);
+    expect(next.header.previousChainLength).toBe(2);
+    expect(next.header.messageNumber).toBe(0);
+  });
+
+  it('should use a different key for every message', async () => {
+    const [alice] = await createPair();
+
+    const first = await alice.encrypt('same');
+    const second = await alice.encrypt('same');
+    expect(first.ciphertext).not.toEqual(second.ciphertext);
+  });
+
+  it('should decrypt out-of-order and delayed messages', async () => {
+    const [alice, bob] = await createPair();
+
+    const a1 = await alice.encrypt('a1');
+    const a2 = await alice.encrypt('a2');
+    const a3 = await alice.encrypt('a3');
+
+    expect(await read(bob, a3)).toBe('a3');
+    expect(await read(alice, await bob.encrypt('b1'))).toBe('b1');
+    const a4 = await alice.encrypt('a4');
+
+    expect(await read(bob, a4)).toBe('a4');
+    expect(await read(bob, a1)).toBe('a1');
+    expect(await read(bob, a2)).toBe('a2');
+  });
+
+  it('should not decrypt the same message twice', async () => {
+    const [alice, bob] = await createPair();
+
+    const a1 = await alice.encrypt('a1');
+    const a2 = await alice.encrypt('a2');
+    await bob.decrypt(a2);
+    await bob.decrypt(a1);
+
+    await expect(bob.decrypt(a1)).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should authenticate associated data and the header', async () => {
+    const [alice, bob] = await createPair();
+    const ad = new TextEncoder().encode('alice|bob');
+
+    const message = await alice.encrypt('hello', ad);
+    await expect(bob.decrypt(message)).rejects.toThrow(AuthenticationFailedError);
+    await expect(bob.decrypt({ ...message, header: { ...message.header, previousChainLength: 1 } }, ad)).rejects.toThrow();
+    expect(byteArrayToString(await bob.decrypt(message, ad))).toBe('hello');
+  });
+
+  it('should leave the state unchanged after a failed decryption', async () => {
+    const [alice, bob] = await createPair();
+
+    const message = await alice.encrypt('hello');
+    const forged = { ...message, ciphertext: message.ciphertext.slice() };
+    forged.ciphertext[0]! ^= 0xFF;
+
+    await expect(bob.decrypt(forged)).rejects.toThrow(AuthenticationFailedError);
+    expect(await read(bob, message)).toBe('hello');
+  });
+
+  it('should refuse to skip too many messages', async () => {
+    const [alice, bob] = await createPair({ maxSkip: 2 });
+
+    for (let i = 0; i < 3; i++) await alice.encrypt('lost');
+    const message = await alice.encrypt('late');
+
+    await expect(bob.decrypt(message)).rejects.toThrow('Too many skipped messages: 3 (max 2)');
+  });
+
+  it('should bound the number of stored skipped keys', async () => {
+    const [alice, bob] = await createPair({ maxStoredKeys: 2 });
+
+    const early = await alice.encrypt('0');
+    for (let i = 1; i < 4; i++) await alice.encrypt(String(i));
+    await bob.decrypt(await alice.encrypt('4'));
+
+    expect((await bob.exportState()).skippedKeys).toHaveLength(2);
+    await expect(bob.decrypt(early)).rejects.toThrow();
+  });
+
+  it('should resume from exported state', async () => {
+    const [alice, bob] = await createPair();
+
+    await bob.decrypt(await alice.encrypt('a1'));
+    const delayed = await alice.encrypt('a2');
+    await bob.decrypt(await alice.encrypt('a3'));
+
+    const state = JSON.parse(JSON.stringify(await bob.exportState()));
+    const restoredBob = await DoubleRatchet.fromState(state);
+
+    expect(restoredBob.publicKey).toEqual(bob.publicKey);
+    expect(await read(restoredBob, delayed)).toBe('a2');
+    expect(await read(alice, await restoredBob.encrypt('b1'))).toBe('b1');
+    expect(await read(restoredBob, await alice.encrypt('a4'))).toBe('a4');
+  });
+
+  it('should reject unknown state versions', async () => {
+    const [alice] = await createPair();
+    const state = { ...(await alice.exportState()), version: 2 };
+
+    await expect(DoubleRatchet.fromState(state as any)).rejects.toThrow('Unsupported ratchet state version: 2');
+  });
+});
+
+describe('Ratchet message serialization', () => {
+  it('should round-trip messages', async () => {
+    const [alice, bob] = await createPair();
+    const message = await alice.encrypt('over the wire');
+
+    const bytes = serializeRatchetMessage(message);
+    expect(bytes).toHaveLength(40 + message.ciphertext.length);
+    expect(parseRatchetMessage(bytes)).toEqual(message);
+    expect(await read(bob, parseRatchetMessage(bytes))).toBe('over the wire');
+  });
+
+  it('should reject short messages', () => {
+    expect(() => parseRatchetMessage(new Uint8Array(39))).toThrow('Ratchet message too short: 39 bytes');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  encodeEnvelope,
+  decodeEnvelope,
+  envelopeToBase64Url,
+  envelopeFromBase64Url,
+  envelopeToJson,
+  envelopeFromJson,
+  ENVELOPE_ALG_AES_256_GCM
+} from '../Envelope';
+import { EncodingError } from '../errors';
+import { KeyExchange } from '../KeyExchange';
+import { RecordLayer } from '../RecordLayer';
+import { byteArrayToString, EncryptionResult } from '../helpers';
+
+const message: EncryptionResult = {
+  ciphertext: new Uint8Array(20).fill(1),
+  nonce: new Uint8Array(12).fill(2),
+  additionalData: new TextEncoder().encode('route=42'),
+  epoch: 7,
+};
+
+// Deterministic PRNG so fuzz failures are reproducible
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 0x100000000;
+  };
+}
+
+const KNOWN_ERRORS = /^(Envelope too short|Invalid envelope magic|Unsupported envelope version: \d+|Unknown envelope algorithm: \d+|Envelope AAD length exceeds data|Envelope ciphertext too short)$/;
+
+describe('Envelope', () => {
+  it('should round-trip binary envelopes', () => {
+    const encoded = encodeEnvelope(message);
+
+    expect(encoded[0]).toBe(0xe1);
+    expect(encoded[1]).toBe(ENVELOPE_ALG_AES_256_GCM);
+    expect(encoded).toHaveLength(6 + 12 + 4 + 8 + 20);
+    expect(decodeEnvelope(encoded)).toEqual({ ...message, algorithm: ENVELOPE_ALG_AES_256_GCM });
+  });
+
+  it('should default the epoch and omit empty AAD', () => {
+    const decoded = decodeEnvelope(encodeEnvelope({ ciphertext: message.ciphertext, nonce: message.nonce }));
+
+    expect(decoded.epoch).toBe(0);
+    expect(decoded.additionalData).toBeUndefined();
+  });
+
+  it('should round-trip base64url and JSON forms', () => {
+    const base64Url = envelopeToBase64Url(message);
+    expect(base64Url).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(envelopeFromBase64Url(base64Url)).toEqual(decodeEnvelope(encodeEnvelope(message)));
+
+    const json = envelopeToJson(message);
+    expect(JSON.parse(json)).toMatchObject({ v: 1, alg: 1, epoch: 7, aad: 'cm91dGU9NDI' });
+    expect(envelopeFromJson(json)).toEqual(decodeEnvelope(encodeEnvelope(message)));
+  });
+
+  it('should carry RecordLayer records end to end', async () => {
+    const client = await KeyExchange.createSession('envelope-server', 'client');
+    const server = await KeyExchange.createSession('envelope-client', 'server');
+    try {
+      const clientPublicKey = await client.generateKeyPair();
+      await client.deriveKeys(await server.generateKeyPair());
+      await server.deriveKeys(clientPublicKey);
+
+      const wire = encodeEnvelope(await new RecordLayer(client).seal('hello', 'header'));
+      const record = decodeEnvelope(wire);
+
+      expect(byteArrayToString(await new RecordLayer(server).open({ ...record, additionalData: record.additionalData! })))
+        .toBe('hello');
+    } finally {
+      KeyExchange.closeSession('envelope-server');
+      KeyExchange.closeSession('envelope-client');
+    }
+  });
+
+  it('should reject malformed headers', () => {
+    const encoded = encodeEnvelope(message);
+
+    expect(() => decodeEnvelope(encoded.slice(0, 5))).toThrow('Envelope too short');
+    expect(() => decodeEnvelope(new Uint8Array([0x11, ...encoded.slice(1)]))).toThrow('Invalid envelope magic');
+    expect(() => decodeEnvelope(new Uint8Array([0xe2, ...encoded.slice(1)]))).toThrow('Unsupported envelope version: 2');
+    expect(() => decodeEnvelope(new Uint8Array([0xe1, 9, ...encoded.slice(2)]))).toThrow('Unknown envelope algorithm: 9');
+  });
+
+  it('should reject inconsistent lengths', () => {
+    const encoded = encodeEnvelope(message);
+
+    const hugeAad = encoded.slice();
+    hugeAad.set([0xff, 0xff, 0xff, 0xff], 18);
+    expect(() => decodeEnvelope(hugeAad)).toThrow('Envelope AAD length exceeds data');
+    expect(() => decodeEnvelope(encoded.slice(0, encoded.length - 5))).toThrow('Envelope ciphertext too short');
+    expect(() => encodeEnvelope({ ...message, nonce: new Uint8Array(8) })).toThrow('Invalid nonce length for algorithm 1: 8');
+    expect(() => encodeEnvelope({ ...message, nonce: new Uint8Array(8) })).toThrow(EncodingError);
+  });
+
+  it('should reject malformed JSON', () => {
+    expect(() => envelopeFromJson('nope')).toThrow(EncodingError);
+    expect(() => envelopeFromJson('nope')).toThrow('Invalid envelope JSON');
+    expect(() => envelopeFromJson('{"v":1,"alg":1,"epoch":-1,"nonce":"","ct":""}')).toThrow('Invalid envelope JSON');
+    expect(() => envelopeFromJson('{"v":2,"alg":1,"epoch":0,"nonce":"","ct":""}')).toThrow('Unsupported envelope version: 2');
+    expect(() => envelopeFromJson('{"v":1,"alg":1,"epoch":0,"nonce":"a+b/","ct":""}')).toThrow('Invalid base64url string');
+  });
+
+  it('should only ever fail with a known error on truncated or mutated input', () => {
+    const next = random(42);
+    const encoded = encodeEnvelope(message);
+
+    // Anything shorter than header + AAD + tag is rejected; a shorter ciphertext is for the AEAD to catch
+    const minimumLength = encoded.length - message.ciphertext.length + 16;
+    for (let length = 0; length < minimumLength; length++) {
+      expect(() => decodeEnvelope(encoded.slice(0, length))).toThrow(KNOWN_ERRORS);
+      expect(() => decodeEnvelope(encoded.slice(0, length))).toThrow(EncodingError);
+    }
+    expect(decodeEnvelope(encoded.slice(0, minimumLength)).ciphertext).toHaveLength(16);
+
+    for (let i = 0; i < 2000; i++) {
+      const mutated = encoded.slice(0, Math.floor(next() * (encoded.length + 1)));
+      for (let flips = Math.floor(next() * 4); flips >= 0 && mutated.length > 0; flips--) {
+        mutated[Math.floor(next() * mutated.length)] = Math.floor(next() * 256);
+      }
+
+      try {
+        const decoded = decodeEnvelope(mutated);
+        // Whatever decodes must account for every byte
+        expect(22 + (decoded.additionalData?.length ?? 0) + decoded.ciphertext.length).toBe(mutated.length);
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(EncodingError);
+        expect(error.message).toMatch(KNOWN_ERRORS);
+      }
+    }
+  });
+});
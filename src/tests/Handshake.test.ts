@@ -0,0 +1,374 @@
+import { KeyExchange } from '../KeyExchange';
+import { Signature } from '../Signature';
+import {
+  Handshake,
+  HANDSHAKE_VERSION,
+  serializeHandshakeMessage,
+  parseHandshakeMessage,
+  handshakeMessageToJson,
+  handshakeMessageFromJson,
+  decodeHandshakeMessage,
+  HandshakeEncoding,
+  HandshakeMessage
+} from '../Handshake';
+import {
+  CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM,
+  CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305
+} from '../CipherSuite';
+import { EncodingError, InvalidStateError } from '../errors';
+import { byteArrayToBase64, byteArrayToString, base64StringToByteArr } from '../helpers';
+
+const clientHello: HandshakeMessage = {
+  type: 'client_hello',
+  version: HANDSHAKE_VERSION,
+  publicKey: new Uint8Array(32).fill(7),
+};
+
+describe('Handshake message encoding', () => {
+  it('should round-trip binary messages', () => {
+    const frame = serializeHandshakeMessage(clientHello);
+
+    expect(frame).toHaveLength(36);
+    expect(frame[0]).toBe(HANDSHAKE_VERSION);
+    expect(parseHandshakeMessage(frame)).toEqual(clientHello);
+  });
+
+  it('should round-trip JSON messages', () => {
+    const json = handshakeMessageToJson({ ...clientHello, type: 'server_hello' });
+
+    expect(JSON.parse(json).type).toBe('server_hello');
+    expect(handshakeMessageFromJson(json)).toEqual({ ...clientHello, type: 'server_hello' });
+  });
+
+  it('should pick the parser from the frame type', () => {
+    expect(decodeHandshakeMessage(serializeHandshakeMessage(clientHello))).toEqual(clientHello);
+    expect(decodeHandshakeMessage(handshakeMessageToJson(clientHello))).toEqual(clientHello);
+  });
+
+  it('should reject truncated or padded frames', () => {
+    const frame = serializeHandshakeMessage(clientHello);
+
+    expect(() => parseHandshakeMessage(frame.slice(0, 3))).toThrow('Handshake message too short');
+    expect(() => parseHandshakeMessage(frame.slice(0, 3))).toThrow(EncodingError);
+    expect(() => parseHandshakeMessage(frame.slice(0, 20))).toThrow('Handshake message length mismatch');
+    expect(() => parseHandshakeMessage(new Uint8Array([...frame, 0]))).toThrow('Handshake message length mismatch');
+    expect(() => parseHandshakeMessage(new Uint8Array([...frame, 0]))).toThrow(EncodingError);
+  });
+
+  it('should reject unknown versions and types', () => {
+    const frame = serializeHandshakeMessage(clientHello);
+
+    const badVersion = frame.slice();
+    badVersion[0] = 99;
+    expect(() => parseHandshakeMessage(badVersion)).toThrow('Unsupported handshake version: 99');
+    expect(() => parseHandshakeMessage(badVersion)).toThrow(EncodingError);
+
+    const badType = frame.slice();
+    badType[1] = 42;
+    expect(() => parseHandshakeMessage(badType)).toThrow('Unknown handshake message type: 42');
+    expect(() => parseHandshakeMessage(badType)).toThrow(EncodingError);
+
+    expect(() => handshakeMessageFromJson('{"v":1,"type":"toString","publicKey":""}'))
+      .toThrow('Unknown handshake message type: toString');
+  });
+
+  it('should round-trip signed messages', () => {
+    const signed = { ...clientHello, signature: new Uint8Array(64).fill(3) };
+
+    expect(serializeHandshakeMessage(signed)).toHaveLength(36 + 2 + 64);
+    expect(parseHandshakeMessage(serializeHandshakeMessage(signed))).toEqual(signed);
+    expect(handshakeMessageFromJson(handshakeMessageToJson(signed))).toEqual(signed);
+  });
+
+  it('should reject a truncated signature', () => {
+    const frame = serializeHandshakeMessage({ ...clientHello, signature: new Uint8Array(64) });
+
+    expect(() => parseHandshakeMessage(frame.slice(0, 37))).toThrow('expected 38 bytes, got 37');
+    expect(() => parseHandshakeMessage(frame.slice(0, 90))).toThrow('expected 102 bytes, got 90');
+  });
+
+  it('should reject malformed JSON', () => {
+    expect(() => handshakeMessageFromJson('not json')).toThrow('Invalid handshake JSON');
+    expect(() => handshakeMessageFromJson('not json')).toThrow(EncodingError);
+    expect(() => handshakeMessageFromJson('{"type":"client_hello"}')).toThrow('Invalid handshake JSON');
+  });
+
+  it('should round-trip cipher suite lists', () => {
+    const offer = { ...clientHello, cipherSuites: [2, 1, 0x7777], signature: new Uint8Array(64).fill(3) };
+    const frame = serializeHandshakeMessage(offer);
+
+    expect(frame).toHaveLength(36 + 1 + 6 + 2 + 64);
+    expect(frame[1]).toBe(0x81);
+    expect(parseHandshakeMessage(frame)).toEqual(offer);
+    expect(handshakeMessageFromJson(handshakeMessageToJson(offer))).toEqual(offer);
+    expect(() => parseHandshakeMessage(frame.slice(0, 40))).toThrow('expected 43 bytes, got 40');
+    expect(() => serializeHandshakeMessage({ ...clientHello, cipherSuites: [] })).toThrow('Cipher suite list must have 1 to 255 entries');
+    expect(() => serializeHandshakeMessage({ ...clientHello, cipherSuites: [0x10000] })).toThrow(EncodingError);
+  });
+
+  it('should reject public keys of the wrong length', () => {
+    const frame = serializeHandshakeMessage({ ...clientHello, publicKey: new Uint8Array(16) });
+
+    expect(() => parseHandshakeMessage(frame)).toThrow('Invalid X25519 public key length: 16');
+    expect(() => parseHandshakeMessage(frame)).toThrow(EncodingError);
+  });
+});
+
+describe('Handshake state machine', () => {
+  let peerCounter = 0;
+  let client: KeyExchange;
+  let server: KeyExchange;
+
+  beforeEach(async () => {
+    peerCounter++;
+    client = await KeyExchange.createSession(`server-${peerCounter}`, 'client');
+    server = await KeyExchange.createSession(`client-${peerCounter}`, 'server');
+  });
+
+  afterEach(() => {
+    KeyExchange.closeSession(`server-${peerCounter}`);
+    KeyExchange.closeSession(`client-${peerCounter}`);
+  });
+
+  it.each<HandshakeEncoding>(['binary', 'json'])('should complete a key exchange with %s frames', async (encoding) => {
+    const clientHandshake = new Handshake(client, { encoding });
+    const serverHandshake = new Handshake(server, { encoding });
+
+    const hello = await clientHandshake.start();
+    expect(clientHandshake.state).toBe('awaiting_server_hello');
+    expect(typeof hello === 'string').toBe(encoding === 'json');
+
+    const response = await serverHandshake.receive(hello);
+    expect(serverHandshake.isComplete()).toBe(true);
+
+    expect(await clientHandshake.receive(response!)).toBeNull();
+    expect(clientHandshake.isComplete()).toBe(true);
+
+    const { ciphertext, nonce } = await client.encrypt('hello server');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce))).toBe('hello server');
+  });
+
+  it('should only let the client start', async () => {
+    const serverHandshake = new Handshake(server);
+
+    await expect(serverHandshake.start()).rejects.toThrow('Only the client can start the handshake');
+    await expect(serverHandshake.start()).rejects.toThrow(InvalidStateError);
+  });
+
+  it('should not start twice', async () => {
+    const clientHandshake = new Handshake(client);
+    await clientHandshake.start();
+
+    await expect(clientHandshake.start()).rejects.toThrow('Cannot start handshake in state: awaiting_server_hello');
+    await expect(clientHandshake.start()).rejects.toThrow(InvalidStateError);
+  });
+
+  it('should fail on a message out of order', async () => {
+    const clientHandshake = new Handshake(client);
+    const serverHandshake = new Handshake(server);
+
+    const hello = await clientHandshake.start();
+    await expect(clientHandshake.receive(hello)).rejects.toThrow('Unexpected client_hello in state: awaiting_server_hello');
+    expect(clientHandshake.state).toBe('failed');
+
+    await serverHandshake.receive(hello);
+    await expect(serverHandshake.receive(hello)).rejects.toThrow('Unexpected client_hello in state: complete');
+    await expect(serverHandshake.receive(hello)).rejects.toThrow(InvalidStateError);
+  });
+});
+
+describe('Authenticated handshake', () => {
+  let peerCounter = 0;
+  let client: KeyExchange;
+  let server: KeyExchange;
+  let clientIdentity: Signature;
+  let serverIdentity: Signature;
+  let mallory: Signature;
+
+  async function newIdentity(): Promise<Signature> {
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    return Signature.getInstance();
+  }
+
+  beforeAll(async () => {
+    clientIdentity = await newIdentity();
+    serverIdentity = await newIdentity();
+    mallory = await newIdentity();
+  });
+
+  beforeEach(async () => {
+    peerCounter++;
+    client = await KeyExchange.createSession(`auth-server-${peerCounter}`, 'client');
+    server = await KeyExchange.createSession(`auth-client-${peerCounter}`, 'server');
+  });
+
+  afterEach(() => {
+    KeyExchange.closeSession(`auth-server-${peerCounter}`);
+    KeyExchange.closeSession(`auth-client-${peerCounter}`);
+  });
+
+  it('should complete when both sides present pinned identities', async () => {
+    const clientHandshake = new Handshake(client, {
+      signature: clientIdentity,
+      peerIdentityKey: await serverIdentity.getPublicKey(),
+    });
+    const serverHandshake = new Handshake(server, {
+      signature: serverIdentity,
+      peerIdentityKey: base64StringToByteArr(await clientIdentity.getPublicKey()),
+    });
+
+    const response = await serverHandshake.receive(await clientHandshake.start());
+    await clientHandshake.receive(response!);
+
+    expect(clientHandshake.isComplete()).toBe(true);
+    const { ciphertext, nonce } = await server.encrypt('authenticated');
+    expect(byteArrayToString(await client.decrypt(ciphertext, nonce))).toBe('authenticated');
+  });
+
+  it('should support server-only authentication', async () => {
+    const clientHandshake = new Handshake(client, { peerIdentityKey: await serverIdentity.getPublicKey() });
+    const serverHandshake = new Handshake(server, { signature: serverIdentity, encoding: 'json' });
+
+    const response = await serverHandshake.receive(await clientHandshake.start());
+    await clientHandshake.receive(response!);
+
+    expect(clientHandshake.isComplete()).toBe(true);
+  });
+
+  it('should reject a ServerHello signed by an unpinned key', async () => {
+    const clientHandshake = new Handshake(client, { peerIdentityKey: await serverIdentity.getPublicKey() });
+    const serverHandshake = new Handshake(server, { signature: mallory });
+
+    const response = await serverHandshake.receive(await clientHandshake.start());
+
+    await expect(clientHandshake.receive(response!)).rejects.toThrow('Invalid signature on server_hello');
+    expect(clientHandshake.state).toBe('failed');
+    await expect(client.encrypt('x')).rejects.toThrow('No encryption key available');
+  });
+
+  it('should reject an unsigned hello when a peer key is pinned', async () => {
+    const clientHandshake = new Handshake(client);
+    const serverHandshake = new Handshake(server, { peerIdentityKey: await clientIdentity.getPublicKey() });
+
+    await expect(serverHandshake.receive(await clientHandshake.start()))
+      .rejects.toThrow('Missing signature on client_hello');
+    await expect(server.encrypt('x')).rejects.toThrow('No encryption key available');
+  });
+
+  it('should reject a substituted ephemeral key', async () => {
+    const clientHandshake = new Handshake(client, { signature: clientIdentity });
+    const serverHandshake = new Handshake(server, { peerIdentityKey: await clientIdentity.getPublicKey() });
+
+    const hello = parseHandshakeMessage((await clientHandshake.start()) as Uint8Array);
+    const tampered = serializeHandshakeMessage({ ...hello, publicKey: new Uint8Array(32).fill(9) });
+
+    await expect(serverHandshake.receive(tampered)).rejects.toThrow('Invalid signature on client_hello');
+  });
+
+  it('should bind the ServerHello to the ClientHello', async () => {
+    const pinned = { peerIdentityKey: await serverIdentity.getPublicKey() };
+    const firstClient = new Handshake(client, pinned);
+    const otherClient = new Handshake(await KeyExchange.createSession(`auth-other-${peerCounter}`, 'client'), pinned);
+    const serverHandshake = new Handshake(server, { signature: serverIdentity });
+
+    await firstClient.start();
+    const response = await serverHandshake.receive(await otherClient.start());
+
+    await expect(firstClient.receive(response!)).rejects.toThrow('Invalid signature on server_hello');
+    KeyExchange.closeSession(`auth-other-${peerCounter}`);
+  });
+});
+
+describe('Cipher suite negotiation', () => {
+  let peerCounter = 0;
+  let client: KeyExchange;
+  let server: KeyExchange;
+
+  beforeEach(async () => {
+    peerCounter++;
+    client = await KeyExchange.createSession(`suite-server-${peerCounter}`, 'client');
+    server = await KeyExchange.createSession(`suite-client-${peerCounter}`, 'server');
+  });
+
+  afterEach(() => {
+    KeyExchange.closeSession(`suite-server-${peerCounter}`);
+    KeyExchange.closeSession(`suite-client-${peerCounter}`);
+  });
+
+  async function run(clientHandshake: Handshake, serverHandshake: Handshake): Promise<void> {
+    const response = await serverHandshake.receive(await clientHandshake.start());
+    await clientHandshake.receive(response!);
+  }
+
+  it('should advertise our suites and settle on the server preference', async () => {
+    const clientHandshake = new Handshake(client, {
+      cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305, CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM],
+    });
+    const serverHandshake = new Handshake(server);
+
+    const hello = parseHandshakeMessage((await clientHandshake.start()) as Uint8Array);
+    expect(hello.cipherSuites).toEqual([CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305, CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM]);
+
+    const response = parseHandshakeMessage((await serverHandshake.receive(serializeHandshakeMessage(hello))) as Uint8Array);
+    expect(response.cipherSuites).toEqual([CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM]);
+
+    await clientHandshake.receive(serializeHandshakeMessage(response));
+    expect(clientHandshake.cipherSuite?.id).toBe(CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM);
+    expect(serverHandshake.cipherSuite?.id).toBe(CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM);
+  });
+
+  it.each<HandshakeEncoding>(['binary', 'json'])('should use ChaCha20-Poly1305 when the server prefers it (%s)', async (encoding) => {
+    const clientHandshake = new Handshake(client, { encoding });
+    const serverHandshake = new Handshake(server, { encoding, cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305] });
+
+    await run(clientHandshake, serverHandshake);
+
+    expect(client.cipherSuite.aead).toBe('ChaCha20-Poly1305');
+    expect(server.cipherSuite.aead).toBe('ChaCha20-Poly1305');
+    const { ciphertext, nonce } = await client.encrypt('chacha');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce))).toBe('chacha');
+  });
+
+  it('should answer a ClientHello without suites with the default suite and no list', async () => {
+    const serverHandshake = new Handshake(server);
+    const legacyHello = serializeHandshakeMessage({
+      type: 'client_hello',
+      version: HANDSHAKE_VERSION,
+      publicKey: base64StringToByteArr(await client.generateKeyPair()),
+    });
+
+    const response = await serverHandshake.receive(legacyHello) as Uint8Array;
+
+    expect(response).toHaveLength(36);
+    expect(parseHandshakeMessage(response).cipherSuites).toBeUndefined();
+    await client.deriveKeys(byteArrayToBase64(parseHandshakeMessage(response).publicKey));
+    const { ciphertext, nonce } = await client.encrypt('legacy');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce))).toBe('legacy');
+  });
+
+  it('should fail without a suite in common', async () => {
+    const clientHandshake = new Handshake(client, { cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305] });
+    const serverHandshake = new Handshake(server, { cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM] });
+
+    await expect(serverHandshake.receive(await clientHandshake.start())).rejects.toThrow('No cipher suite in common');
+    expect(serverHandshake.state).toBe('failed');
+  });
+
+  it('should reject a ServerHello selecting a suite we did not offer', async () => {
+    const clientHandshake = new Handshake(client, { cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA256_AES_256_GCM] });
+    const serverHandshake = new Handshake(server);
+
+    const response = parseHandshakeMessage((await serverHandshake.receive(await clientHandshake.start())) as Uint8Array);
+    const tampered = serializeHandshakeMessage({ ...response, cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305] });
+
+    const error = await clientHandshake.receive(tampered).catch(caught => caught);
+    expect(error).toBeInstanceOf(EncodingError);
+    expect(error.message).toBe('Server selected a cipher suite we did not offer: 2');
+    expect(clientHandshake.state).toBe('failed');
+  });
+
+  it('should refuse to offer suites it cannot use', () => {
+    expect(() => new Handshake(client, { cipherSuites: [0x0003] })).toThrow('Unsupported cipher suite: 0x0003');
+  });
+});
@@ -0,0 +1,187 @@
+import { Hpke, HPKE_AEAD_AES_128_GCM, HPKE_AEAD_EXPORT_ONLY } from '../Hpke';
+import { AuthenticationFailedError, InvalidKeyError } from '../errors';
+import { byteArrayToString } from '../helpers';
+import { CryptoKeyPair } from '../types';
+
+const hex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+async function rawPublicKey(keyPair: CryptoKeyPair): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey as any));
+}
+
+// RFC 9180 appendix A.1.1: DHKEM(X25519, HKDF-SHA256), HKDF-SHA256, AES-128-GCM, Base mode
+const vector = {
+  info: hex('4f6465206f6e2061204772656369616e2055726e'),
+  ikmE: hex('7268600d403fce431561aef583ee1613527cff655c1343f29812e66706df3234'),
+  ikmR: hex('6db9df30aa07dd42ee5e8181afdb977e538f5e1fec8a06223f33f7013e525037'),
+  skEm: '52c4a758a802cd8b936eceea314432798d5baf2d7e9235dc084ab1b9cfa2f736',
+  skRm: '4612c550263fc8ad58375df3f557aac531d26850903e55a9f23f21d8534e8ac8',
+  enc: '37fda3567bdbd628e88668c3c8d7e97d1d1253b6d4ea6d44c150f741f1bf4431',
+  plaintext: hex('4265617574792069732074727574682c20747275746820626561757479'),
+  aad: hex('436f756e742d30'),
+  ciphertext: 'f938558b5d72f1a23810b4be2ab4f84331acc02fc97babc53a52ae8218a355a96d8770ac83d07bea87e13c512a',
+  exports: [
+    ['', '3853fe2b4035195a573ffc53856e77058e15d9ea064de3e59f4961d0095250ee'],
+    ['00', '2e8f0b54673c7029649d4eb9d5e33bf1872cf76d623ff164ac185da9e88c21a5'],
+    ['54657374436f6e74657874', 'e9e43065102c3836401bed8c3c3c75ae46be1639869391d62c61f1ec7af54931'],
+  ],
+};
+
+// RFC 9180 appendix A.1.3: same suite, Auth mode
+const authVector = {
+  ikmE: hex('6e6d8f200ea2fb20c30b003a8b4f433d2f4ed4c2658d5bc8ce2fef718059c9f7'),
+  ikmR: hex('f1d4a30a4cef8d6d4e3b016e6fd3799ea057db4f345472ed302a67ce1c20cdec'),
+  ikmS: hex('94b020ce91d73fca4649006c7e7329a67b40c55e9e93cc907d282bbbff386f58'),
+  enc: '23fb952571a14a25e3d678140cd0e5eb47a0961bb18afcf85896e5453c312e76',
+  ciphertext: '5fd92cc9d46dbf8943e72a07e42f363ed5f721212cd90bcfd072bfd9f44e06b80fd17824947496e21b680c141b',
+};
+
+describe('HPKE RFC 9180 test vectors', () => {
+  it('should derive the test key pairs', async () => {
+    const ephemeral = await Hpke.deriveKeyPair(vector.ikmE, true);
+    const recipient = await Hpke.deriveKeyPair(vector.ikmR, true);
+
+    const pkcs8 = async (keyPair: CryptoKeyPair) =>
+      toHex(new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey as any)).slice(16));
+
+    expect(await pkcs8(ephemeral)).toBe(vector.skEm);
+    expect(await pkcs8(recipient)).toBe(vector.skRm);
+    expect(toHex(await rawPublicKey(ephemeral))).toBe(vector.enc);
+  });
+
+  it('should reproduce the Base mode encryption and exports', async () => {
+    const recipient = await Hpke.deriveKeyPair(vector.ikmR);
+    const { enc, context } = await Hpke.setupSender(await rawPublicKey(recipient), {
+      info: vector.info,
+      aead: HPKE_AEAD_AES_128_GCM,
+      ephemeralKeyPair: await Hpke.deriveKeyPair(vector.ikmE),
+    });
+
+    expect(toHex(enc)).toBe(vector.enc);
+    expect(toHex(await context.seal(vector.plaintext, vector.aad))).toBe(vector.ciphertext);
+
+    const receiver = await Hpke.setupRecipient(enc, recipient, { info: vector.info, aead: HPKE_AEAD_AES_128_GCM });
+    expect(await receiver.open(hex(vector.ciphertext), vector.aad)).toEqual(vector.plaintext);
+
+    for (const [exporterContext, expected] of vector.exports) {
+      expect(toHex(await context.export(hex(exporterContext!), 32))).toBe(expected);
+      expect(toHex(await receiver.export(hex(exporterContext!), 32))).toBe(expected);
+    }
+  });
+
+  it('should reproduce the Auth mode encryption', async () => {
+    const recipient = await Hpke.deriveKeyPair(authVector.ikmR);
+    const sender = await Hpke.deriveKeyPair(authVector.ikmS);
+    const { enc, context } = await Hpke.setupSender(await rawPublicKey(recipient), {
+      info: vector.info,
+      aead: HPKE_AEAD_AES_128_GCM,
+      senderKeyPair: sender,
+      ephemeralKeyPair: await Hpke.deriveKeyPair(authVector.ikmE),
+    });
+
+    expect(toHex(enc)).toBe(authVector.enc);
+    expect(toHex(await context.seal(vector.plaintext, vector.aad))).toBe(authVector.ciphertext);
+
+    const receiver = await Hpke.setupRecipient(enc, recipient, {
+      info: vector.info,
+      aead: HPKE_AEAD_AES_128_GCM,
+      senderPublicKey: await rawPublicKey(sender),
+    });
+    expect(await receiver.open(hex(authVector.ciphertext), vector.aad)).toEqual(vector.plaintext);
+  });
+});
+
+describe('Hpke', () => {
+  let recipient: CryptoKeyPair;
+  let recipientPublicKey: Uint8Array;
+
+  beforeAll(async () => {
+    recipient = await Hpke.generateKeyPair();
+    recipientPublicKey = await rawPublicKey(recipient);
+  });
+
+  it('should round-trip single-shot messages with AES-256-GCM', async () => {
+    const aad = new TextEncoder().encode('header');
+    const sealed = await Hpke.seal(recipientPublicKey, 'hello', aad);
+
+    expect(sealed.ciphertext).toHaveLength(5 + 16);
+    expect(byteArrayToString(await Hpke.open(sealed, recipient, aad))).toBe('hello');
+    await expect(Hpke.open(sealed, recipient)).rejects.toThrow(AuthenticationFailedError);
+    await expect(Hpke.open(sealed, recipient)).rejects.toThrow('HPKE decryption failed');
+  });
+
+  it('should open a stream of messages in order', async () => {
+    const { enc, context } = await Hpke.setupSender(recipientPublicKey);
+    const receiver = await Hpke.setupRecipient(enc, recipient);
+
+    const first = await context.seal('one');
+    const second = await context.seal('two');
+
+    await expect(receiver.open(second)).rejects.toThrow('HPKE decryption failed');
+    expect(receiver.sequenceNumber).toBe(0);
+    expect(byteArrayToString(await receiver.open(first))).toBe('one');
+    expect(byteArrayToString(await receiver.open(second))).toBe('two');
+  });
+
+  it('should give overlapping seal() and open() calls their own sequence numbers', async () => {
+    const { enc, context } = await Hpke.setupSender(recipientPublicKey);
+    const receiver = await Hpke.setupRecipient(enc, recipient);
+
+    const [first, second] = await Promise.all([context.seal('one'), context.seal('two')]);
+    expect(byteArrayToString(await receiver.open(first!))).toBe('one');
+    expect(byteArrayToString(await receiver.open(second!))).toBe('two'); // fails if both used nonce 0
+
+    const third = await context.seal('three');
+    const fourth = await context.seal('four');
+    const opened = await Promise.all([receiver.open(third), receiver.open(fourth)]);
+    expect(opened.map(byteArrayToString)).toEqual(['three', 'four']);
+    expect(receiver.sequenceNumber).toBe(4);
+  });
+
+  it('should bind the info string', async () => {
+    const info = new TextEncoder().encode('app v1');
+    const sealed = await Hpke.seal(recipientPublicKey, 'hello', undefined, { info });
+
+    await expect(Hpke.open(sealed, recipient, undefined, { info: new TextEncoder().encode('app v2') }))
+      .rejects.toThrow('HPKE decryption failed');
+  });
+
+  it('should authenticate the sender in Auth mode', async () => {
+    const sender = await Hpke.generateKeyPair();
+    const impostor = await Hpke.generateKeyPair();
+    const sealed = await Hpke.seal(recipientPublicKey, 'from sender', undefined, { senderKeyPair: sender });
+
+    const opened = await Hpke.open(sealed, recipient, undefined, { senderPublicKey: await rawPublicKey(sender) });
+    expect(byteArrayToString(opened)).toBe('from sender');
+
+    await expect(Hpke.open(sealed, recipient, undefined, { senderPublicKey: await rawPublicKey(impostor) }))
+      .rejects.toThrow('HPKE decryption failed');
+    await expect(Hpke.open(sealed, recipient)).rejects.toThrow('HPKE decryption failed');
+  });
+
+  it('should support export-only contexts', async () => {
+    const { enc, context } = await Hpke.setupSender(recipientPublicKey, { aead: HPKE_AEAD_EXPORT_ONLY });
+    const receiver = await Hpke.setupRecipient(enc, recipient, { aead: HPKE_AEAD_EXPORT_ONLY });
+    const label = new TextEncoder().encode('session key');
+
+    expect(await context.export(label, 48)).toEqual(await receiver.export(label, 48));
+    await expect(context.seal('x')).rejects.toThrow('Export-only HPKE context cannot encrypt');
+  });
+
+  it('should enforce context roles and input lengths', async () => {
+    const { enc, context } = await Hpke.setupSender(recipientPublicKey);
+    const receiver = await Hpke.setupRecipient(enc, recipient);
+
+    await expect(context.open(new Uint8Array(16))).rejects.toThrow('Only a recipient context can open');
+    await expect(receiver.seal('x')).rejects.toThrow('Only a sender context can seal');
+    await expect(context.export(new Uint8Array(0), 255 * 32 + 1)).rejects.toThrow('Invalid export length: 8161');
+    await expect(Hpke.setupSender(new Uint8Array(31))).rejects.toThrow(InvalidKeyError);
+    await expect(Hpke.setupSender(new Uint8Array(31))).rejects.toThrow('Invalid X25519 public key length: 31');
+    await expect(Hpke.setupSender(new Uint8Array(32))).rejects.toThrow(InvalidKeyError);
+    await expect(Hpke.setupRecipient(new Uint8Array(32), recipient)).rejects.toThrow(InvalidKeyError);
+    await expect(Hpke.open({ enc, ciphertext: new Uint8Array(16) }, recipient, undefined, { senderPublicKey: new Uint8Array(32) }))
+      .rejects.toThrow(InvalidKeyError);
+    await expect(Hpke.deriveKeyPair(new Uint8Array(16))).rejects.toThrow('at least 32 bytes');
+  });
+});
@@ -1,4 +1,5 @@
 import { KeyExchange } from '../KeyExchange';
+import { base64StringToByteArr, byteArrayToString } from '../helpers';
 
 // Simple mock setup
 const mockSubtle = {
@@ -84,6 +85,36 @@ describe('KeyExchange Basic Tests', () => {
       expect(result.ciphertext).toBeInstanceOf(Uint8Array);
     });
 
+    it('should pass additional data to AES-GCM and return it', async () => {
+      const result = await keyExchange.encrypt('hello world', 'v1|route-7');
+      const aad = new TextEncoder().encode('v1|route-7');
+
+      expect(mockSubtle.encrypt).toHaveBeenCalledWith(
+        { name: 'AES-GCM', iv: result.nonce, additionalData: aad },
+        expect.anything(),
+        expect.any(Uint8Array)
+      );
+      expect(result.additionalData).toEqual(aad);
+    });
+
+    it('should omit additional data when none is given', async () => {
+      const result = await keyExchange.encrypt('hello world');
+
+      expect(mockSubtle.encrypt.mock.calls[0][0]).not.toHaveProperty('additionalData');
+      expect(result).not.toHaveProperty('additionalData');
+    });
+
+    it('should decrypt ciphertext with additional data', async () => {
+      const aad = new Uint8Array([1, 2, 3]);
+      await keyExchange.decrypt(new Uint8Array(32), new Uint8Array(12), aad);
+
+      expect(mockSubtle.decrypt).toHaveBeenCalledWith(
+        { name: 'AES-GCM', iv: new Uint8Array(12), additionalData: aad },
+        expect.anything(),
+        new Uint8Array(32)
+      );
+    });
+
     it('should decrypt ciphertext', async () => {
       const { ciphertext, nonce } = await keyExchange.encrypt('test message');
       const decrypted = await keyExchange.decrypt(ciphertext, nonce);
@@ -129,6 +160,162 @@ describe('KeyExchange Basic Tests', () => {
   });
 });
 
+describe('KeyExchange Sessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (KeyExchange as any).sessions.clear();
+
+    mockSubtle.generateKey.mockResolvedValue(mockClientKeyPair);
+    mockSubtle.deriveBits.mockResolvedValue(new ArrayBuffer(32));
+    mockSubtle.exportKey.mockResolvedValue(new Uint8Array(32).buffer);
+    mockSubtle.importKey.mockResolvedValue({});
+    mockSubtle.encrypt.mockResolvedValue(new ArrayBuffer(64));
+  });
+
+  it('should create a separate session per peer', async () => {
+    const alice = await KeyExchange.createSession('alice');
+    const bob = await KeyExchange.createSession('bob');
+
+    expect(alice).not.toBe(bob);
+    expect(alice.peerId).toBe('alice');
+    expect(KeyExchange.getSession('bob')).toBe(bob);
+    expect(KeyExchange.listSessions()).toEqual(['alice', 'bob']);
+  });
+
+  it('should keep keys isolated between sessions', async () => {
+    const alice = await KeyExchange.createSession('alice');
+    const bob = await KeyExchange.createSession('bob');
+
+    await alice.generateKey(mockServerPublicKey as any);
+
+    await expect(alice.encrypt('hi')).resolves.toBeDefined();
+    await expect(bob.encrypt('hi')).rejects.toThrow('No encryption key available');
+  });
+
+  it('should not replace the singleton', async () => {
+    const session = await KeyExchange.createSession('alice');
+    const instance = await KeyExchange.getInstance();
+
+    expect(session).not.toBe(instance);
+    expect(instance.peerId).toBeNull();
+  });
+
+  it('should reject duplicate peer ids', async () => {
+    await KeyExchange.createSession('alice');
+
+    await expect(KeyExchange.createSession('alice'))
+      .rejects.toThrow('Session already exists for peer: alice');
+  });
+
+  it('should reject concurrent creation of the same peer id', async () => {
+    const [first, second] = await Promise.allSettled([
+      KeyExchange.createSession('alice'),
+      KeyExchange.createSession('alice'),
+    ]);
+
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: { code: 'INVALID_STATE' } });
+    expect(KeyExchange.getSession('alice')).toBe((first as PromiseFulfilledResult<KeyExchange>).value);
+  });
+
+  it('should destroy keys when a session is closed', async () => {
+    const alice = await KeyExchange.createSession('alice');
+    await alice.generateKey(mockServerPublicKey as any);
+
+    expect(KeyExchange.closeSession('alice')).toBe(true);
+    expect(KeyExchange.getSession('alice')).toBeUndefined();
+    expect(KeyExchange.closeSession('alice')).toBe(false);
+    await expect(alice.encrypt('hi')).rejects.toThrow('No encryption key available');
+  });
+});
+
+describe('KeyExchange Roles', () => {
+  const { webcrypto } = require('crypto');
+
+  beforeAll(() => {
+    (global as any).crypto = webcrypto;
+  });
+
+  afterAll(() => {
+    (global as any).crypto = { subtle: mockSubtle };
+  });
+
+  beforeEach(() => {
+    (KeyExchange as any).sessions.clear();
+  });
+
+  it('should derive mirrored keys for client and server', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const serverPublicKey = await server.generateKeyPair();
+
+    const client = await KeyExchange.createSession('server', 'client');
+    const serverCryptoKey = await webcrypto.subtle.importKey(
+      'raw', base64StringToByteArr(serverPublicKey), { name: 'X25519' }, false, []
+    );
+    const clientPublicKey = await client.generateKey(serverCryptoKey);
+    await server.deriveKeys(clientPublicKey);
+
+    const request = await client.encrypt('hello server');
+    expect(byteArrayToString(await server.decrypt(request.ciphertext, request.nonce))).toBe('hello server');
+
+    const response = await server.encrypt('hello client');
+    expect(byteArrayToString(await client.decrypt(response.ciphertext, response.nonce))).toBe('hello client');
+  });
+
+  it('should derive keys with deriveKeys() on both ends', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const client = await KeyExchange.createSession('server', 'client');
+
+    const clientPublicKey = await client.generateKeyPair();
+    const serverPublicKey = await server.generateKeyPair();
+    await server.deriveKeys(clientPublicKey);
+    await client.deriveKeys(serverPublicKey);
+
+    const { ciphertext, nonce } = await server.encrypt('hello client');
+    expect(byteArrayToString(await client.decrypt(ciphertext, nonce))).toBe('hello client');
+  });
+
+  it('should not decrypt its own messages', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const client = await KeyExchange.createSession('server', 'client');
+
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+
+    const { ciphertext, nonce } = await client.encrypt('hello server');
+    await expect(client.decrypt(ciphertext, nonce)).rejects.toThrow();
+  });
+
+  it('should authenticate additional data', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const client = await KeyExchange.createSession('server', 'client');
+
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+
+    const { ciphertext, nonce, additionalData } = await client.encrypt('hello server', 'type=chat');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce, additionalData))).toBe('hello server');
+    await expect(server.decrypt(ciphertext, nonce, 'type=admin')).rejects.toThrow();
+    await expect(server.decrypt(ciphertext, nonce)).rejects.toThrow();
+  });
+
+  it('should only allow generateKey() in the client role', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+
+    await expect(server.generateKey({} as any))
+      .rejects.toThrow('generateKey() is only available in the client role');
+  });
+
+  it('should require a key pair before deriveKeys()', async () => {
+    const server = await KeyExchange.createSession('client-1', 'server');
+
+    await expect(server.deriveKeys('AAAA'))
+      .rejects.toThrow('No key pair available');
+  });
+});
+
 describe('KeyExchange Integration', () => {
   it('should complete full encrypt/decrypt workflow', async () => {
     const keyExchange = await KeyExchange.getInstance();
@@ -0,0 +1,148 @@
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InvalidStateError } from '../errors';
+import { FileKeyStore, MemoryKeyStore } from '../KeyStore';
+import { Signature } from '../Signature';
+import { base64UrlToByteArr, byteArrayToBase64Url } from '../helpers';
+
+// Keep PBKDF2 fast in tests
+const iterations = 1000;
+
+// RFC 8032 test 1
+const seed = new Uint8Array(Buffer.from('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60', 'hex'));
+const publicKeyB64 = Buffer.from('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a', 'hex').toString('base64');
+
+async function newSignature(): Promise<Signature> {
+  (Signature as any).instance = null;
+  (Signature as any).initialized = false;
+  return Signature.getInstance();
+}
+
+describe('FileKeyStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'keystore-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete keys', async () => {
+    const store = new FileKeyStore(join(directory, 'keys'));
+
+    expect(await store.get('identity')).toBeNull();
+    await store.set('identity', 'blob');
+    expect(await store.get('identity')).toBe('blob');
+    expect((await stat(join(directory, 'keys', 'identity.key'))).mode & 0o777).toBe(0o600);
+
+    await store.delete('identity');
+    await store.delete('identity');
+    expect(await store.get('identity')).toBeNull();
+  });
+
+  it('should reject key names that escape the directory', async () => {
+    const store = new FileKeyStore(directory);
+
+    await expect(store.set('../identity', 'blob')).rejects.toThrow('Invalid key name: ../identity');
+    await expect(store.get('.hidden')).rejects.toThrow('Invalid key name: .hidden');
+  });
+});
+
+describe('Signature identities', () => {
+  it('should load a raw seed, PKCS#8 and JWK to the same public key', async () => {
+    const signer = await newSignature();
+
+    await signer.loadIdentity('seed', seed);
+    expect(await signer.getPublicKey()).toBe(publicKeyB64);
+
+    const pkcs8 = new Uint8Array(Buffer.from('302e020100300506032b657004220420' + Buffer.from(seed).toString('hex'), 'hex'));
+    await signer.loadIdentity('pkcs8', pkcs8);
+    expect(await signer.getPublicKey()).toBe(publicKeyB64);
+
+    await signer.loadIdentity('jwk', { kty: 'OKP', crv: 'Ed25519', d: byteArrayToBase64Url(seed) });
+    expect(await signer.getPublicKey()).toBe(publicKeyB64);
+  });
+
+  it('should sign with a loaded identity', async () => {
+    const signer = await newSignature();
+    await signer.loadIdentity('seed', seed);
+
+    const signature = await signer.sign('hello');
+    expect(await signer.verifyWithKey(Buffer.from(publicKeyB64, 'base64'), signature, 'hello')).toBe(true);
+  });
+
+  it('should reject malformed keys', async () => {
+    const signer = await newSignature();
+
+    await expect(signer.loadIdentity('seed', new Uint8Array(31))).rejects.toThrow('Ed25519 seed must be 32 bytes');
+    await expect(signer.loadIdentity('pkcs8', new Uint8Array(48))).rejects.toThrow('Invalid Ed25519 PKCS#8 key');
+    await expect(signer.loadIdentity('jwk', { kty: 'EC', crv: 'P-256', d: 'AA' }))
+      .rejects.toThrow('JWK must be an Ed25519 OKP private key');
+  });
+
+  it('should not export a non-extractable identity', async () => {
+    const signer = await newSignature();
+
+    await expect(signer.exportIdentity()).rejects.toThrow('Identity is not exportable');
+    await signer.loadIdentity('seed', seed);
+    await expect(signer.exportIdentity()).rejects.toThrow(InvalidStateError);
+  });
+
+  it('should round-trip a passphrase-wrapped identity', async () => {
+    const signer = await newSignature();
+    await signer.generateIdentity();
+    const publicKey = await signer.getPublicKey();
+    const blob = await signer.exportIdentity('correct horse', iterations);
+
+    expect(blob).not.toContain('pkcs8');
+
+    const restored = await newSignature();
+    await expect(restored.importIdentity(blob)).rejects.toThrow('A passphrase is required');
+    await expect(restored.importIdentity(blob)).rejects.toThrow(InvalidStateError);
+    await expect(restored.importIdentity(blob, 'battery staple')).rejects.toThrow('Wrong passphrase or corrupted data');
+
+    await restored.importIdentity(blob, 'correct horse');
+    expect(await restored.getPublicKey()).toBe(publicKey);
+  });
+
+  it('should reject unknown blob versions', async () => {
+    const signer = await newSignature();
+
+    await expect(signer.importIdentity('{"v":2}')).rejects.toThrow('Unsupported identity blob version: 2');
+    await expect(signer.importIdentity('nope')).rejects.toThrow('Invalid identity blob');
+  });
+
+  it('should keep the same identity across restarts', async () => {
+    const store = new MemoryKeyStore();
+
+    const first = await newSignature();
+    expect(await first.loadOrCreateIdentity(store, { passphrase: 'pw', iterations })).toBe(true);
+    const publicKey = await first.getPublicKey();
+
+    const second = await newSignature();
+    expect(await second.loadOrCreateIdentity(store, { passphrase: 'pw', iterations })).toBe(false);
+    expect(await second.getPublicKey()).toBe(publicKey);
+  });
+});
+
+describe('base64url helpers', () => {
+  it('should round-trip without padding', () => {
+    const bytes = new Uint8Array([251, 255, 191]);
+
+    expect(byteArrayToBase64Url(bytes)).toBe('-_-_');
+    expect(base64UrlToByteArr('-_-_')).toEqual(bytes);
+    expect(base64UrlToByteArr(byteArrayToBase64Url(new Uint8Array([1])))).toEqual(new Uint8Array([1]));
+  });
+
+  it('should reject standard base64 characters', () => {
+    expect(() => base64UrlToByteArr('a+b/')).toThrow('Invalid base64url string');
+  });
+
+  it('should reject lengths that cannot encode whole bytes', () => {
+    expect(() => base64UrlToByteArr('A')).toThrow('Invalid base64url string');
+    expect(() => base64UrlToByteArr('AAAAA')).toThrow('Invalid base64url string');
+  });
+});
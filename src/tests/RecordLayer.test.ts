@@ -0,0 +1,285 @@
+import { KeyExchange } from '../KeyExchange';
+import { RecordLayer } from '../RecordLayer';
+import { AuthenticationFailedError, EncodingError, InvalidArgumentError, InvalidStateError, ReplayError } from '../errors';
+import { byteArrayToString, uint32ToBytes } from '../helpers';
+
+describe('RecordLayer', () => {
+  let peerCounter = 0;
+  let client: KeyExchange;
+  let server: KeyExchange;
+
+  beforeEach(async () => {
+    peerCounter++;
+    client = await KeyExchange.createSession(`server-${peerCounter}`, 'client');
+    server = await KeyExchange.createSession(`client-${peerCounter}`, 'server');
+
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+  });
+
+  afterEach(() => {
+    KeyExchange.closeSession(`server-${peerCounter}`);
+    KeyExchange.closeSession(`client-${peerCounter}`);
+  });
+
+  it('should round-trip records in both directions', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    const request = await clientRecords.seal('ping');
+    expect(byteArrayToString(await serverRecords.open(request))).toBe('ping');
+
+    const response = await serverRecords.seal(new Uint8Array([1, 2, 3]));
+    expect(await clientRecords.open(response)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should number records monotonically per direction', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    for (let i = 0; i < 3; i++) {
+      await serverRecords.open(await clientRecords.seal(`message ${i}`));
+    }
+
+    expect(clientRecords.nextSendSequence).toBe(3n);
+    expect(serverRecords.highestReceivedSequence).toBe(2n);
+    expect(serverRecords.nextSendSequence).toBe(0n);
+  });
+
+  it('should give overlapping seal() calls their own sequence numbers', async () => {
+    const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 2 } });
+    const serverRecords = new RecordLayer(server);
+
+    const records = await Promise.all(['one', 'two', 'three'].map(message => clientRecords.seal(message)));
+
+    expect(records.map(record => record.epoch)).toEqual([0, 0, 1]);
+    expect(clientRecords.nextSendSequence).toBe(3n);
+    const opened = [];
+    for (const record of records) opened.push(byteArrayToString(await serverRecords.open(record)));
+    expect(opened).toEqual(['one', 'two', 'three']);
+  });
+
+  it('should reject a replayed record', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    const record = await clientRecords.seal('transfer 100');
+    await serverRecords.open(record);
+
+    const replay = serverRecords.open(record);
+    await expect(replay).rejects.toThrow(ReplayError);
+    await expect(serverRecords.open(record)).rejects.toMatchObject({ reason: 'duplicate', sequence: 0n });
+  });
+
+  it('should accept reordered records inside the window', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    const records = [];
+    for (let i = 0; i < 4; i++) records.push(await clientRecords.seal(`message ${i}`));
+
+    for (const index of [3, 0, 2, 1]) {
+      expect(byteArrayToString(await serverRecords.open(records[index]!))).toBe(`message ${index}`);
+    }
+    await expect(serverRecords.open(records[2]!)).rejects.toMatchObject({ reason: 'duplicate' });
+  });
+
+  it('should reject records older than the window', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server, { windowSize: 4 });
+
+    const records = [];
+    for (let i = 0; i < 6; i++) records.push(await clientRecords.seal(`message ${i}`));
+
+    await serverRecords.open(records[5]!);
+    await serverRecords.open(records[2]!);
+    await expect(serverRecords.open(records[1]!)).rejects.toMatchObject({ reason: 'outside_window', sequence: 1n });
+  });
+
+  it('should not mark records that fail to decrypt', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    const record = await clientRecords.seal('hello');
+    const tampered = { ...record, ciphertext: record.ciphertext.slice() };
+    tampered.ciphertext[0]! ^= 1;
+
+    await expect(serverRecords.open(tampered)).rejects.toThrow();
+    expect(serverRecords.highestReceivedSequence).toBe(-1n);
+    expect(byteArrayToString(await serverRecords.open(record))).toBe('hello');
+  });
+
+  it('should authenticate additional data with the record', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server);
+
+    const record = await clientRecords.seal('payload', 'route=42');
+    expect(byteArrayToString(record.additionalData!)).toBe('route=42');
+    expect(byteArrayToString(await serverRecords.open(record))).toBe('payload');
+
+    const rerouted = await clientRecords.seal('payload', 'route=42');
+    await expect(serverRecords.open({ ...rerouted, additionalData: new TextEncoder().encode('route=43') }))
+      .rejects.toThrow();
+  });
+
+  it('should resume from exported state', async () => {
+    const clientRecords = new RecordLayer(client);
+    const serverRecords = new RecordLayer(server, { windowSize: 8 });
+
+    const records = [];
+    for (let i = 0; i < 3; i++) records.push(await clientRecords.seal(`message ${i}`));
+    await serverRecords.open(records[2]!);
+    await serverRecords.open(records[0]!);
+
+    const state = JSON.parse(JSON.stringify(serverRecords.exportState()));
+    const resumed = new RecordLayer(server, { windowSize: 8, state });
+
+    expect(resumed.highestReceivedSequence).toBe(2n);
+    await expect(resumed.open(records[0]!)).rejects.toMatchObject({ reason: 'duplicate' });
+    expect(byteArrayToString(await resumed.open(records[1]!))).toBe('message 1');
+  });
+
+  it('should reject an invalid window size', () => {
+    expect(() => new RecordLayer(client, { windowSize: 0 })).toThrow('Window size must be a positive integer');
+    expect(() => new RecordLayer(client, { windowSize: 0 })).toThrow(InvalidArgumentError);
+  });
+
+  it('should reject records too short for a sequence number', async () => {
+    const serverRecords = new RecordLayer(server);
+    const { ciphertext, nonce } = await client.encrypt('abc', uint32ToBytes(0));
+
+    await expect(serverRecords.open({ ciphertext, nonce, epoch: 0 })).rejects.toThrow(EncodingError);
+  });
+
+  it('should refuse to seal once the sequence number space is exhausted', async () => {
+    const state = { ...new RecordLayer(client).exportState(), sendSequence: (2n ** 64n).toString() };
+    const clientRecords = new RecordLayer(client, { state });
+
+    await expect(clientRecords.seal('one too many')).rejects.toThrow(InvalidStateError);
+  });
+
+  describe('rekeying', () => {
+    it('should rekey after maxMessages and let the receiver follow', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 2 } });
+      const serverRecords = new RecordLayer(server);
+
+      const epochs = [];
+      for (let i = 0; i < 5; i++) {
+        const record = await clientRecords.seal(`message ${i}`);
+        epochs.push(record.epoch);
+        expect(byteArrayToString(await serverRecords.open(record))).toBe(`message ${i}`);
+      }
+
+      expect(epochs).toEqual([0, 0, 1, 1, 2]);
+      expect(client.txEpoch).toBe(2);
+      expect(server.rxEpoch).toBe(2);
+      expect(server.txEpoch).toBe(0);
+    });
+
+    it('should rekey before exceeding maxBytes', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxBytes: 10 } });
+
+      expect((await clientRecords.seal('123456')).epoch).toBe(0);
+      expect((await clientRecords.seal('1234')).epoch).toBe(0);
+      expect((await clientRecords.seal('1')).epoch).toBe(1);
+    });
+
+    it('should rekey after maxAgeMs', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      try {
+        const clientRecords = new RecordLayer(client, { rekey: { maxAgeMs: 500 } });
+
+        expect((await clientRecords.seal('a')).epoch).toBe(0);
+        now.mockReturnValue(1_499);
+        expect((await clientRecords.seal('b')).epoch).toBe(0);
+        now.mockReturnValue(1_500);
+        expect((await clientRecords.seal('c')).epoch).toBe(1);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should skip ahead over missed epochs', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 1 } });
+      const serverRecords = new RecordLayer(server);
+
+      for (let i = 0; i < 3; i++) await clientRecords.seal('lost');
+      const record = await clientRecords.seal('delivered');
+
+      expect(record.epoch).toBe(3);
+      expect(byteArrayToString(await serverRecords.open(record))).toBe('delivered');
+      expect(server.rxEpoch).toBe(3);
+    });
+
+    it('should reject records from an expired epoch', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 1 } });
+      const serverRecords = new RecordLayer(server);
+
+      const old = await clientRecords.seal('old');
+      await serverRecords.open(await clientRecords.seal('new'));
+
+      await expect(serverRecords.open(old)).rejects.toThrow('Epoch 0 has expired, current RX epoch is 1');
+    });
+
+    it('should apply overlapping opens across an epoch boundary in call order', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 1 } });
+      const serverRecords = new RecordLayer(server);
+
+      const first = await clientRecords.seal('epoch 0');
+      const second = await clientRecords.seal('epoch 1');
+      const third = await clientRecords.seal('epoch 2');
+
+      const [early, late, stale] = await Promise.allSettled([
+        serverRecords.open(first),
+        serverRecords.open(third),
+        serverRecords.open(second),
+      ]);
+      expect(early.status).toBe('fulfilled');
+      expect(late.status).toBe('fulfilled');
+      expect(stale).toMatchObject({ status: 'rejected', reason: expect.any(AuthenticationFailedError) });
+      expect(server.rxEpoch).toBe(2);
+    });
+
+    it('should not advance the RX epoch on a forged epoch', async () => {
+      const clientRecords = new RecordLayer(client);
+      const serverRecords = new RecordLayer(server);
+
+      const record = await clientRecords.seal('hello');
+      await expect(serverRecords.open({ ...record, epoch: 5 })).rejects.toThrow();
+      expect(server.rxEpoch).toBe(0);
+
+      await expect(serverRecords.open({ ...record, epoch: 100 })).rejects.toThrow('Epoch 100 is too far ahead of RX epoch 0');
+      expect(byteArrayToString(await serverRecords.open(record))).toBe('hello');
+    });
+
+    it('should rekey both directions with a fresh DH step', async () => {
+      const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 10 } });
+      const serverRecords = new RecordLayer(server);
+
+      await clientRecords.seal('before');
+      const clientPublicKey = await client.generateKeyPair();
+      const serverPublicKey = await server.generateKeyPair();
+      await client.rekeyWithDh(serverPublicKey);
+      await server.rekeyWithDh(clientPublicKey);
+
+      const request = await clientRecords.seal('after');
+      expect(request.epoch).toBe(1);
+      expect(byteArrayToString(await serverRecords.open(request))).toBe('after');
+
+      const response = await serverRecords.seal('reply');
+      expect(response.epoch).toBe(1);
+      expect(byteArrayToString(await clientRecords.open(response))).toBe('reply');
+    });
+
+    it('should not interoperate after a one-sided DH step', async () => {
+      const clientRecords = new RecordLayer(client);
+      const serverRecords = new RecordLayer(server);
+
+      await client.generateKeyPair();
+      await client.rekeyWithDh(await server.generateKeyPair());
+
+      await expect(serverRecords.open(await clientRecords.seal('hello'))).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { SealedBox } from '../SealedBox';
+import { AuthenticationFailedError, EncodingError } from '../errors';
+import { byteArrayToBase64, byteArrayToString } from '../helpers';
+import { CryptoKeyPair } from '../types';
+
+describe('SealedBox', () => {
+  let recipient: CryptoKeyPair;
+  let recipientPublicKey: string;
+
+  beforeAll(async () => {
+    recipient = await SealedBox.generateKeyPair();
+    recipientPublicKey = byteArrayToBase64(await crypto.subtle.exportKey('raw', recipient.publicKey as any));
+  });
+
+  it('should round-trip a message', async () => {
+    const sealed = await SealedBox.seal(recipientPublicKey, 'for your eyes only');
+
+    expect(sealed).toHaveLength(2 + 32 + 18 + 16);
+    expect(byteArrayToString(await SealedBox.open(recipient, sealed))).toBe('for your eyes only');
+  });
+
+  it('should use a fresh ephemeral key every time', async () => {
+    const first = await SealedBox.seal(recipientPublicKey, 'same');
+    const second = await SealedBox.seal(recipientPublicKey, 'same');
+
+    expect(first.slice(2, 34)).not.toEqual(second.slice(2, 34));
+    expect(first.slice(34)).not.toEqual(second.slice(34));
+  });
+
+  it('should not open for another recipient', async () => {
+    const sealed = await SealedBox.seal(recipientPublicKey, new Uint8Array([1, 2, 3]));
+
+    await expect(SealedBox.open(await SealedBox.generateKeyPair(), sealed)).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should detect tampering', async () => {
+    const sealed = await SealedBox.seal(recipientPublicKey, 'hello');
+
+    for (const index of [5, sealed.length - 1]) {
+      const tampered = sealed.slice();
+      tampered[index]! ^= 1;
+      await expect(SealedBox.open(recipient, tampered)).rejects.toThrow(AuthenticationFailedError);
+    }
+
+    const smallOrder = sealed.slice();
+    smallOrder.fill(0, 2, 34);
+    await expect(SealedBox.open(recipient, smallOrder)).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should reject malformed boxes', async () => {
+    const sealed = await SealedBox.seal(recipientPublicKey, '');
+
+    await expect(SealedBox.open(recipient, sealed.slice(0, 49))).rejects.toThrow(EncodingError);
+    await expect(SealedBox.open(recipient, sealed.slice(0, 49))).rejects.toThrow('Sealed box too short');
+
+    const badVersion = sealed.slice();
+    badVersion[0] = 2;
+    await expect(SealedBox.open(recipient, badVersion)).rejects.toThrow('Unsupported sealed box version: 2');
+
+    const badSuite = sealed.slice();
+    badSuite[1] = 2;
+    await expect(SealedBox.open(recipient, badSuite)).rejects.toThrow(EncodingError);
+  });
+
+  it('should reject invalid recipient keys', async () => {
+    await expect(SealedBox.seal(new Uint8Array(31), 'x')).rejects.toThrow('Invalid X25519 public key length: 31');
+  });
+});
@@ -0,0 +1,196 @@
+import { CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305 } from '../CipherSuite';
+import { decodeEnvelope, ENVELOPE_ALG_CHACHA20_POLY1305 } from '../Envelope';
+import { AuthenticationFailedError, ReplayError } from '../errors';
+import { KeyExchange } from '../KeyExchange';
+import {
+  createWebSocketLoopback,
+  SecureWebSocket,
+  SecureWebSocketEventMap,
+  SecureWebSocketOptions,
+  WebSocketLike
+} from '../SecureWebSocket';
+import { Signature } from '../Signature';
+
+function nextEvent<K extends keyof SecureWebSocketEventMap>(socket: SecureWebSocket, type: K): Promise<SecureWebSocketEventMap[K]> {
+  return new Promise(resolve => {
+    const listener = (event: SecureWebSocketEventMap[K]) => {
+      socket.off(type, listener);
+      resolve(event);
+    };
+    socket.on(type, listener);
+  });
+}
+
+// Wraps a socket so tests can see and rewrite the frames it sends
+function tap(socket: WebSocketLike, onSend: (frame: Uint8Array) => Uint8Array[]): WebSocketLike {
+  return {
+    get readyState() { return socket.readyState; },
+    send: (data: Uint8Array) => onSend(data).forEach(frame => socket.send(frame)),
+    close: (code, reason) => socket.close(code, reason),
+    addEventListener: (type, listener) => socket.addEventListener(type, listener),
+    removeEventListener: (type, listener) => socket.removeEventListener(type, listener),
+  };
+}
+
+describe('SecureWebSocket', () => {
+  let peerCounter = 0;
+  let client: KeyExchange;
+  let server: KeyExchange;
+
+  beforeEach(async () => {
+    peerCounter++;
+    client = await KeyExchange.createSession(`ws-server-${peerCounter}`, 'client');
+    server = await KeyExchange.createSession(`ws-client-${peerCounter}`, 'server');
+  });
+
+  afterEach(() => {
+    KeyExchange.listSessions().forEach(peerId => KeyExchange.closeSession(peerId));
+  });
+
+  function connect(
+    clientOptions: SecureWebSocketOptions = {},
+    serverOptions: SecureWebSocketOptions = {},
+    clientTap?: (frame: Uint8Array) => Uint8Array[]
+  ): [SecureWebSocket, SecureWebSocket] {
+    const [clientSocket, serverSocket] = createWebSocketLoopback();
+    return [
+      new SecureWebSocket(clientTap ? tap(clientSocket, clientTap) : clientSocket, client, clientOptions),
+      new SecureWebSocket(serverSocket, server, serverOptions),
+    ];
+  }
+
+  it('should handshake on open and carry text and binary messages both ways', async () => {
+    const [clientWs, serverWs] = connect();
+    const handshakes = Promise.all([nextEvent(clientWs, 'handshake'), nextEvent(serverWs, 'handshake')]);
+    expect(clientWs.state).toBe('connecting');
+
+    await handshakes;
+    expect(clientWs.state).toBe('open');
+    expect(clientWs.cipherSuite!.aead).toBe('AES-GCM');
+
+    const atServer = nextEvent(serverWs, 'message');
+    await clientWs.send('hello server');
+    expect((await atServer).data).toBe('hello server');
+
+    const atClient = nextEvent(clientWs, 'message');
+    await serverWs.send(new Uint8Array([1, 2, 3]));
+    expect((await atClient).data).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should queue messages sent before the handshake completes', async () => {
+    const [clientWs, serverWs] = connect();
+    const received: (string | Uint8Array)[] = [];
+    serverWs.on('message', event => received.push(event.data));
+
+    await Promise.all([clientWs.send('first'), clientWs.send('second')]);
+    await clientWs.send('third');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(received).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should emit rekey events on both ends', async () => {
+    const [clientWs, serverWs] = connect({ record: { rekey: { maxMessages: 2 } } });
+    const clientRekeys: string[] = [];
+    const serverRekeys: string[] = [];
+    clientWs.on('rekey', event => clientRekeys.push(`${event.direction} ${event.epoch}`));
+    serverWs.on('rekey', event => serverRekeys.push(`${event.direction} ${event.epoch}`));
+    const received: (string | Uint8Array)[] = [];
+    serverWs.on('message', event => received.push(event.data));
+
+    await nextEvent(serverWs, 'handshake');
+    for (const message of ['a', 'b', 'c']) await clientWs.send(message);
+    await clientWs.rekey();
+    await clientWs.send('d');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(received).toEqual(['a', 'b', 'c', 'd']);
+    expect(clientRekeys).toEqual(['tx 1', 'tx 2']); // policy after 'b', then rekey()
+    expect(serverRekeys).toEqual(['rx 1', 'rx 2']);
+  });
+
+  it('should use the envelope algorithm of the negotiated suite', async () => {
+    const frames: Uint8Array[] = [];
+    const [clientWs, serverWs] = connect(
+      { handshake: { cipherSuites: [CIPHER_SUITE_X25519_HKDF_SHA512_CHACHA20_POLY1305] } },
+      {},
+      frame => { frames.push(frame); return [frame]; }
+    );
+
+    await nextEvent(serverWs, 'handshake');
+    const atServer = nextEvent(serverWs, 'message');
+    await clientWs.send('over chacha');
+
+    expect((await atServer).data).toBe('over chacha');
+    expect(decodeEnvelope(frames[frames.length - 1]!).algorithm).toBe(ENVELOPE_ALG_CHACHA20_POLY1305);
+  });
+
+  it('should drop tampered and replayed records with authFailure events', async () => {
+    let mode: 'pass' | 'tamper' | 'replay' = 'pass';
+    const [clientWs, serverWs] = connect({}, {}, frame => {
+      if (mode === 'tamper') {
+        const tampered = frame.slice();
+        tampered[tampered.length - 1]! ^= 1;
+        return [tampered];
+      }
+      return mode === 'replay' ? [frame, frame] : [frame];
+    });
+    const failures: Error[] = [];
+    serverWs.on('authFailure', event => failures.push(event.error));
+    const received: (string | Uint8Array)[] = [];
+    serverWs.on('message', event => received.push(event.data));
+
+    await nextEvent(serverWs, 'handshake');
+    mode = 'tamper';
+    await clientWs.send('forged');
+    mode = 'replay';
+    await clientWs.send('twice');
+    mode = 'pass';
+    await clientWs.send('after');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(received).toEqual(['twice', 'after']);
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toBeInstanceOf(AuthenticationFailedError);
+    expect(failures[1]).toBeInstanceOf(ReplayError);
+    expect(serverWs.state).toBe('open');
+  });
+
+  it('should close on a record auth failure when asked to', async () => {
+    const [clientWs, serverWs] = connect({}, { closeOnAuthFailure: true }, frame => {
+      const tampered = frame.slice();
+      tampered[tampered.length - 1]! ^= 1;
+      return [clientWs?.state === 'open' ? tampered : frame];
+    });
+
+    await nextEvent(serverWs, 'handshake');
+    const closed = nextEvent(clientWs, 'close');
+    await clientWs.send('forged');
+
+    expect(await closed).toEqual({ code: 1008, reason: 'Authentication failed' });
+    expect(clientWs.state).toBe('closed');
+    await expect(clientWs.send('too late')).rejects.toThrow('SecureWebSocket is closed');
+  });
+
+  it('should fail the handshake when the server is not the pinned identity', async () => {
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    const expected = await Signature.getInstance();
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    const mallory = await Signature.getInstance();
+
+    const [clientWs] = connect(
+      { handshake: { peerIdentityKey: await expected.getPublicKey() } },
+      { handshake: { signature: mallory } }
+    );
+    const failure = nextEvent(clientWs, 'authFailure');
+    const closed = nextEvent(clientWs, 'close');
+    const queued = clientWs.send('never sent');
+
+    expect((await failure).stage).toBe('handshake');
+    expect((await failure).error.message).toBe('Invalid signature on server_hello');
+    expect((await closed).code).toBe(1008);
+    await expect(queued).rejects.toThrow('Socket closed before the handshake completed');
+  });
+});
@@ -0,0 +1,204 @@
+import { AuthenticationFailedError, EncodingError, InvalidArgumentError, InvalidStateError } from '../errors';
+import { KeyExchange } from '../KeyExchange';
+import { RecordLayer } from '../RecordLayer';
+import { exportSession, restoreSession } from '../SessionState';
+import {
+  wrapWithPassphrase,
+  unwrapWithPassphrase,
+  MIN_PBKDF2_ITERATIONS,
+  MAX_PBKDF2_ITERATIONS
+} from '../passphrase';
+import { byteArrayToString } from '../helpers';
+
+// Keep PBKDF2 fast in tests
+const iterations = 1000;
+
+describe('passphrase wrapping', () => {
+  it('should round-trip data', async () => {
+    const wrapped = await wrapWithPassphrase(new Uint8Array([1, 2, 3]), 'correct horse', iterations);
+
+    expect(wrapped.kdf).toBe('PBKDF2-SHA256');
+    expect(wrapped.iterations).toBe(iterations);
+    expect(await unwrapWithPassphrase(wrapped, 'correct horse')).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const wrapped = await wrapWithPassphrase(new Uint8Array([1, 2, 3]), 'correct horse', iterations);
+
+    await expect(unwrapWithPassphrase(wrapped, 'battery staple')).rejects.toThrow('Wrong passphrase or corrupted data');
+    await expect(unwrapWithPassphrase(wrapped, 'battery staple')).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should authenticate the KDF parameters', async () => {
+    const wrapped = await wrapWithPassphrase(new Uint8Array([1, 2, 3]), 'correct horse', iterations);
+
+    await expect(unwrapWithPassphrase({ ...wrapped, iterations: iterations + 1 }, 'correct horse'))
+      .rejects.toThrow('Wrong passphrase or corrupted data');
+  });
+
+  it('should reject invalid iteration counts', async () => {
+    await expect(wrapWithPassphrase(new Uint8Array(1), 'pw', 0)).rejects.toThrow(InvalidArgumentError);
+    await expect(wrapWithPassphrase(new Uint8Array(1), 'pw', MIN_PBKDF2_ITERATIONS - 1))
+      .rejects.toThrow(`Iterations must be an integer between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}`);
+    await expect(wrapWithPassphrase(new Uint8Array(1), 'pw', MAX_PBKDF2_ITERATIONS + 1)).rejects.toThrow(InvalidArgumentError);
+  });
+
+  it('should refuse out-of-range iteration counts and unknown KDFs before deriving', async () => {
+    const wrapped = await wrapWithPassphrase(new Uint8Array([1, 2, 3]), 'correct horse', iterations);
+
+    for (const count of [0, MIN_PBKDF2_ITERATIONS - 1, MAX_PBKDF2_ITERATIONS + 1, 2 ** 31, 1.5, '1000' as any]) {
+      await expect(unwrapWithPassphrase({ ...wrapped, iterations: count }, 'correct horse')).rejects.toThrow(EncodingError);
+    }
+    await expect(unwrapWithPassphrase({ ...wrapped, kdf: 'scrypt' as any }, 'correct horse'))
+      .rejects.toThrow('Unsupported key derivation: scrypt');
+  });
+});
+
+describe('session export and restore', () => {
+  let peerCounter = 0;
+  let clientId: string;
+  let serverId: string;
+  let client: KeyExchange;
+  let server: KeyExchange;
+
+  beforeEach(async () => {
+    peerCounter++;
+    clientId = `server-${peerCounter}`;
+    serverId = `client-${peerCounter}`;
+    client = await KeyExchange.createSession(clientId, 'client', { exportable: true });
+    server = await KeyExchange.createSession(serverId, 'server');
+
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+  });
+
+  afterEach(() => {
+    KeyExchange.closeSession(clientId);
+    KeyExchange.closeSession(serverId);
+  });
+
+  it('should resume a channel after a restart', async () => {
+    const blob = await exportSession(client);
+    KeyExchange.closeSession(clientId);
+
+    const { keyExchange, recordLayer, peerIdentityKey } = await restoreSession(blob);
+    expect(keyExchange.peerId).toBe(clientId);
+    expect(keyExchange.role).toBe('client');
+    expect(KeyExchange.getSession(clientId)).toBe(keyExchange);
+    expect(recordLayer).toBeNull();
+    expect(peerIdentityKey).toBeNull();
+
+    const request = await keyExchange.encrypt('still here');
+    expect(byteArrayToString(await server.decrypt(request.ciphertext, request.nonce))).toBe('still here');
+    const response = await server.encrypt('welcome back');
+    expect(byteArrayToString(await keyExchange.decrypt(response.ciphertext, response.nonce))).toBe('welcome back');
+  });
+
+  it('should keep sequence counters, replay window and epochs', async () => {
+    const clientRecords = new RecordLayer(client, { rekey: { maxMessages: 1 } });
+    const serverRecords = new RecordLayer(server, { rekey: { maxMessages: 1 } });
+
+    await serverRecords.open(await clientRecords.seal('one'));
+    await serverRecords.open(await clientRecords.seal('two'));
+    const replayed = await serverRecords.seal('reply');
+    await clientRecords.open(replayed);
+
+    const blob = await exportSession(client, { recordLayer: clientRecords, peerIdentityKey: 'c2VydmVyLWtleQ==' });
+    KeyExchange.closeSession(clientId);
+    const restored = await restoreSession(blob, { recordLayer: { rekey: { maxMessages: 1 } } });
+
+    expect(restored.peerIdentityKey).toBe('c2VydmVyLWtleQ==');
+    expect(restored.keyExchange.txEpoch).toBe(1);
+    expect(restored.recordLayer!.nextSendSequence).toBe(2n);
+    await expect(restored.recordLayer!.open(replayed)).rejects.toMatchObject({ reason: 'duplicate' });
+
+    const record = await restored.recordLayer!.seal('three');
+    expect(record.epoch).toBe(2);
+    expect(byteArrayToString(await serverRecords.open(record))).toBe('three');
+  });
+
+  it('should encrypt the blob with a passphrase', async () => {
+    const blob = await exportSession(client, { passphrase: 'tab secret', iterations });
+    expect(blob).not.toContain(client.exportState().txSecret);
+    KeyExchange.closeSession(clientId);
+
+    await expect(restoreSession(blob)).rejects.toThrow('Session blob is encrypted. A passphrase is required.');
+    await expect(restoreSession(blob)).rejects.toThrow(InvalidStateError);
+    await expect(restoreSession(blob, { passphrase: 'wrong' })).rejects.toThrow('Wrong passphrase or corrupted data');
+
+    const { keyExchange } = await restoreSession(blob, { passphrase: 'tab secret' });
+    const { ciphertext, nonce } = await keyExchange.encrypt('resumed');
+    expect(byteArrayToString(await server.decrypt(ciphertext, nonce))).toBe('resumed');
+  });
+
+  it('should refuse to export sessions that did not opt in', async () => {
+    await expect(exportSession(server)).rejects.toThrow('Session is not exportable');
+  });
+
+  it('should refuse to export before the key exchange', async () => {
+    const fresh = await KeyExchange.createSession(`fresh-${peerCounter}`, 'client', { exportable: true });
+
+    await expect(exportSession(fresh)).rejects.toThrow('No keys to export');
+    KeyExchange.closeSession(`fresh-${peerCounter}`);
+  });
+
+  it('should not overwrite a live session', async () => {
+    const blob = await exportSession(client);
+
+    await expect(restoreSession(blob)).rejects.toThrow(`Session already exists for peer: ${clientId}`);
+  });
+
+  it('should reject malformed or unknown blobs', async () => {
+    await expect(restoreSession('not json')).rejects.toThrow('Invalid session blob');
+    await expect(restoreSession('{"v":2}')).rejects.toThrow('Unsupported session blob version: 2');
+    await expect(restoreSession('{"v":1}')).rejects.toThrow(EncodingError);
+    await expect(restoreSession('{"v":1,"session":{}}')).rejects.toThrow(EncodingError);
+  });
+
+  it('should reject corrupted session state at restore time', async () => {
+    const valid = JSON.parse(await exportSession(client, { recordLayer: new RecordLayer(client) }));
+    KeyExchange.closeSession(clientId);
+
+    const corruptions: Array<[string, string, unknown]> = [
+      ['keyExchange', 'peerId', ''],
+      ['keyExchange', 'role', 'admin'],
+      ['keyExchange', 'txEpoch', -1],
+      ['keyExchange', 'rxEpoch', 2 ** 32],
+      ['keyExchange', 'rxEpoch', 1.5],
+      ['keyExchange', 'cipherSuite', 0xbeef],
+      ['keyExchange', 'txSecret', 'AAAA'],
+      ['keyExchange', 'rxSecret', 'not base64!'],
+      ['recordLayer', 'sendSequence', '-1'],
+      ['recordLayer', 'highestReceived', (2n ** 64n).toString()],
+      ['recordLayer', 'receivedWindow', '0x10'],
+      ['recordLayer', 'messagesSinceRekey', -1],
+      ['recordLayer', 'epochStartedAt', 'yesterday'],
+    ];
+    for (const [part, field, value] of corruptions) {
+      const blob = JSON.parse(JSON.stringify(valid));
+      blob.session[part][field] = value;
+      const error = await restoreSession(JSON.stringify(blob)).catch(caught => caught);
+      expect(error).toBeInstanceOf(EncodingError);
+      expect(error.message).toMatch(`Invalid ${part === 'keyExchange' ? 'session' : 'record layer'} state: ${field}`);
+      expect(KeyExchange.getSession(clientId)).toBeUndefined();
+    }
+
+    const { keyExchange } = await restoreSession(JSON.stringify(valid));
+    expect(keyExchange.peerId).toBe(clientId);
+  });
+
+  it('should not leave the session registered when the record layer cannot be restored', async () => {
+    const clientRecords = new RecordLayer(client);
+    const valid = await exportSession(client, { recordLayer: clientRecords });
+    KeyExchange.closeSession(clientId);
+
+    const blob = JSON.parse(valid);
+    blob.session.recordLayer.sendSequence = 'not a number';
+    await expect(restoreSession(JSON.stringify(blob))).rejects.toThrow(EncodingError);
+    expect(KeyExchange.getSession(clientId)).toBeUndefined();
+
+    await expect(restoreSession(valid, { recordLayer: { windowSize: 0 } })).rejects.toThrow('Window size must be a positive integer');
+    expect(KeyExchange.getSession(clientId)).toBeUndefined();
+  });
+});
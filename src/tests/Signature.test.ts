@@ -1,3 +1,4 @@
+import { InvalidKeyError } from '../errors';
 import { Signature } from '../Signature';
 import { base64StringToByteArr, byteArrayToBase64 } from '../helpers';
 
@@ -329,7 +330,7 @@ describe('Signature Error Handling', () => {
     mockSubtle.importKey.mockRejectedValueOnce(new Error('Import failed'));
 
     await expect(signature.initializeServerKey(mockServerKeyB64))
-      .rejects.toThrow('Import failed');
+      .rejects.toThrow(InvalidKeyError);
   });
 });
 
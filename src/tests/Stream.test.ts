@@ -0,0 +1,135 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  createEncryptionStream,
+  createDecryptionStream,
+  createNodeEncryptionStream,
+  createNodeDecryptionStream,
+  StreamKeySource
+} from '../Stream';
+import { AuthenticationFailedError, EncodingError } from '../errors';
+import { KeyExchange } from '../KeyExchange';
+import { concatBytes } from '../helpers';
+
+const key = new Uint8Array(32).fill(5);
+
+function bytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31) % 256);
+}
+
+async function pipe(input: Uint8Array[], transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const readable = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of input) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+
+  const output: Uint8Array[] = [];
+  const reader = readable.pipeThrough(transform).getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    output.push(result.value);
+  }
+  return concatBytes(...output);
+}
+
+async function encrypt(data: Uint8Array, source: StreamKeySource = key, chunkSize = 16, pieces = 3): Promise<Uint8Array> {
+  const size = Math.ceil(data.length / pieces) || 1;
+  const input = [];
+  for (let offset = 0; offset < data.length; offset += size) input.push(data.slice(offset, offset + size));
+  return pipe(input, createEncryptionStream(source, { chunkSize }));
+}
+
+describe('Streaming encryption', () => {
+  it.each([0, 1, 15, 16, 17, 32, 100])('should round-trip %i bytes', async (length) => {
+    const data = bytes(length);
+    const encrypted = await encrypt(data);
+
+    // header + a 16-byte tag per chunk; there is always at least the final chunk
+    expect(encrypted).toHaveLength(28 + length + 16 * Math.max(1, Math.ceil(length / 16)));
+    expect(await pipe([encrypted], createDecryptionStream(key))).toEqual(data);
+  });
+
+  it('should decrypt regardless of how the input is split', async () => {
+    const data = bytes(200);
+    const encrypted = await encrypt(data);
+    const pieces = Array.from(encrypted, byte => new Uint8Array([byte]));
+
+    expect(await pipe(pieces, createDecryptionStream(key))).toEqual(data);
+  });
+
+  it('should detect truncation at a chunk boundary', async () => {
+    const encrypted = await encrypt(bytes(64));
+
+    await expect(pipe([encrypted.slice(0, 28 + 32 * 2)], createDecryptionStream(key)))
+      .rejects.toThrow('Stream truncated or corrupted');
+    await expect(pipe([encrypted.slice(0, 28 + 32 * 2)], createDecryptionStream(key)))
+      .rejects.toThrow(AuthenticationFailedError);
+    await expect(pipe([encrypted.slice(0, 20)], createDecryptionStream(key)))
+      .rejects.toThrow('Stream truncated: header incomplete');
+    await expect(pipe([encrypted.slice(0, 20)], createDecryptionStream(key))).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should detect reordered and modified chunks', async () => {
+    const encrypted = await encrypt(bytes(64));
+    const swapped = concatBytes(encrypted.slice(0, 28), encrypted.slice(60, 92), encrypted.slice(28, 60), encrypted.slice(92));
+    const flipped = encrypted.slice();
+    flipped[10]! ^= 1;
+
+    await expect(pipe([swapped], createDecryptionStream(key))).rejects.toThrow('Stream chunk 0 failed to authenticate');
+    await expect(pipe([flipped], createDecryptionStream(key))).rejects.toThrow(AuthenticationFailedError);
+
+    const badVersion = encrypted.slice();
+    badVersion[0] = 2;
+    await expect(pipe([badVersion], createDecryptionStream(key))).rejects.toThrow(EncodingError);
+  });
+
+  it('should reject a wrong key or invalid options', async () => {
+    const encrypted = await encrypt(bytes(10));
+
+    await expect(pipe([encrypted], createDecryptionStream(new Uint8Array(32)))).rejects.toThrow('Stream truncated or corrupted');
+    await expect(pipe([], createEncryptionStream(new Uint8Array(16)))).rejects.toThrow('Stream key must be 32 bytes, got 16');
+    await expect(pipe([], createEncryptionStream(key, { chunkSize: 0 }))).rejects.toThrow('Chunk size must be an integer');
+  });
+
+  it('should use the TX and RX keys of a session', async () => {
+    const client = await KeyExchange.createSession('stream-server', 'client');
+    const server = await KeyExchange.createSession('stream-client', 'server');
+    try {
+      const clientPublicKey = await client.generateKeyPair();
+      await client.deriveKeys(await server.generateKeyPair());
+      await server.deriveKeys(clientPublicKey);
+
+      const data = bytes(50);
+      const encrypted = await encrypt(data, client);
+
+      expect(await pipe([encrypted], createDecryptionStream(server))).toEqual(data);
+      await expect(pipe([encrypted], createDecryptionStream(client))).rejects.toThrow(AuthenticationFailedError);
+    } finally {
+      KeyExchange.closeSession('stream-server');
+      KeyExchange.closeSession('stream-client');
+    }
+  });
+
+  it('should work as Node.js streams', async () => {
+    const data = bytes(1000);
+    const chunks: Buffer[] = [];
+    const collect = () => new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    await pipeline(Readable.from([Buffer.from(data.slice(0, 300)), Buffer.from(data.slice(300))]),
+      await createNodeEncryptionStream(key, { chunkSize: 64 }), collect());
+    const encrypted = Buffer.concat(chunks);
+    chunks.length = 0;
+
+    await pipeline(Readable.from([encrypted]), await createNodeDecryptionStream(key), collect());
+    expect(new Uint8Array(Buffer.concat(chunks))).toEqual(data);
+
+    await expect(pipeline(Readable.from([encrypted.subarray(0, encrypted.length - 1)]),
+      await createNodeDecryptionStream(key), collect())).rejects.toThrow(AuthenticationFailedError);
+  });
+});
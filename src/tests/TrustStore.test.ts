@@ -0,0 +1,107 @@
+import { InvalidKeyError } from '../errors';
+import { TrustStore } from '../TrustStore';
+import { Signature } from '../Signature';
+
+async function newSignature(): Promise<Signature> {
+  (Signature as any).instance = null;
+  (Signature as any).initialized = false;
+  return Signature.getInstance();
+}
+
+describe('TrustStore', () => {
+  let oldKey: Signature;
+  let newKey: Signature;
+  let store: TrustStore;
+
+  beforeAll(async () => {
+    oldKey = await newSignature();
+    newKey = await newSignature();
+  });
+
+  beforeEach(async () => {
+    store = new TrustStore();
+    await store.addKey('server-v1', await oldKey.getPublicKey(), { name: 'server', version: 1 });
+    await store.addKey('server-v2', await newKey.getPublicKey(), { name: 'server', version: 2 });
+  });
+
+  it('should find the key that made a signature', async () => {
+    expect(await store.findSigner(await oldKey.sign('data'), 'data')).toBe('server-v1');
+    expect(await store.findSigner(await newKey.sign('data'), 'data')).toBe('server-v2');
+    expect(await store.findSigner(await newKey.sign('data'), 'other data')).toBeNull();
+  });
+
+  it('should only try the requested key ID', async () => {
+    const signature = await oldKey.sign('data');
+
+    expect(await store.verify(signature, 'data', 'server-v1')).toBe(true);
+    expect(await store.verify(signature, 'data', 'server-v2')).toBe(false);
+    await expect(store.verify(signature, 'data', 'server-v3')).rejects.toThrow('Unknown key ID: server-v3');
+    await expect(store.findSigner(signature, 'data', 'server-v3')).rejects.toThrow(InvalidKeyError);
+  });
+
+  it('should list active keys newest version first', () => {
+    expect(store.activeKeys('server').map(key => key.keyId)).toEqual(['server-v2', 'server-v1']);
+    expect(store.activeKeys('other')).toEqual([]);
+  });
+
+  it('should honour validity windows', async () => {
+    await store.addKey('scheduled', await newKey.getPublicKey(), { notBefore: 2_000, notAfter: 3_000 });
+    const signature = await newKey.sign('data');
+
+    expect(store.isActive('scheduled', 1_999)).toBe(false);
+    expect(store.isActive('scheduled', 2_000)).toBe(true);
+    expect(store.isActive('scheduled', 3_000)).toBe(false);
+    expect(await store.verify(signature, 'data', 'scheduled', 2_500)).toBe(true);
+    expect(await store.verify(signature, 'data', 'scheduled', 3_500)).toBe(false);
+  });
+
+  it('should stop accepting a revoked key', async () => {
+    const signature = await oldKey.sign('data');
+
+    store.revokeKey('server-v1');
+
+    expect(await store.verify(signature, 'data')).toBe(false);
+    expect(store.getKey('server-v1')!.revokedAt).toBeDefined();
+    expect(store.activeKeys().map(key => key.keyId)).toEqual(['server-v2']);
+  });
+
+  it('should reject duplicate IDs and invalid keys', async () => {
+    await expect(store.addKey('server-v1', await oldKey.getPublicKey())).rejects.toThrow('Key ID already trusted: server-v1');
+    await expect(store.addKey('short', new Uint8Array(16))).rejects.toThrow('Invalid Ed25519 public key length: 16');
+    await expect(store.addKey('window', new Uint8Array(32), { notBefore: 5, notAfter: 5 }))
+      .rejects.toThrow('notAfter must be later than notBefore');
+  });
+
+  it('should not expose CryptoKey objects', () => {
+    expect(Object.keys(store.getKey('server-v2')!).sort()).toEqual(['keyId', 'name', 'publicKey', 'version']);
+    expect(store.removeKey('server-v2')).toBe(true);
+    expect(store.getKey('server-v2')).toBeNull();
+  });
+});
+
+describe('Signature with a trust store', () => {
+  it('should accept both keys during a rotation', async () => {
+    const oldServer = await newSignature();
+    const newServer = await newSignature();
+    const client = await newSignature();
+
+    await client.initializeServerKey(await newServer.getPublicKey());
+    await client.trustStore.addKey('server-v1', await oldServer.getPublicKey(), { notAfter: Date.now() + 60_000 });
+
+    expect(await client.verify(await newServer.sign('data'), 'data')).toBe(true);
+    expect(await client.verify(await oldServer.sign('data'), 'data')).toBe(true);
+    expect(await client.verify(await oldServer.sign('data'), 'data', 'server-v1')).toBe(true);
+
+    client.trustStore.revokeKey('server-v1');
+    expect(await client.verify(await oldServer.sign('data'), 'data')).toBe(false);
+  });
+
+  it('should verify with only a trust store', async () => {
+    const server = await newSignature();
+    const client = await newSignature();
+
+    await client.trustStore.addKey('server', await server.getPublicKey());
+
+    expect(await client.verify(await server.sign('data'), 'data')).toBe(true);
+  });
+});
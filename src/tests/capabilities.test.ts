@@ -0,0 +1,84 @@
+import { webcrypto } from 'crypto';
+import { detectCapabilities } from '../capabilities';
+import { setCryptoProvider } from '../CryptoProvider';
+import { withCurveFallback } from '../CurveFallback';
+import { generateRandomBytes } from '../helpers';
+import { SubtleCrypto } from '../types';
+
+// Real Web Crypto that rejects the given algorithms like a platform without them
+function subtleWithout(...algorithms: string[]): SubtleCrypto {
+  const rejects = (algorithm: any) => algorithms.includes(typeof algorithm === 'string' ? algorithm : algorithm?.name);
+  return new Proxy(webcrypto.subtle, {
+    get(target, property: string) {
+      const value = (target as any)[property];
+      if (typeof value !== 'function') return value;
+      return (...args: any[]) => {
+        const algorithm = property === 'importKey' ? args[2] : args[0];
+        if (rejects(algorithm)) {
+          return Promise.reject(new DOMException('Unrecognized algorithm name', 'NotSupportedError'));
+        }
+        return value.apply(target, args);
+      };
+    },
+  }) as unknown as SubtleCrypto;
+}
+
+describe('detectCapabilities', () => {
+  afterEach(() => {
+    setCryptoProvider(null);
+  });
+
+  it('should report native support on this platform', async () => {
+    const report = await detectCapabilities();
+
+    expect(report).toEqual({
+      provider: 'platform',
+      webCrypto: true,
+      x25519: { supported: true, implementation: 'native' },
+      ed25519: { supported: true, implementation: 'native' },
+      hkdf: { supported: true, implementation: 'native' },
+      aesGcm: { supported: true, implementation: 'native' },
+    });
+  });
+
+  it('should probe once per implementation', async () => {
+    const subtle = new Proxy(webcrypto.subtle, {
+      get(target, property: string) {
+        const value = (target as any)[property];
+        if (property === 'generateKey') generateKeyCalls++;
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    }) as unknown as SubtleCrypto;
+    let generateKeyCalls = 0;
+    setCryptoProvider({ subtle });
+
+    const first = await detectCapabilities();
+    const calls = generateKeyCalls;
+    const second = await detectCapabilities();
+
+    expect(second).toBe(first);
+    expect(generateKeyCalls).toBe(calls);
+  });
+
+  it('should report the curve fallback when the platform lacks the curves', async () => {
+    setCryptoProvider({ subtle: withCurveFallback(subtleWithout('X25519', 'Ed25519'), generateRandomBytes) });
+
+    const report = await detectCapabilities();
+
+    expect(report.provider).toBe('custom');
+    expect(report.x25519).toEqual({ supported: true, implementation: 'fallback' });
+    expect(report.ed25519).toEqual({ supported: true, implementation: 'fallback' });
+    expect(report.aesGcm).toEqual({ supported: true, implementation: 'native' });
+  });
+
+  it('should report unsupported primitives with the reason instead of throwing', async () => {
+    setCryptoProvider({ subtle: subtleWithout('Ed25519', 'HKDF') });
+
+    const report = await detectCapabilities();
+
+    expect(report.x25519.supported).toBe(true);
+    expect(report.ed25519).toEqual({ supported: false, implementation: null, error: 'Unrecognized algorithm name' });
+    expect(report.hkdf).toEqual({ supported: false, implementation: null, error: 'Unrecognized algorithm name' });
+    expect(report.aesGcm.supported).toBe(true);
+  });
+});
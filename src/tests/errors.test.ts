@@ -0,0 +1,119 @@
+import {
+  AuthenticationFailedError,
+  EncodingError,
+  InvalidArgumentError,
+  InvalidKeyError,
+  InvalidStateError,
+  NotInitializedError,
+  ReplayError,
+  SecureChannelError
+} from '../errors';
+import { KeyExchange } from '../KeyExchange';
+import { Signature } from '../Signature';
+import { base64ToUint32, base64UrlToByteArr, bigIntToBase64, copyToBuffer, generateRandomBytes, numberToBase64, uint32ToBase64 } from '../helpers';
+
+describe('Error hierarchy', () => {
+  it('should give every error a stable code and name', () => {
+    const errors: [SecureChannelError, string, string][] = [
+      [new NotInitializedError('x'), 'NOT_INITIALIZED', 'NotInitializedError'],
+      [new AuthenticationFailedError('x'), 'AUTHENTICATION_FAILED', 'AuthenticationFailedError'],
+      [new InvalidKeyError('x'), 'INVALID_KEY', 'InvalidKeyError'],
+      [new EncodingError('x'), 'ENCODING_ERROR', 'EncodingError'],
+      [new InvalidStateError('x'), 'INVALID_STATE', 'InvalidStateError'],
+      [new InvalidArgumentError('x'), 'INVALID_ARGUMENT', 'InvalidArgumentError'],
+      [new ReplayError(7n, 'duplicate'), 'REPLAY', 'ReplayError'],
+    ];
+
+    for (const [error, code, name] of errors) {
+      expect(error).toBeInstanceOf(SecureChannelError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toBe(code);
+      expect(error.name).toBe(name);
+    }
+  });
+
+  it('should keep the ReplayError details', () => {
+    const error = new ReplayError(3n, 'outside_window');
+    expect(error.sequence).toBe(3n);
+    expect(error.reason).toBe('outside_window');
+    expect(error.message).toBe('Record outside replay window: sequence 3');
+  });
+});
+
+describe('Typed errors', () => {
+  afterEach(() => {
+    KeyExchange.listSessions().forEach(peerId => KeyExchange.closeSession(peerId));
+  });
+
+  it('should throw EncodingError from the helpers', () => {
+    expect(() => uint32ToBase64(-1)).toThrow(EncodingError);
+    expect(() => bigIntToBase64(-1n)).toThrow(EncodingError);
+    expect(() => numberToBase64(1.5)).toThrow(EncodingError);
+    expect(() => base64ToUint32('AAAAAAAA')).toThrow(EncodingError);
+    expect(() => base64UrlToByteArr('not base64!')).toThrow(EncodingError);
+    expect(() => copyToBuffer(new Uint8Array(2), 0, 'abc')).toThrow(EncodingError);
+  });
+
+  it('should throw InvalidArgumentError for out of range arguments', async () => {
+    await expect(generateRandomBytes(-1)).rejects.toThrow(InvalidArgumentError);
+  });
+
+  it('should throw NotInitializedError before keys are derived', async () => {
+    const session = await KeyExchange.createSession('server', 'client');
+
+    await expect(session.encrypt('hi')).rejects.toThrow(NotInitializedError);
+    await expect(session.decrypt(new Uint8Array(32), new Uint8Array(12))).rejects.toThrow(NotInitializedError);
+    await expect(session.deriveKeys('AAAA')).rejects.toThrow(NotInitializedError);
+  });
+
+  it('should throw AuthenticationFailedError when a ciphertext was tampered with', async () => {
+    const client = await KeyExchange.createSession('server', 'client');
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+
+    const { ciphertext, nonce } = await client.encrypt('hello server');
+    ciphertext[0]! ^= 1;
+
+    const error = await server.decrypt(ciphertext, nonce).catch(e => e);
+    expect(error).toBeInstanceOf(AuthenticationFailedError);
+    expect(error.code).toBe('AUTHENTICATION_FAILED');
+  });
+
+  it('should throw InvalidKeyError for malformed keys', async () => {
+    const session = await KeyExchange.createSession('server', 'client');
+    await session.generateKeyPair();
+    await expect(session.deriveKeys('AAAA')).rejects.toThrow(InvalidKeyError);
+
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    const signer = await Signature.getInstance();
+    await expect(signer.loadIdentity('seed', new Uint8Array(31))).rejects.toThrow(InvalidKeyError);
+    await expect(signer.verifyWithKey(new Uint8Array(5), new Uint8Array(64), 'data')).rejects.toThrow(InvalidKeyError);
+  });
+
+  it('should throw InvalidStateError for calls the session does not allow', async () => {
+    const session = await KeyExchange.createSession('server', 'server');
+
+    await expect(KeyExchange.createSession('server', 'client')).rejects.toThrow(InvalidStateError);
+    expect(() => session.exportState()).toThrow(InvalidStateError);
+    await expect(session.generateKey({} as any)).rejects.toThrow(InvalidStateError);
+  });
+
+  it('should throw AuthenticationFailedError for epochs outside the RX window', async () => {
+    const client = await KeyExchange.createSession('server', 'client');
+    const server = await KeyExchange.createSession('client-1', 'server');
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await server.generateKeyPair());
+    await server.deriveKeys(clientPublicKey);
+
+    const { ciphertext, nonce } = await client.encrypt('epoch 0');
+    await client.ratchetTx();
+    const next = await client.encrypt('epoch 1');
+    await server.decryptAtEpoch(1, next.ciphertext, next.nonce);
+
+    await expect(server.decryptAtEpoch(0, ciphertext, nonce)).rejects.toThrow(AuthenticationFailedError);
+    await expect(server.decryptAtEpoch(100, ciphertext, nonce)).rejects.toThrow(AuthenticationFailedError);
+  });
+});
@@ -13,8 +13,11 @@ import {
   base64ToUint32,
   uint32ToBase64,
   byteArrayToString,
-  convertToJsonSerializable
+  convertToJsonSerializable,
+  concatBytes,
+  getSubtleCrypto
 } from '../helpers';
+import { withCurveFallback } from '../CurveFallback';
 
 describe('Helper Functions', () => {
   describe('byteArrayToBase64', () => {
@@ -618,6 +621,30 @@ describe('copyToBuffer', () => {
   });
 });
 
+describe('getSubtleCrypto', () => {
+  it('should return the global SubtleCrypto when available', async () => {
+    expect(await getSubtleCrypto()).toBe(withCurveFallback((globalThis as any).crypto.subtle, generateRandomBytes));
+  });
+});
+
+describe('concatBytes', () => {
+  it('should join byte arrays in order', () => {
+    const result = concatBytes(new Uint8Array([1, 2]), new Uint8Array([]), new Uint8Array([3]));
+    expect(result).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should return an empty array with no input', () => {
+    expect(concatBytes()).toEqual(new Uint8Array(0));
+  });
+
+  it('should not alias its inputs', () => {
+    const part = new Uint8Array([1, 2]);
+    const result = concatBytes(part);
+    result[0] = 9;
+    expect(part[0]).toBe(1);
+  });
+});
+
 describe('bytesToString', () => {
   it('should decode ASCII text', () => {
     const bytes = new Uint8Array([104, 101, 108, 108, 111]); // "hello"
@@ -769,6 +796,20 @@ describe('byteArrayToString', () => {
 });
 
 describe('convertToJsonSerializable', () => {
+  it('should convert an EncryptionResult with additional data', () => {
+    const result: EncryptionResult = {
+      ciphertext: new Uint8Array([1, 2]),
+      nonce: new Uint8Array([3]),
+      additionalData: new Uint8Array([4, 5])
+    };
+
+    expect(convertToJsonSerializable(result)).toEqual({
+      ciphertext: [1, 2],
+      nonce: [3],
+      additionalData: [4, 5]
+    });
+  });
+
   it('should convert Uint8Array to number array', () => {
     const input = new Uint8Array([1, 2, 3, 4, 5]);
     const result = convertToJsonSerializable(input);
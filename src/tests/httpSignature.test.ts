@@ -0,0 +1,170 @@
+import { AuthenticationFailedError, EncodingError } from '../errors';
+import {
+  createContentDigest,
+  HttpSignatureRequest,
+  signHttpRequest,
+  verifyContentDigest,
+  verifyHttpRequest
+} from '../httpSignature';
+import { Signature } from '../Signature';
+import { TrustStore } from '../TrustStore';
+
+// RFC 9421 appendix B.1.4 test key and B.2.6 request
+const RFC_KEY_JWK = {
+  kty: 'OKP',
+  crv: 'Ed25519',
+  d: 'n4Ni-HpISpVObnQMW0wOhCKROaIKqKtW_2ZYb2p9KcU',
+  x: 'JrQLj5P_89iXES9-vFgrIy29clF9CC_oPPsw3c5D0bs',
+};
+const RFC_PUBLIC_KEY = 'JrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw3c5D0bs=';
+const RFC_CREATED = 1618884473;
+const RFC_SIGNATURE = 'wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==';
+const RFC_BODY = '{"hello": "world"}';
+const RFC_CONTENT_DIGEST = 'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:';
+
+function rfcRequest(): HttpSignatureRequest {
+  return {
+    method: 'POST',
+    url: 'https://example.com/foo?param=Value&Pet=dog',
+    headers: {
+      host: 'example.com',
+      date: 'Tue, 20 Apr 2021 02:07:55 GMT',
+      'content-type': 'application/json',
+      'content-digest': RFC_CONTENT_DIGEST,
+      'content-length': '18',
+    },
+  };
+}
+
+describe('HTTP message signatures', () => {
+  let signer: Signature;
+  let trustStore: TrustStore;
+
+  beforeEach(async () => {
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    signer = await Signature.getInstance();
+    await signer.loadIdentity('jwk', RFC_KEY_JWK);
+
+    trustStore = new TrustStore();
+    await trustStore.addKey('test-key-ed25519', RFC_PUBLIC_KEY);
+  });
+
+  it('should reproduce the RFC 9421 ed25519 signature', async () => {
+    const headers = await signHttpRequest(rfcRequest(), signer, {
+      keyId: 'test-key-ed25519',
+      components: ['date', '@method', '@path', '@authority', 'content-type', 'content-length'],
+      created: RFC_CREATED,
+      includeAlg: false,
+    });
+
+    expect(headers['signature-input']).toBe(
+      'sig1=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"'
+    );
+    expect(headers.signature).toBe(`sig1=:${RFC_SIGNATURE}:`);
+  });
+
+  it('should verify the RFC 9421 example request', async () => {
+    const request = rfcRequest();
+    request.headers = {
+      ...request.headers,
+      'signature-input': 'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"',
+      signature: `sig-b26=:${RFC_SIGNATURE}:`,
+    };
+
+    const result = await verifyHttpRequest(request, { keys: trustStore, now: RFC_CREATED * 1000 });
+
+    expect(result).toEqual({
+      label: 'sig-b26',
+      keyId: 'test-key-ed25519',
+      components: ['date', '@method', '@path', '@authority', 'content-type', 'content-length'],
+      created: RFC_CREATED,
+    });
+  });
+
+  it('should verify parameters in the signer\'s order, including unknown ones', async () => {
+    const signatureParams = '("@method" "@target-uri");keyid="test-key-ed25519";x-origin="partner";created=1618884473';
+    const base = `"@method": POST\n"@target-uri": https://example.com/foo?param=Value&Pet=dog\n"@signature-params": ${signatureParams}`;
+    const signature = Buffer.from(await signer.sign(base)).toString('base64');
+
+    const request = rfcRequest();
+    request.headers = { ...request.headers, 'signature-input': `sig1=${signatureParams}`, signature: `sig1=:${signature}:` };
+
+    await expect(verifyHttpRequest(request, { keys: trustStore, now: RFC_CREATED * 1000 }))
+      .resolves.toMatchObject({ keyId: 'test-key-ed25519', created: RFC_CREATED });
+  });
+
+  it('should sign and verify with default components, alg and a body digest', async () => {
+    const body = JSON.stringify({ event: 'invoice.paid' });
+    const headers = new Headers({ 'content-type': 'application/json', 'content-digest': await createContentDigest(body) });
+    const request = { method: 'POST', url: 'https://hooks.example.com/billing', headers };
+
+    const signed = await signHttpRequest(request, signer, { keyId: 'test-key-ed25519', tag: 'webhook', expires: Math.floor(Date.now() / 1000) + 300 });
+    expect(signed['signature-input']).toMatch(/^sig1=\("@method" "@target-uri" "content-digest" "content-type"\);created=\d+;expires=\d+;alg="ed25519";keyid="test-key-ed25519";tag="webhook"$/);
+    headers.set('signature-input', signed['signature-input']);
+    headers.set('signature', signed.signature);
+
+    const lookup = (keyId: string) => keyId === 'test-key-ed25519' ? RFC_PUBLIC_KEY : undefined;
+    const result = await verifyHttpRequest(request, { keys: lookup, body, tag: 'webhook', requiredComponents: ['@method', '@target-uri'], maxAgeMs: 60000 });
+    expect(result.tag).toBe('webhook');
+
+    await expect(verifyHttpRequest(request, { keys: lookup, body: body + ' ' }))
+      .rejects.toThrow('Content-Digest does not match the body');
+  });
+
+  it('should reject tampered requests and unknown keys', async () => {
+    const request = rfcRequest();
+    const signed = await signHttpRequest(request, signer, { keyId: 'test-key-ed25519' });
+    const headers = { ...request.headers, ...signed };
+
+    await expect(verifyHttpRequest({ ...request, method: 'PUT', headers }, { keys: trustStore }))
+      .rejects.toThrow('Invalid signature sig1');
+    await expect(verifyHttpRequest({ ...request, url: 'https://example.com/bar', headers }, { keys: trustStore }))
+      .rejects.toThrow(AuthenticationFailedError);
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: new TrustStore() }))
+      .rejects.toThrow('Unknown key ID: test-key-ed25519');
+    await expect(verifyHttpRequest({ ...request, headers: { ...headers, 'content-type': 'text/plain' } }, { keys: trustStore }))
+      .rejects.toThrow('Invalid signature sig1');
+  });
+
+  it('should enforce created and expires', async () => {
+    const request = rfcRequest();
+    const signed = await signHttpRequest(request, signer, { keyId: 'test-key-ed25519', created: 1000, expires: 1300 });
+    const headers = { ...request.headers, ...signed };
+
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, now: 1100 * 1000 })).resolves.toMatchObject({ created: 1000, expires: 1300 });
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, now: 1400 * 1000 }))
+      .rejects.toThrow('Signature expired');
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, now: 800 * 1000 }))
+      .rejects.toThrow('Signature created in the future');
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, now: 1200 * 1000, maxAgeMs: 30000 }))
+      .rejects.toThrow('Signature too old');
+  });
+
+  it('should reject unsigned components, algorithms and malformed headers', async () => {
+    const request = rfcRequest();
+    const signed = await signHttpRequest(request, signer, { keyId: 'test-key-ed25519', components: ['@method', '@path'] });
+    const headers = { ...request.headers, ...signed };
+
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, requiredComponents: ['@authority'] }))
+      .rejects.toThrow('Signature does not cover @authority');
+    await expect(verifyHttpRequest({ ...request, headers }, { keys: trustStore, body: RFC_BODY }))
+      .rejects.toThrow('Signature does not cover content-digest');
+    await expect(verifyHttpRequest({ ...request, headers: { ...headers, 'signature-input': signed['signature-input'].replace('ed25519', 'rsa-pss-sha512') } }, { keys: trustStore }))
+      .rejects.toThrow('Unsupported signature algorithm: rsa-pss-sha512');
+    await expect(verifyHttpRequest({ ...request, headers: { ...headers, signature: 'sig1=:not base64' } }, { keys: trustStore }))
+      .rejects.toThrow(EncodingError);
+    await expect(verifyHttpRequest(request, { keys: trustStore })).rejects.toThrow('Request is not signed');
+    await expect(signHttpRequest(request, signer, { keyId: 'k', components: ['x-missing'] }))
+      .rejects.toThrow('Missing header for signature component: x-missing');
+  });
+
+  it('should compute and check Content-Digest values', async () => {
+    expect(await createContentDigest(RFC_BODY, 'sha-512')).toBe(RFC_CONTENT_DIGEST);
+    expect(await createContentDigest(RFC_BODY)).toBe('sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:');
+
+    expect(await verifyContentDigest('sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:', RFC_BODY)).toBe(true);
+    expect(await verifyContentDigest('sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:', '{}')).toBe(false);
+    expect(await verifyContentDigest('md5=:AAAA:', RFC_BODY)).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+import { createCipheriv, createDecipheriv, createHash, createPrivateKey, createPublicKey, diffieHellman, generateKeyPairSync, randomBytes, webcrypto } from 'crypto';
+import { setCryptoProvider } from '../CryptoProvider';
+import { AuthenticationFailedError, EncodingError, InvalidArgumentError, InvalidKeyError, InvalidStateError } from '../errors';
+import { base64UrlToByteArr, byteArrayToString, getSubtleCrypto } from '../helpers';
+import { concatKdf, decryptJwe, encryptJwe, encryptJweJson, OkpJwk } from '../jwe';
+import { SealedBox } from '../SealedBox';
+import { SubtleCrypto } from '../types';
+
+function generateJwk(): OkpJwk {
+  return generateKeyPairSync('x25519').privateKey.export({ format: 'jwk' }) as OkpJwk;
+}
+
+function publicJwk(jwk: OkpJwk): OkpJwk {
+  return { kty: jwk.kty, crv: jwk.crv, x: jwk.x };
+}
+
+// Independent Concat KDF and X25519 with Node's crypto module, standing in for other JOSE tooling
+function nodeDerive(privateJwk: OkpJwk, publicKey: OkpJwk, algorithmId: string): Buffer {
+  const z = diffieHellman({
+    privateKey: createPrivateKey({ key: privateJwk as any, format: 'jwk' }),
+    publicKey: createPublicKey({ key: publicKey as any, format: 'jwk' }),
+  });
+  const field = (data: Buffer) => Buffer.concat([Buffer.from([0, 0, 0, data.length]), data]);
+  const otherInfo = Buffer.concat([field(Buffer.from(algorithmId)), field(Buffer.alloc(0)), field(Buffer.alloc(0)), Buffer.from([0, 0, 1, 0])]);
+  return createHash('sha256').update(Buffer.from([0, 0, 0, 1])).update(z).update(otherInfo).digest();
+}
+
+function nodeDecryptCompact(jwe: string, recipient: OkpJwk): string {
+  const [protectedB64, encryptedKey, iv, ciphertext, tag] = jwe.split('.') as [string, string, string, string, string];
+  const header = JSON.parse(Buffer.from(protectedB64, 'base64url').toString());
+  const kek = nodeDerive(recipient, header.epk, header.alg);
+  const unwrap = createDecipheriv('id-aes256-wrap', kek, Buffer.from('A6A6A6A6A6A6A6A6', 'hex'));
+  const cek = Buffer.concat([unwrap.update(Buffer.from(encryptedKey, 'base64url')), unwrap.final()]);
+
+  const decipher = createDecipheriv('aes-256-gcm', cek, Buffer.from(iv, 'base64url'));
+  decipher.setAAD(Buffer.from(protectedB64));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString();
+}
+
+function nodeEncryptCompact(plaintext: string, recipient: OkpJwk): string {
+  const ephemeral = generateJwk();
+  const header = { alg: 'ECDH-ES', enc: 'A256GCM', epk: publicJwk(ephemeral) };
+  const protectedB64 = Buffer.from(JSON.stringify(header)).toString('base64url');
+  const cek = nodeDerive(ephemeral, recipient, 'A256GCM');
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', cek, iv);
+  cipher.setAAD(Buffer.from(protectedB64));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [protectedB64, '', iv.toString('base64url'), ciphertext.toString('base64url'), cipher.getAuthTag().toString('base64url')].join('.');
+}
+
+describe('JWE', () => {
+  it('should match the RFC 7518 appendix C Concat KDF example', async () => {
+    const z = new Uint8Array([
+      158, 86, 217, 29, 129, 113, 53, 211, 114, 131, 66, 131, 191, 132, 38, 156,
+      251, 49, 110, 163, 218, 128, 106, 72, 246, 218, 167, 121, 140, 254, 144, 196,
+    ]);
+    const key = await concatKdf(z, 128, 'A128GCM', new TextEncoder().encode('Alice'), new TextEncoder().encode('Bob'));
+    expect(key).toEqual(base64UrlToByteArr('VqqN6vgjbSBcIijNcacQGg'));
+  });
+
+  it('should round-trip a compact ECDH-ES JWE with a CryptoKeyPair', async () => {
+    const recipient = await SealedBox.generateKeyPair();
+    const publicKey = new Uint8Array(await (await getSubtleCrypto()).exportKey('raw', recipient.publicKey));
+
+    const jwe = await encryptJwe('{"sub":"user-42"}', publicKey, { kid: 'partner-1', cty: 'JWT' });
+    const segments = jwe.split('.');
+    expect(segments).toHaveLength(5);
+    expect(segments[1]).toBe('');
+
+    const { plaintext, protectedHeader } = await decryptJwe(jwe, recipient);
+    expect(byteArrayToString(plaintext)).toBe('{"sub":"user-42"}');
+    expect(protectedHeader).toMatchObject({ alg: 'ECDH-ES', enc: 'A256GCM', kid: 'partner-1', cty: 'JWT', epk: { kty: 'OKP', crv: 'X25519' } });
+  });
+
+  it('should interoperate with an independent JOSE implementation', async () => {
+    const recipient = generateJwk();
+
+    const wrapped = await encryptJwe('to the partner', publicJwk(recipient), { alg: 'ECDH-ES+A256KW' });
+    expect(nodeDecryptCompact(wrapped, recipient)).toBe('to the partner');
+
+    const incoming = nodeEncryptCompact('from the partner', publicJwk(recipient));
+    expect(byteArrayToString((await decryptJwe(incoming, recipient)).plaintext)).toBe('from the partner');
+  });
+
+  it('should encrypt JSON serialization to several recipients with additional data', async () => {
+    const alice = generateJwk();
+    const bob = generateJwk();
+    const aad = new TextEncoder().encode('order 1234');
+
+    const jwe = await encryptJweJson('shared secret', [
+      { publicKey: publicJwk(alice), kid: 'alice' },
+      { publicKey: publicJwk(bob), kid: 'bob' },
+    ], { alg: 'ECDH-ES+A256KW', unprotected: { jku: 'https://example.com/keys' }, additionalData: aad });
+
+    expect(jwe.recipients).toHaveLength(2);
+    expect(jwe.recipients![1]!.header).toMatchObject({ alg: 'ECDH-ES+A256KW', kid: 'bob' });
+
+    const forBob = await decryptJwe(JSON.stringify(jwe), bob, { kid: 'bob' });
+    expect(byteArrayToString(forBob.plaintext)).toBe('shared secret');
+    expect(forBob.additionalData).toEqual(aad);
+    expect(forBob.header).toMatchObject({ enc: 'A256GCM', jku: 'https://example.com/keys', kid: 'bob' });
+    expect(byteArrayToString((await decryptJwe(jwe, alice)).plaintext)).toBe('shared secret');
+
+    await expect(decryptJwe({ ...jwe, aad: 'b3JkZXIgNTY3OA' }, bob)).rejects.toThrow('JWE decryption failed');
+  });
+
+  it('should produce flattened JSON for a single recipient', async () => {
+    const recipient = generateJwk();
+    const jwe = await encryptJweJson('hello', [{ publicKey: publicJwk(recipient) }], { alg: 'ECDH-ES+A256KW' });
+
+    expect(jwe.recipients).toBeUndefined();
+    expect(typeof jwe.encrypted_key).toBe('string');
+    expect(byteArrayToString((await decryptJwe(jwe, recipient)).plaintext)).toBe('hello');
+  });
+
+  it('should reject the wrong key, tampering and disallowed algorithms', async () => {
+    const recipient = generateJwk();
+    const jwe = await encryptJwe('secret', publicJwk(recipient));
+    const [protectedB64, , iv, ciphertext, tag] = jwe.split('.') as [string, string, string, string, string];
+
+    await expect(decryptJwe(jwe, generateJwk())).rejects.toThrow(AuthenticationFailedError);
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0]! ^= 1;
+    await expect(decryptJwe([protectedB64, '', iv, flipped.toString('base64url'), tag].join('.'), recipient))
+      .rejects.toThrow('JWE decryption failed');
+    await expect(decryptJwe(jwe, recipient, { algorithms: ['ECDH-ES+A256KW'] }))
+      .rejects.toThrow('Unsupported JWE algorithm: ECDH-ES');
+
+    const header = JSON.parse(Buffer.from(protectedB64, 'base64url').toString());
+    const a128 = Buffer.from(JSON.stringify({ ...header, enc: 'A128GCM' })).toString('base64url');
+    await expect(decryptJwe([a128, '', iv, ciphertext, tag].join('.'), recipient))
+      .rejects.toThrow('Unsupported JWE content encryption: A128GCM');
+  });
+
+  it('should not let extra header parameters override computed ones', async () => {
+    const recipient = publicJwk(generateJwk());
+
+    await expect(encryptJwe('x', recipient, { header: { enc: 'A128GCM' } }))
+      .rejects.toThrow('Reserved JWE header parameters cannot be set: enc');
+    await expect(encryptJwe('x', recipient, { header: { crit: ['exp'] } })).rejects.toThrow(InvalidArgumentError);
+    await expect(encryptJweJson('x', [{ publicKey: recipient }], { header: { epk: recipient, zip: 'DEF' } }))
+      .rejects.toThrow('Reserved JWE header parameters cannot be set: epk, zip');
+    await expect(encryptJweJson('x', [{ publicKey: recipient }], { unprotected: { alg: 'dir' } }))
+      .rejects.toThrow('Reserved JWE header parameters cannot be set: alg');
+  });
+
+  it('should reject header parameters set in more than one header', async () => {
+    const recipient = publicJwk(generateJwk());
+
+    await expect(encryptJweJson('x', [{ publicKey: recipient, kid: 'k1' }], { unprotected: { kid: 'k2' } }))
+      .rejects.toThrow('Duplicate JWE header parameter: kid');
+    await expect(encryptJweJson('x', [{ publicKey: recipient }], { header: { cty: 'a' }, unprotected: { cty: 'b' } }))
+      .rejects.toThrow(EncodingError);
+    await expect(encryptJwe('x', recipient, { kid: 'k1', header: { kid: 'k2' } }))
+      .rejects.toThrow('Duplicate JWE header parameter: kid');
+    await expect(encryptJwe('x', recipient, { typ: 'JWT', header: { typ: 'JOSE' } }))
+      .rejects.toThrow('Duplicate JWE header parameter: typ');
+
+    const jwe = await encryptJweJson('x', [{ publicKey: recipient }], { header: { kid: 'k1' }, unprotected: { jku: 'https://example.com' } });
+    expect(JSON.parse(Buffer.from(jwe.protected!, 'base64url').toString())).toMatchObject({ kid: 'k1' });
+  });
+
+  it('should need wrapKey() from the crypto provider for ECDH-ES+A256KW', async () => {
+    const subtle = new Proxy(webcrypto.subtle, {
+      get(target, property: string) {
+        const value = property === 'wrapKey' ? undefined : (target as any)[property];
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    }) as unknown as SubtleCrypto;
+    setCryptoProvider({ subtle });
+    try {
+      await expect(encryptJwe('x', publicJwk(generateJwk()), { alg: 'ECDH-ES+A256KW' })).rejects.toThrow(InvalidStateError);
+    } finally {
+      setCryptoProvider(null);
+    }
+  });
+
+  it('should reject invalid keys and malformed input', async () => {
+    const recipient = generateJwk();
+
+    await expect(encryptJwe('x', new Uint8Array(31))).rejects.toThrow(InvalidKeyError);
+    await expect(encryptJwe('x', new Uint8Array(32))).rejects.toThrow('Invalid X25519 public key');
+    await expect(encryptJweJson('x', [{ publicKey: publicJwk(recipient) }, { publicKey: publicJwk(recipient) }]))
+      .rejects.toThrow('ECDH-ES supports a single recipient; use ECDH-ES+A256KW');
+    await expect(encryptJweJson('x', [])).rejects.toThrow(InvalidArgumentError);
+    await expect(encryptJwe('x', publicJwk(recipient), { alg: 'RSA-OAEP' as any })).rejects.toThrow(InvalidArgumentError);
+    await expect(decryptJwe('a.b.c', recipient)).rejects.toThrow(EncodingError);
+
+    const [protectedB64, , iv, ciphertext, tag] = (await encryptJwe('x', publicJwk(recipient))).split('.') as [string, string, string, string, string];
+    await expect(decryptJwe(['A', '', iv, ciphertext, tag].join('.'), recipient)).rejects.toThrow(EncodingError);
+    await expect(decryptJwe([protectedB64, '', 'A', ciphertext, tag].join('.'), recipient)).rejects.toThrow(EncodingError);
+
+    const jwe = await encryptJweJson('x', [{ publicKey: publicJwk(recipient) }], { alg: 'ECDH-ES+A256KW' });
+    await expect(decryptJwe({ ...jwe, recipients: [] }, recipient)).rejects.toThrow('recipients must be a non-empty array');
+    await expect(decryptJwe({ ...jwe, recipients: {} as any }, recipient)).rejects.toThrow(EncodingError);
+    await expect(decryptJwe({ ...jwe, recipients: [null as any] }, recipient)).rejects.toThrow('Invalid JWE recipient');
+    await expect(decryptJwe({ ...jwe, encrypted_key: 42 as any }, recipient)).rejects.toThrow(EncodingError);
+    await expect(decryptJwe({ ...jwe, protected: {} as any }, recipient)).rejects.toThrow(EncodingError);
+    await expect(decryptJwe({ ...jwe, aad: [] as any }, recipient)).rejects.toThrow(EncodingError);
+    await expect(decryptJwe(await encryptJwe('x', publicJwk(recipient)), publicJwk(recipient)))
+      .rejects.toThrow('Expected a private X25519 OKP JWK');
+  });
+});
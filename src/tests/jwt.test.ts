@@ -0,0 +1,139 @@
+import { AuthenticationFailedError, EncodingError } from '../errors';
+import { base64UrlToByteArr, byteArrayToBase64, byteArrayToString } from '../helpers';
+import { signJws, signJwt, verifyJws, verifyJwt } from '../jwt';
+import { Signature } from '../Signature';
+import { TrustStore } from '../TrustStore';
+
+// RFC 8037 appendix A.1 key and A.4 signature
+const RFC_KEY_JWK = {
+  kty: 'OKP',
+  crv: 'Ed25519',
+  d: 'nWGxne_9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A',
+  x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo',
+};
+const RFC_JWS = 'eyJhbGciOiJFZERTQSJ9.RXhhbXBsZSBvZiBFZDI1NTE5IHNpZ25pbmc.hgyY0il_MGCjP0JzlnLWG1PPOt7-09PGcvMg3AIbQR6dWbhijcNR4ki4iylGjg5BhVsPt9g7sVvpAr_MuM0KAg';
+const RFC_PUBLIC_KEY = byteArrayToBase64(base64UrlToByteArr(RFC_KEY_JWK.x));
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('JWS and JWT', () => {
+  let signer: Signature;
+  let trustStore: TrustStore;
+
+  beforeEach(async () => {
+    (Signature as any).instance = null;
+    (Signature as any).initialized = false;
+    signer = await Signature.getInstance();
+    await signer.loadIdentity('jwk', RFC_KEY_JWK);
+
+    trustStore = new TrustStore();
+    await trustStore.addKey('issuer-1', RFC_PUBLIC_KEY);
+  });
+
+  it('should reproduce and verify the RFC 8037 EdDSA JWS', async () => {
+    expect(await signJws('Example of Ed25519 signing', signer)).toBe(RFC_JWS);
+
+    const { header, payload } = await verifyJws(RFC_JWS, { keys: () => RFC_PUBLIC_KEY });
+    expect(header).toEqual({ alg: 'EdDSA' });
+    expect(byteArrayToString(payload)).toBe('Example of Ed25519 signing');
+  });
+
+  it('should issue a JWT and verify it by kid against the peer keys Signature knows', async () => {
+    const token = await signJwt({ scope: 'orders:read' }, signer, {
+      kid: 'issuer-1',
+      issuer: 'https://auth.example.com',
+      subject: 'user-42',
+      audience: ['api', 'admin'],
+      expiresInMs: 5 * 60 * 1000,
+      now: NOW,
+    });
+
+    const verifier = await Signature.getInstance();
+    await verifier.trustStore.addKey('issuer-1', RFC_PUBLIC_KEY);
+    const { header, claims } = await verifyJwt(token, {
+      keys: verifier,
+      typ: 'JWT',
+      issuer: 'https://auth.example.com',
+      audience: 'api',
+      requiredClaims: ['exp', 'sub'],
+      now: NOW + 1000,
+    });
+
+    expect(header).toEqual({ alg: 'EdDSA', kid: 'issuer-1', typ: 'JWT' });
+    expect(claims).toEqual({
+      iat: NOW / 1000,
+      exp: NOW / 1000 + 300,
+      iss: 'https://auth.example.com',
+      sub: 'user-42',
+      aud: ['api', 'admin'],
+      scope: 'orders:read',
+    });
+  });
+
+  it('should validate exp, nbf, iat and maxAge with clock skew', async () => {
+    const token = await signJwt({}, signer, {
+      kid: 'issuer-1',
+      expiresInMs: 60 * 1000,
+      notBefore: NOW + 10 * 1000,
+      now: NOW,
+    });
+    const verify = (now: number, extra = {}) => verifyJwt(token, { keys: trustStore, now, ...extra });
+
+    await expect(verify(NOW + 30 * 1000)).resolves.toBeDefined();
+    await expect(verify(NOW, { clockSkewMs: 0 })).rejects.toThrow('Token not yet valid');
+    await expect(verify(NOW)).resolves.toBeDefined(); // within the default 60 s skew
+    await expect(verify(NOW + 60 * 1000, { clockSkewMs: 0 })).rejects.toThrow('Token expired');
+    await expect(verify(NOW + 119 * 1000)).resolves.toBeDefined();
+    await expect(verify(NOW + 120 * 1000)).rejects.toThrow('Token expired');
+    await expect(verify(NOW - 120 * 1000)).rejects.toThrow('Token not yet valid');
+    await expect(verify(NOW + 30 * 1000, { maxAgeMs: 10 * 1000, clockSkewMs: 0 })).rejects.toThrow('Token too old');
+  });
+
+  it('should reject wrong issuers, audiences and missing claims', async () => {
+    const token = await signJwt({}, signer, { kid: 'issuer-1', issuer: 'a', audience: 'api', now: NOW });
+    const base = { keys: trustStore, now: NOW };
+
+    await expect(verifyJwt(token, { ...base, issuer: ['b', 'c'] })).rejects.toThrow('Unexpected issuer: a');
+    await expect(verifyJwt(token, { ...base, issuer: ['b', 'a'] })).resolves.toBeDefined();
+    await expect(verifyJwt(token, { ...base, audience: 'billing' })).rejects.toThrow('Token is not for this audience');
+    await expect(verifyJwt(token, { ...base, requiredClaims: ['exp'] })).rejects.toThrow('Missing exp claim');
+    await expect(verifyJwt(token, { ...base, typ: 'at+jwt' })).rejects.toThrow('JWS typ must be at+jwt');
+  });
+
+  it('should reject forged, unknown-key and non-EdDSA tokens', async () => {
+    const token = await signJwt({ admin: false }, signer, { kid: 'issuer-1', now: NOW });
+    const [header, , signature] = token.split('.');
+    const forged = `${header}.${Buffer.from(JSON.stringify({ admin: true, iat: NOW / 1000 })).toString('base64url')}.${signature}`;
+
+    await expect(verifyJwt(forged, { keys: trustStore, now: NOW })).rejects.toThrow('Invalid JWS signature');
+    await expect(verifyJwt(token, { keys: new TrustStore(), now: NOW })).rejects.toThrow(AuthenticationFailedError);
+    await expect(verifyJwt(token, { keys: () => undefined, now: NOW })).rejects.toThrow('Unknown key ID: issuer-1');
+    await expect(verifyJwt(token, { keys: signer, now: NOW })).rejects.toThrow(AuthenticationFailedError);
+
+    const none = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${token.split('.')[1]}.`;
+    await expect(verifyJwt(none, { keys: trustStore, now: NOW })).rejects.toThrow('Unsupported JWS algorithm: none');
+    const critical = await signJws('{}', signer, { header: { crit: ['exp'] } });
+    await expect(verifyJws(critical, { keys: trustStore })).rejects.toThrow('Unsupported critical JWS header parameters');
+  });
+
+  it('should require a kid for Signature and TrustStore keys unless tryAllKeys is set', async () => {
+    const token = await signJwt({}, signer, { now: NOW });
+
+    await expect(verifyJwt(token, { keys: trustStore, now: NOW })).rejects.toThrow(AuthenticationFailedError);
+    await expect(verifyJwt(token, { keys: trustStore, now: NOW })).rejects.toThrow('JWS has no kid');
+    await expect(verifyJwt(token, { keys: trustStore, now: NOW, tryAllKeys: true })).resolves.toBeDefined();
+    await expect(verifyJwt(token, { keys: new TrustStore(), now: NOW, tryAllKeys: true })).rejects.toThrow(
+      AuthenticationFailedError,
+    );
+  });
+
+  it('should reject malformed tokens', async () => {
+    await expect(verifyJws('a.b', { keys: trustStore })).rejects.toThrow(EncodingError);
+    await expect(verifyJws('a+b.c.d', { keys: trustStore })).rejects.toThrow('Invalid compact JWS');
+    await expect(verifyJws('A.B.C', { keys: trustStore })).rejects.toThrow(EncodingError);
+    const [header, payload] = (await signJws('payload', signer, { kid: 'issuer-1' })).split('.');
+    await expect(verifyJws(`${header}.${payload}.A`, { keys: trustStore })).rejects.toThrow(EncodingError);
+    const notJson = await signJws('not json', signer, { kid: 'issuer-1' });
+    await expect(verifyJwt(notJson, { keys: trustStore })).rejects.toThrow('Invalid JWT claims: not JSON');
+  });
+});
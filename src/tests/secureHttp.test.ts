@@ -0,0 +1,225 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AuthenticationFailedError } from '../errors';
+import { byteArrayToString } from '../helpers';
+import { KeyExchange } from '../KeyExchange';
+import { RecordLayer } from '../RecordLayer';
+import {
+  createSecureMiddleware,
+  secureFetch,
+  SecureHttpRequest,
+  SecureHttpResponse,
+  SecureHttpSession,
+  SECURE_HTTP_AUTH_HEADER,
+  SECURE_HTTP_CONTENT_TYPE,
+  SECURE_HTTP_SESSION_HEADER
+} from '../secureHttp';
+
+describe('secureFetch and createSecureMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+  let client: KeyExchange;
+  let serverSession: SecureHttpSession;
+  let lastRequest: { body?: unknown; contentType?: string } = {};
+
+  beforeAll(async () => {
+    const middleware = createSecureMiddleware({
+      getSession: sessionId => sessionId === 'client-1' ? serverSession : undefined,
+      limit: 1024,
+    });
+
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      middleware(req, res, error => {
+        if (error) {
+          res.statusCode = 500;
+          res.end();
+          return;
+        }
+        const request = req as IncomingMessage & { body?: Uint8Array };
+        lastRequest = { body: request.body, contentType: req.headers['content-type'] };
+
+        if (req.url === '/json') {
+          res.setHeader('content-type', 'application/json');
+          res.end(JSON.stringify({ echo: byteArrayToString(request.body!) }));
+        } else if (req.url === '/chunks') {
+          res.writeHead(201, { 'content-type': 'text/plain' });
+          res.write('one ');
+          res.write(new TextEncoder().encode('two'));
+          res.end();
+        } else if (req.url === '/empty') {
+          res.statusCode = 204;
+          res.end();
+        } else {
+          res.end('ok');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    client = await KeyExchange.createSession('http-server', 'client');
+    const serverKx = await KeyExchange.createSession('http-client', 'server');
+    const clientPublicKey = await client.generateKeyPair();
+    await client.deriveKeys(await serverKx.generateKeyPair());
+    await serverKx.deriveKeys(clientPublicKey);
+    serverSession = serverKx;
+    lastRequest = {};
+  });
+
+  afterEach(() => {
+    KeyExchange.listSessions().forEach(peerId => KeyExchange.closeSession(peerId));
+  });
+
+  it('should encrypt the request body and decrypt the response', async () => {
+    const response = await secureFetch(`${baseUrl}/json`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ hello: 'server' }),
+      session: client,
+      sessionId: 'client-1',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ echo: '{"hello":"server"}' });
+    expect(lastRequest.contentType).toBe('application/json');
+    expect(lastRequest.body).toBeInstanceOf(Uint8Array);
+  });
+
+  it('should refuse plaintext bodies and unauthenticated bodiless requests', async () => {
+    const headers = { [SECURE_HTTP_SESSION_HEADER]: 'client-1', 'x-secure-channel-request-id': 'x' };
+    const wire = await fetch(`${baseUrl}/json`, { method: 'POST', body: 'plain', headers });
+    expect(wire.status).toBe(415);
+
+    expect((await fetch(`${baseUrl}/`, { headers })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/`, { headers: { ...headers, [SECURE_HTTP_AUTH_HEADER]: 'AAAA' } })).status).toBe(400);
+    expect(lastRequest).toEqual({});
+  });
+
+  it('should never answer in plaintext', async () => {
+    let wire: Response | null = null;
+    const capture: typeof fetch = async (input, init) => {
+      wire = await fetch(input, init);
+      return wire.clone();
+    };
+    await secureFetch(`${baseUrl}/`, { session: client, sessionId: 'client-1', fetch: capture });
+
+    expect(wire!.headers.get('content-type')).toBe(SECURE_HTTP_CONTENT_TYPE);
+    expect(new Uint8Array(await wire!.arrayBuffer())).not.toEqual(new TextEncoder().encode('ok'));
+  });
+
+  it('should encrypt responses written with writeHead() and write()', async () => {
+    const response = await secureFetch(`${baseUrl}/chunks`, { session: client, sessionId: 'client-1' });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-type')).toBe('text/plain');
+    expect(await response.text()).toBe('one two');
+  });
+
+  it('should authenticate bodiless requests and responses', async () => {
+    const response = await secureFetch(`${baseUrl}/empty`, { method: 'DELETE', session: client, sessionId: 'client-1' });
+    expect(response.status).toBe(204);
+    expect(response.headers.get(SECURE_HTTP_AUTH_HEADER)).toBeTruthy();
+
+    const head = await secureFetch(`${baseUrl}/`, { method: 'HEAD', session: client, sessionId: 'client-1' });
+    expect(head.status).toBe(200);
+  });
+
+  it('should reject unauthenticated bodiless responses', async () => {
+    const forged: typeof fetch = async () => new Response(null, { status: 204 });
+    await expect(secureFetch(`${baseUrl}/empty`, { method: 'DELETE', session: client, sessionId: 'client-1', fetch: forged }))
+      .rejects.toThrow(AuthenticationFailedError);
+
+    // A genuine token only vouches for the status it was issued with
+    const restatus: typeof fetch = async (input, init) => {
+      const real = await fetch(input, init);
+      return new Response(null, { status: 205, headers: real.headers });
+    };
+    await expect(secureFetch(`${baseUrl}/empty`, { method: 'DELETE', session: client, sessionId: 'client-1', fetch: restatus }))
+      .rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should reject unknown sessions and missing headers', async () => {
+    await expect(secureFetch(`${baseUrl}/`, { session: client, sessionId: 'someone-else' }))
+      .rejects.toThrow('Expected an encrypted response, got 401');
+    expect((await fetch(`${baseUrl}/`)).status).toBe(401);
+  });
+
+  it('should reject bodies encrypted for another path', async () => {
+    const rewrite: typeof fetch = (input, init) => fetch(String(input).replace('/json', '/other'), init);
+
+    await expect(secureFetch(`${baseUrl}/json`, { method: 'POST', body: 'x', session: client, sessionId: 'client-1', fetch: rewrite }))
+      .rejects.toThrow(AuthenticationFailedError);
+    expect(lastRequest).toEqual({});
+  });
+
+  it('should bind bodiless requests to their method and path', async () => {
+    const rewrite: typeof fetch = (input, init) => fetch(String(input).replace('/json', '/other'), init);
+    await expect(secureFetch(`${baseUrl}/json`, { session: client, sessionId: 'client-1', fetch: rewrite }))
+      .rejects.toThrow('Expected an encrypted response, got 401');
+
+    const toDelete: typeof fetch = (input, init) => fetch(input, { ...init, method: 'DELETE' });
+    await expect(secureFetch(`${baseUrl}/empty`, { session: client, sessionId: 'client-1', fetch: toDelete }))
+      .rejects.toThrow('Expected an encrypted response, got 401');
+    expect(lastRequest).toEqual({});
+  });
+
+  it('should reject replayed request bodies when using a RecordLayer', async () => {
+    const clientRecords = new RecordLayer(client);
+    serverSession = new RecordLayer(serverSession as KeyExchange);
+
+    let captured: [RequestInfo | URL, RequestInit | undefined] | null = null;
+    const capture: typeof fetch = (input, init) => {
+      captured = [input, init];
+      return fetch(input, init);
+    };
+    const response = await secureFetch(`${baseUrl}/json`, { method: 'PUT', body: 'once', session: clientRecords, sessionId: 'client-1', fetch: capture });
+    expect(await response.json()).toEqual({ echo: 'once' });
+
+    const replayed = await fetch(captured![0], captured![1]);
+    expect(replayed.status).toBe(401);
+  });
+
+  it('should handle parallel requests over one RecordLayer session', async () => {
+    const clientRecords = new RecordLayer(client);
+    serverSession = new RecordLayer(serverSession as KeyExchange);
+
+    const responses = await Promise.all(['a', 'b', 'c', 'd'].map(body =>
+      secureFetch(`${baseUrl}/json`, { method: 'POST', body, session: clientRecords, sessionId: 'client-1' })
+    ));
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200, 200]);
+    expect(await Promise.all(responses.map(response => response.json()))).toEqual(
+      ['a', 'b', 'c', 'd'].map(echo => ({ echo }))
+    );
+  });
+
+  it('should enforce the body size limit', async () => {
+    const response = secureFetch(`${baseUrl}/json`, { method: 'POST', body: new Uint8Array(2048), session: client, sessionId: 'client-1' });
+    await expect(response).rejects.toThrow('Expected an encrypted response, got 413');
+  });
+
+  it('should answer unreadable bodies with 400', async () => {
+    const middleware = createSecureMiddleware({ getSession: () => serverSession });
+    const listeners: Record<string, (...args: any[]) => void> = {};
+    const req: SecureHttpRequest = {
+      method: 'POST',
+      url: '/json',
+      headers: { [SECURE_HTTP_SESSION_HEADER]: 'client-1', 'x-secure-channel-request-id': 'x', 'content-type': SECURE_HTTP_CONTENT_TYPE },
+      on: (event, listener) => { listeners[event] = listener; },
+    };
+    const res = { statusCode: 200, setHeader: jest.fn(), end: jest.fn() } as unknown as SecureHttpResponse;
+
+    const handled = middleware(req, res, jest.fn());
+    await new Promise(resolve => setImmediate(resolve)); // Let the session lookup finish and the body listeners attach
+    listeners.error!(new Error('socket hang up'));
+    await handled;
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -27,4 +27,62 @@ export interface SubtleCrypto {
   
   // Key derivation
   deriveKey(algorithm: any, baseKey: any, derivedKeyAlgorithm: any, extractable: boolean, keyUsages: string[]): Promise<any>;
-}
\ No newline at end of file
+  
+  // Hashing
+  digest(algorithm: any, data: any): Promise<ArrayBuffer>;
+
+  // Key wrapping, only needed for ECDH-ES+A256KW JWE
+  wrapKey?(format: string, key: any, wrappingKey: any, wrapAlgorithm: any): Promise<ArrayBuffer>;
+  unwrapKey?(
+    format: string,
+    wrappedKey: any,
+    unwrappingKey: any,
+    unwrapAlgorithm: any,
+    unwrappedKeyAlgorithm: any,
+    extractable: boolean,
+    keyUsages: string[]
+  ): Promise<any>;
+}
+
+/**
+ * Source of cryptographic primitives for the whole package, see setCryptoProvider()
+ */
+export interface CryptoProvider {
+  subtle: SubtleCrypto;
+  getRandomValues?(array: Uint8Array): Uint8Array; // Defaults to the platform CSPRNG
+}
+
+/**
+ * Side of the key exchange a KeyExchange instance plays.
+ * The client (initiator) transmits on 'client-to-server', the server (responder) on 'server-to-client'.
+ */
+export type KeyExchangeRole = 'client' | 'server';
+
+export interface KeyExchangeSessionOptions {
+  exportable?: boolean; // Allow exportState(), so the session can be persisted and resumed
+}
+
+/**
+ * Snapshot of an exportable KeyExchange session. Contains the raw TX/RX key material.
+ */
+export interface KeyExchangeState {
+  peerId: string;
+  role: KeyExchangeRole;
+  txSecret: string; // base64
+  rxSecret: string; // base64
+  txEpoch: number;
+  rxEpoch: number;
+  cipherSuite?: number; // Defaults to AES-256-GCM (states exported before suites existed)
+}
+
+/**
+ * Encodings accepted for an Ed25519 identity private key:
+ * 'pkcs8' DER bytes, 'jwk' JSON Web Key object (OKP / Ed25519), 'seed' 32-byte raw private key
+ */
+export type IdentityKeyFormat = 'pkcs8' | 'jwk' | 'seed';
+
+export interface IdentityStoreOptions {
+  name?: string; // Key name in the store
+  passphrase?: string; // Wrap the stored key; without it the key is stored in the clear
+  iterations?: number; // PBKDF2 iterations when a passphrase is given
+}